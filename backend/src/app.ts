@@ -5,22 +5,45 @@ import spinWheelRoutes from './routes/spinWheel.routes';
 import transactionRoutes from './routes/transaction.routes';
 import userRoutes from './routes/user.routes';
 import adminRoutes from './routes/admin.routes';
+import wheelTemplateRoutes from './routes/wheelTemplate.routes';
+import walletRoutes from './routes/wallet.routes';
+import rewardRoutes from './routes/reward.routes';
+import metricsRoutes from './routes/metrics.routes';
+import healthRoutes from './routes/health.routes';
+import { apiRateLimit } from './middlewares/rateLimit.middleware';
+import { errorHandler, notFoundHandler } from './middlewares/errorHandler.middleware';
+import { requestContext } from './middlewares/requestContext.middleware';
+import { httpMetrics } from './middlewares/metrics.middleware';
 
 
 
 const app = express();
 
+// Request ID first so every later log line and error carries it
+app.use(requestContext);
+app.use(httpMetrics);
 app.use(express.json());
 app.use(cookiesParser());
 
 
 // API Routes
+app.use('/api', apiRateLimit);
 app.use('/api/auth', authRoutes);
 app.use('/api/spin-wheels', spinWheelRoutes);
 app.use('/api/transactions', transactionRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/wheel-templates', wheelTemplateRoutes);
+app.use('/api/wallet', walletRoutes);
+app.use('/api/rewards', rewardRoutes);
+// Outside /api so probes and scrapes are not rate limited
+app.use('/', healthRoutes);
+app.use('/metrics', metricsRoutes);
 app.get('/', (req, res) => res.send('Roxstar Spin Wheel Backend'));
 
+// Unknown routes and every error forwarded with next(error)
+app.use(notFoundHandler);
+app.use(errorHandler);
+
 
 export default app;
\ No newline at end of file
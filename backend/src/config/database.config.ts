@@ -25,12 +25,7 @@ const connectDB = async (): Promise<void> => {
             logger.warn('MongoDB disconnected. Attempting to reconnect...');
         });
 
-        // Graceful shutdown
-        process.on('SIGINT', async () => {
-            await mongoose.connection.close();
-            logger.info('MongoDB connection closed due to application termination.');
-            process.exit(0);
-        });
+        // The connection is closed by the shutdown sequence in server.ts
     } catch (error) {
         logger.error(`Failed to connect to MongoDB: ${error}`);
     process.exit(1);
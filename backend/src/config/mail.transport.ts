@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import path from 'path';
+import logger from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers outgoing mail
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Console transport: logs every message. Default for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  public async send(message: MailMessage): Promise<void> {
+    logger.info(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * File transport: writes each message as JSON into an outbox directory
+ * so tests and local tooling can read it back.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  public async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * In-memory transport: keeps sent messages for assertions in tests
+ */
+export class InMemoryMailTransport implements MailTransport {
+  public readonly sent: MailMessage[] = [];
+
+  public async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT ("console" | "file" | "memory")
+ */
+export const createMailTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox'));
+    case 'memory':
+      return new InMemoryMailTransport();
+    default:
+      return new ConsoleMailTransport();
+  }
+};
@@ -0,0 +1,180 @@
+import RateLimitCounter from '../models/rate_limit_counter.models';
+
+export interface RateLimitHit {
+  count: number;      // Requests in the sliding window, including this one
+  resetAt: number;    // Epoch ms when the current fixed window rolls over
+}
+
+/**
+ * Sliding-window counters shared by every rate limiter
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Helper: Estimate the sliding-window count from two fixed windows.
+ * The previous window is weighted by how much of it still overlaps.
+ */
+export const slidingWindowCount = (
+  previous: number,
+  current: number,
+  now: number,
+  windowMs: number
+): number => {
+  const elapsed = (now % windowMs) / windowMs;
+  return Math.floor(previous * (1 - elapsed)) + current;
+};
+
+interface WindowCounter {
+  windowMs: number;
+  bucket: number;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Synchronous sliding-window counter for state that lives in one process
+ * (in-memory store, per-socket event throttling)
+ */
+export class SlidingWindowCounter {
+  private counters: Map<string, WindowCounter> = new Map();
+
+  public hit(key: string, windowMs: number, now: number = Date.now()): RateLimitHit {
+    const bucket = Math.floor(now / windowMs);
+    const counter = this.counters.get(key);
+
+    if (!counter || counter.windowMs !== windowMs || counter.bucket < bucket - 1) {
+      this.counters.set(key, { windowMs, bucket, current: 1, previous: 0 });
+    } else if (counter.bucket === bucket - 1) {
+      counter.previous = counter.current;
+      counter.current = 1;
+      counter.bucket = bucket;
+    } else {
+      counter.current += 1;
+    }
+
+    const { previous, current } = this.counters.get(key)!;
+    return {
+      count: slidingWindowCount(previous, current, now, windowMs),
+      resetAt: (bucket + 1) * windowMs,
+    };
+  }
+
+  public reset(key: string): void {
+    this.counters.delete(key);
+  }
+
+  /**
+   * Drop every key starting with a prefix
+   */
+  public resetPrefix(prefix: string): void {
+    for (const key of this.counters.keys()) {
+      if (key.startsWith(prefix)) {
+        this.counters.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop counters that can no longer affect any window
+   */
+  public prune(now: number = Date.now()): void {
+    this.counters.forEach((counter, key) => {
+      if ((counter.bucket + 2) * counter.windowMs <= now) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * In-memory store: counters are per process. Single-node deployments and tests.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counter = new SlidingWindowCounter();
+  private pruneInterval: NodeJS.Timeout;
+
+  constructor(pruneEveryMs: number = 60000) {
+    this.pruneInterval = setInterval(() => this.counter.prune(), pruneEveryMs);
+    this.pruneInterval.unref();
+  }
+
+  public async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    return this.counter.hit(key, windowMs);
+  }
+
+  public async reset(key: string): Promise<void> {
+    this.counter.reset(key);
+  }
+}
+
+/**
+ * MongoDB store: counters are shared by every instance. Old windows
+ * are removed by a TTL index.
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  public async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const bucket = Math.floor(now / windowMs);
+
+    const [current, previous] = await Promise.all([
+      this.incrementBucket(key, bucket, windowMs),
+      RateLimitCounter.findOne({ key, bucket: bucket - 1 }).lean(),
+    ]);
+
+    return {
+      count: slidingWindowCount(previous?.count || 0, current, now, windowMs),
+      resetAt: (bucket + 1) * windowMs,
+    };
+  }
+
+  public async reset(key: string): Promise<void> {
+    await RateLimitCounter.deleteMany({ key });
+  }
+
+  private async incrementBucket(key: string, bucket: number, windowMs: number): Promise<number> {
+    const update = {
+      $inc: { count: 1 },
+      $setOnInsert: { expiresAt: new Date((bucket + 2) * windowMs) },
+    };
+
+    try {
+      const counter = await RateLimitCounter.findOneAndUpdate({ key, bucket }, update, {
+        upsert: true,
+        new: true,
+      });
+      return counter!.count;
+    } catch (error: any) {
+      // Two instances raced to create the bucket; the loser retries as an update
+      if (error?.code === 11000) {
+        const counter = await RateLimitCounter.findOneAndUpdate({ key, bucket }, update, {
+          new: true,
+        });
+        return counter?.count || 1;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Build the store selected by RATE_LIMIT_STORE ("memory" | "mongo")
+ */
+export const createRateLimitStore = (): RateLimitStore => {
+  if (process.env.RATE_LIMIT_STORE === 'mongo') {
+    return new MongoRateLimitStore();
+  }
+  return new InMemoryRateLimitStore();
+};
+
+// Singleton instance
+let rateLimitStore: RateLimitStore | null = null;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStore();
+  }
+  return rateLimitStore;
+};
@@ -0,0 +1,294 @@
+import { EventEmitter } from 'events';
+import SocketBroadcast, { SocketBroadcastTarget } from '../models/socket_broadcast.models';
+import SocketPresence from '../models/socket_presence.models';
+import logger, { loggers } from '../utils/logger';
+
+export interface SocketBroadcastMessage {
+  origin: string;
+  target: SocketBroadcastTarget;
+  room?: string;
+  userId?: string;
+  event: string;
+  data?: any;
+}
+
+/**
+ * Relays emits between backend instances
+ */
+export interface SocketClusterAdapter {
+  publish(message: SocketBroadcastMessage): Promise<void>;
+  subscribe(handler: (message: SocketBroadcastMessage) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Tracks which users are connected on any instance
+ */
+export interface PresenceStore {
+  add(userId: string, socketId: string, instanceId: string): Promise<void>;
+  remove(socketId: string): Promise<void>;
+  heartbeat(instanceId: string): Promise<void>;
+  removeInstance(instanceId: string): Promise<void>;
+  isOnline(userId: string): Promise<boolean>;
+  countOnlineUsers(): Promise<number>;
+}
+
+const PRESENCE_TTL_MS = parseInt(process.env.SOCKET_PRESENCE_TTL || '90') * 1000;
+
+/**
+ * In-process adapter: instances created in the same process share one bus.
+ * Stand-in for single-node deployments and tests.
+ */
+export class InProcessClusterAdapter implements SocketClusterAdapter {
+  private static bus = new EventEmitter();
+  private handler: ((message: SocketBroadcastMessage) => void) | null = null;
+
+  public async publish(message: SocketBroadcastMessage): Promise<void> {
+    InProcessClusterAdapter.bus.emit('message', message);
+  }
+
+  public async subscribe(handler: (message: SocketBroadcastMessage) => void): Promise<void> {
+    this.handler = handler;
+    InProcessClusterAdapter.bus.on('message', handler);
+  }
+
+  public async close(): Promise<void> {
+    if (this.handler) {
+      InProcessClusterAdapter.bus.off('message', this.handler);
+      this.handler = null;
+    }
+  }
+}
+
+/**
+ * MongoDB adapter: messages are inserted into a TTL collection and
+ * delivered to every instance through a change stream (requires a replica set).
+ * A failed stream is reopened after the last delivered message, with backoff.
+ */
+export class MongoChangeStreamClusterAdapter implements SocketClusterAdapter {
+  private changeStream: ReturnType<typeof SocketBroadcast.watch> | null = null;
+  private handler: ((message: SocketBroadcastMessage) => void) | null = null;
+  private resumeToken: unknown = null;
+  private reopenTimer: NodeJS.Timeout | null = null;
+  private reopenAttempts = 0;
+
+  public async publish(message: SocketBroadcastMessage): Promise<void> {
+    await SocketBroadcast.create(message);
+  }
+
+  public async subscribe(handler: (message: SocketBroadcastMessage) => void): Promise<void> {
+    this.handler = handler;
+    this.openStream();
+  }
+
+  public async close(): Promise<void> {
+    this.handler = null;
+
+    if (this.reopenTimer) {
+      clearTimeout(this.reopenTimer);
+      this.reopenTimer = null;
+    }
+
+    if (this.changeStream) {
+      const changeStream = this.changeStream;
+      this.changeStream = null;
+      await changeStream.close();
+    }
+  }
+
+  /**
+   * Helper: Open the change stream, resuming after the last delivered message if known
+   */
+  private openStream(): void {
+    const changeStream = SocketBroadcast.watch(
+      [{ $match: { operationType: 'insert' } }],
+      this.resumeToken ? { resumeAfter: this.resumeToken } : {}
+    );
+    this.changeStream = changeStream;
+
+    changeStream.on('change', (change: any) => {
+      this.resumeToken = change._id;
+      this.reopenAttempts = 0;
+      this.handler?.(change.fullDocument as SocketBroadcastMessage);
+    });
+
+    changeStream.on('error', (error: any) => {
+      // The driver resumes on its own where it can; reaching here means the stream is closed
+      logger.error('[Socket] Socket broadcast change stream failed', {
+        domain: 'socket',
+        error: error.message,
+        code: error.code,
+      });
+
+      // ChangeStreamHistoryLost: the resume point aged out of the oplog
+      if (error.code === 286) {
+        this.resumeToken = null;
+      }
+
+      if (this.changeStream === changeStream) {
+        this.changeStream = null;
+        this.scheduleReopen();
+      }
+      changeStream.close().catch(() => undefined);
+    });
+
+    // Closed without an error (e.g. by the driver); close() detaches the stream first
+    changeStream.on('close', () => {
+      if (this.changeStream === changeStream) {
+        logger.error('[Socket] Socket broadcast change stream closed unexpectedly', { domain: 'socket' });
+        this.changeStream = null;
+        this.scheduleReopen();
+      }
+    });
+  }
+
+  /**
+   * Helper: Reopen the stream with exponential backoff (1s up to 30s)
+   */
+  private scheduleReopen(): void {
+    if (!this.handler || this.reopenTimer) {
+      return;
+    }
+
+    const delayMs = Math.min(1000 * 2 ** this.reopenAttempts, 30000);
+    this.reopenAttempts++;
+
+    this.reopenTimer = setTimeout(() => {
+      this.reopenTimer = null;
+      if (!this.handler) {
+        return;
+      }
+
+      loggers.socket('Reopening socket broadcast change stream', {
+        attempt: this.reopenAttempts,
+        resuming: this.resumeToken !== null,
+      });
+
+      try {
+        this.openStream();
+      } catch (error: any) {
+        logger.error('[Socket] Could not reopen socket broadcast change stream', {
+          domain: 'socket',
+          error: error.message,
+        });
+        this.scheduleReopen();
+      }
+    }, delayMs);
+  }
+}
+
+/**
+ * In-memory presence, shared by instances in the same process
+ */
+export class InMemoryPresenceStore implements PresenceStore {
+  private static sockets: Map<string, { userId: string; instanceId: string; lastSeenAt: number }> =
+    new Map();
+
+  public async add(userId: string, socketId: string, instanceId: string): Promise<void> {
+    InMemoryPresenceStore.sockets.set(socketId, { userId, instanceId, lastSeenAt: Date.now() });
+  }
+
+  public async remove(socketId: string): Promise<void> {
+    InMemoryPresenceStore.sockets.delete(socketId);
+  }
+
+  public async heartbeat(instanceId: string): Promise<void> {
+    const now = Date.now();
+    InMemoryPresenceStore.sockets.forEach((entry, socketId) => {
+      if (entry.instanceId === instanceId) {
+        entry.lastSeenAt = now;
+      } else if (now - entry.lastSeenAt > PRESENCE_TTL_MS) {
+        InMemoryPresenceStore.sockets.delete(socketId);
+      }
+    });
+  }
+
+  public async removeInstance(instanceId: string): Promise<void> {
+    InMemoryPresenceStore.sockets.forEach((entry, socketId) => {
+      if (entry.instanceId === instanceId) {
+        InMemoryPresenceStore.sockets.delete(socketId);
+      }
+    });
+  }
+
+  public async isOnline(userId: string): Promise<boolean> {
+    const cutoff = Date.now() - PRESENCE_TTL_MS;
+    for (const entry of InMemoryPresenceStore.sockets.values()) {
+      if (entry.userId === userId && entry.lastSeenAt >= cutoff) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  public async countOnlineUsers(): Promise<number> {
+    const cutoff = Date.now() - PRESENCE_TTL_MS;
+    const users = new Set<string>();
+    InMemoryPresenceStore.sockets.forEach((entry) => {
+      if (entry.lastSeenAt >= cutoff) {
+        users.add(entry.userId);
+      }
+    });
+    return users.size;
+  }
+}
+
+/**
+ * MongoDB presence with TTL heartbeats
+ */
+export class MongoPresenceStore implements PresenceStore {
+  public async add(userId: string, socketId: string, instanceId: string): Promise<void> {
+    await SocketPresence.updateOne(
+      { socketId },
+      { $set: { userId, instanceId, lastSeenAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  public async remove(socketId: string): Promise<void> {
+    await SocketPresence.deleteOne({ socketId });
+  }
+
+  public async heartbeat(instanceId: string): Promise<void> {
+    await SocketPresence.updateMany({ instanceId }, { $set: { lastSeenAt: new Date() } });
+  }
+
+  public async removeInstance(instanceId: string): Promise<void> {
+    await SocketPresence.deleteMany({ instanceId });
+  }
+
+  public async isOnline(userId: string): Promise<boolean> {
+    const presence = await SocketPresence.exists({
+      userId,
+      lastSeenAt: { $gte: new Date(Date.now() - PRESENCE_TTL_MS) },
+    });
+    return presence !== null;
+  }
+
+  public async countOnlineUsers(): Promise<number> {
+    const users = await SocketPresence.distinct('userId', {
+      lastSeenAt: { $gte: new Date(Date.now() - PRESENCE_TTL_MS) },
+    });
+    return users.length;
+  }
+}
+
+/**
+ * Build adapter and presence store from SOCKET_ADAPTER ("memory" | "mongo")
+ */
+export const createClusterComponents = (): {
+  adapter: SocketClusterAdapter;
+  presence: PresenceStore;
+} => {
+  if (process.env.SOCKET_ADAPTER === 'mongo') {
+    return {
+      adapter: new MongoChangeStreamClusterAdapter(),
+      presence: new MongoPresenceStore(),
+    };
+  }
+
+  return {
+    adapter: new InProcessClusterAdapter(),
+    presence: new InMemoryPresenceStore(),
+  };
+};
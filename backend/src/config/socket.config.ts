@@ -1,8 +1,25 @@
 import { Server as HTTPServer } from 'http';
+import os from 'os';
+import crypto from 'crypto';
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import User, { IUser } from '../models/user.models';
+import { SocketBroadcastTarget } from '../models/socket_broadcast.models';
+import { SessionService } from '../services/session.service';
 import { loggers } from '../utils/logger';
+import {
+  createClusterComponents,
+  PresenceStore,
+  SocketBroadcastMessage,
+  SocketClusterAdapter,
+} from './socket.adapter';
+import { SlidingWindowCounter } from './rateLimit.store';
+import { generateRequestId, runWithContext, withRequestId } from '../utils/requestContext';
+
+const SOCKET_EVENT_RATE_WINDOW_MS = parseInt(process.env.SOCKET_EVENT_RATE_WINDOW || '10000');
+const SOCKET_EVENT_RATE_MAX = parseInt(process.env.SOCKET_EVENT_RATE_MAX || '10');
+// Sockets that keep sending this far past the limit are disconnected
+const SOCKET_EVENT_DISCONNECT_FACTOR = 3;
 
 // Extend Socket type to include user
 export interface AuthenticatedSocket extends Socket {
@@ -10,11 +27,21 @@ export interface AuthenticatedSocket extends Socket {
   userId?: string;
 }
 
+export interface SocketServerOptions {
+  adapter?: SocketClusterAdapter;
+  presence?: PresenceStore;
+}
+
 export class SocketServer {
   private io: Server;
-  private connectedUsers: Map<string, string[]> = new Map(); // userId -> socketIds[]
-
-  constructor(httpServer: HTTPServer) {
+  private connectedUsers: Map<string, string[]> = new Map(); // userId -> socketIds[] on this instance
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private adapter: SocketClusterAdapter;
+  private presence: PresenceStore;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private eventCounter = new SlidingWindowCounter(); // Per-socket event throttling
+
+  constructor(httpServer: HTTPServer, options: SocketServerOptions = {}) {
     this.io = new Server(httpServer, {
       cors: {
         origin: process.env.CORS_ORIGIN || 'http://localhost:4000',
@@ -25,10 +52,73 @@ export class SocketServer {
       pingInterval: 25000,
     });
 
+    const defaults = createClusterComponents();
+    this.adapter = options.adapter || defaults.adapter;
+    this.presence = options.presence || defaults.presence;
+
     this.setupMiddleware();
     this.setupEventHandlers();
+    this.setupCluster();
+
+    loggers.socket('Socket.io server initialized', { instanceId: this.instanceId });
+  }
+
+  /**
+   * Subscribe to emits from other instances and start presence heartbeats
+   */
+  private setupCluster(): void {
+    this.adapter
+      .subscribe((message) => this.handleClusterMessage(message))
+      .catch((error) => {
+        loggers.socket('Cluster adapter subscribe failed', { error: error.message });
+      });
+
+    const heartbeatMs = parseInt(process.env.SOCKET_PRESENCE_HEARTBEAT || '30000');
+    this.heartbeatInterval = setInterval(() => {
+      this.presence.heartbeat(this.instanceId).catch((error) => {
+        loggers.socket('Presence heartbeat failed', { error: error.message });
+      });
+    }, heartbeatMs);
+  }
+
+  /**
+   * Deliver an emit published by another instance to local sockets
+   */
+  private handleClusterMessage(message: SocketBroadcastMessage): void {
+    if (message.origin === this.instanceId) {
+      return;
+    }
+
+    switch (message.target) {
+      case SocketBroadcastTarget.ROOM:
+        this.io.to(message.room!).emit(message.event, message.data);
+        break;
+      case SocketBroadcastTarget.USER:
+        this.io.to(this.userRoom(message.userId!)).emit(message.event, message.data);
+        break;
+      case SocketBroadcastTarget.ALL:
+        this.io.emit(message.event, message.data);
+        break;
+      case SocketBroadcastTarget.DISCONNECT_USER:
+        this.disconnectLocalUser(message.userId!, message.event, message.data);
+        break;
+    }
+  }
 
-    loggers.socket('Socket.io server initialized');
+  /**
+   * Publish an emit so other instances deliver it to their sockets
+   */
+  private publish(message: Omit<SocketBroadcastMessage, 'origin'>): void {
+    this.adapter.publish({ ...message, origin: this.instanceId }).catch((error) => {
+      loggers.socket('Cluster publish failed', { event: message.event, error: error.message });
+    });
+  }
+
+  /**
+   * Helper: Per-user room name
+   */
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
   }
 
   /**
@@ -47,6 +137,8 @@ export class SocketServer {
         const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default-secret') as {
           userId: string;
           role: string;
+          tokenVersion?: number;
+          sessionId?: string;
         };
 
         // Get user from database
@@ -60,6 +152,14 @@ export class SocketServer {
           return next(new Error('Authentication error: Account is deactivated'));
         }
 
+        if ((decoded.tokenVersion ?? 0) !== user.tokenVersion) {
+          return next(new Error('Authentication error: Token has been revoked'));
+        }
+
+        if (decoded.sessionId && !(await SessionService.isSessionActive(decoded.sessionId))) {
+          return next(new Error('Authentication error: Session has been revoked'));
+        }
+
         // Attach user to socket
         socket.user = user;
         socket.userId = user._id.toString();
@@ -86,13 +186,58 @@ export class SocketServer {
       this.handleConnection(socket);
 
       // Event listeners
-      socket.on('join:spinwheel', (data) => this.handleJoinSpinWheel(socket, data));
-      socket.on('leave:spinwheel', (data) => this.handleLeaveSpinWheel(socket, data));
+      socket.on('join:spinwheel', (data) => {
+        if (this.allowEvent(socket, 'join:spinwheel')) {
+          this.inEventContext(socket, () => this.handleJoinSpinWheel(socket, data));
+        }
+      });
+      socket.on('leave:spinwheel', (data) => {
+        if (this.allowEvent(socket, 'leave:spinwheel')) {
+          this.inEventContext(socket, () => this.handleLeaveSpinWheel(socket, data));
+        }
+      });
       socket.on('disconnect', () => this.handleDisconnect(socket));
       socket.on('error', (error) => this.handleError(socket, error));
     });
   }
 
+  /**
+   * Helper: Give each client event its own request ID for logs and replies
+   */
+  private inEventContext(socket: AuthenticatedSocket, handler: () => void): void {
+    runWithContext({ requestId: generateRequestId(), source: 'socket', userId: socket.userId }, handler);
+  }
+
+  /**
+   * Throttle client events per socket. Throttled events are dropped and
+   * the client is told when to retry; sockets that keep flooding are
+   * disconnected.
+   */
+  private allowEvent(socket: AuthenticatedSocket, event: string): boolean {
+    const hit = this.eventCounter.hit(`${socket.id}:${event}`, SOCKET_EVENT_RATE_WINDOW_MS);
+
+    if (hit.count <= SOCKET_EVENT_RATE_MAX) {
+      return true;
+    }
+
+    if (hit.count > SOCKET_EVENT_RATE_MAX * SOCKET_EVENT_DISCONNECT_FACTOR) {
+      loggers.socket('Socket disconnected for event flooding', {
+        userId: socket.userId,
+        socketId: socket.id,
+        event,
+        count: hit.count,
+      });
+      socket.disconnect(true);
+      return false;
+    }
+
+    socket.emit('rate:limited', {
+      event,
+      retryAfter: Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000)),
+    });
+    return false;
+  }
+
   /**
    * Handle new connection
    */
@@ -104,6 +249,11 @@ export class SocketServer {
       this.connectedUsers.set(userId, []);
     }
     this.connectedUsers.get(userId)!.push(socket.id);
+    socket.join(this.userRoom(userId));
+
+    this.presence.add(userId, socket.id, this.instanceId).catch((error) => {
+      loggers.socket('Presence update failed', { userId, error: error.message });
+    });
 
     loggers.socket('User connected', {
       userId,
@@ -121,7 +271,7 @@ export class SocketServer {
     });
 
     // Send online status to other users
-    this.io.emit('user:online', {
+    this.emitToAll('user:online', {
       userId,
       name: socket.user?.name,
     });
@@ -144,18 +294,18 @@ export class SocketServer {
     });
 
     // Notify others in the room
-    socket.to(roomName).emit('user:joined:room', {
+    socket.to(roomName).emit('user:joined:room', withRequestId({
       userId: socket.userId,
       name: socket.user?.name,
       spinWheelId,
-    });
+    }));
 
     // Confirm to the user
-    socket.emit('joined:spinwheel', {
+    socket.emit('joined:spinwheel', withRequestId({
       message: 'Joined spin wheel room',
       spinWheelId,
       roomName,
-    });
+    }));
   }
 
   /**
@@ -173,19 +323,21 @@ export class SocketServer {
     });
 
     // Notify others
-    socket.to(roomName).emit('user:left:room', {
+    socket.to(roomName).emit('user:left:room', withRequestId({
       userId: socket.userId,
       name: socket.user?.name,
       spinWheelId,
-    });
+    }));
   }
 
   /**
    * Handle disconnection
    */
-  private handleDisconnect(socket: AuthenticatedSocket): void {
+  private async handleDisconnect(socket: AuthenticatedSocket): Promise<void> {
     const userId = socket.userId!;
 
+    this.eventCounter.resetPrefix(`${socket.id}:`);
+
     // Remove socket from tracking
     if (this.connectedUsers.has(userId)) {
       const sockets = this.connectedUsers.get(userId)!;
@@ -194,14 +346,23 @@ export class SocketServer {
         sockets.splice(index, 1);
       }
 
-      // If user has no more sockets, remove entry and emit offline
       if (sockets.length === 0) {
         this.connectedUsers.delete(userId);
-        this.io.emit('user:offline', {
+      }
+    }
+
+    // Emit offline only when the user has no sockets left on any instance
+    try {
+      await this.presence.remove(socket.id);
+
+      if (!(await this.presence.isOnline(userId))) {
+        this.emitToAll('user:offline', {
           userId,
           name: socket.user?.name,
         });
       }
+    } catch (error: any) {
+      loggers.socket('Presence update failed', { userId, error: error.message });
     }
 
     loggers.socket('User disconnected', {
@@ -227,7 +388,9 @@ export class SocketServer {
    */
   public emitToSpinWheel(spinWheelId: string, event: string, data: any): void {
     const roomName = `spinwheel:${spinWheelId}`;
-    this.io.to(roomName).emit(event, data);
+    const payload = withRequestId(data);
+    this.io.to(roomName).emit(event, payload);
+    this.publish({ target: SocketBroadcastTarget.ROOM, room: roomName, event, data: payload });
 
     loggers.socket(`Emitted ${event} to spin wheel`, {
       spinWheelId,
@@ -239,42 +402,101 @@ export class SocketServer {
    * Emit event to specific user (all their sockets)
    */
   public emitToUser(userId: string, event: string, data: any): void {
-    const sockets = this.connectedUsers.get(userId);
-    if (sockets) {
-      sockets.forEach((socketId) => {
-        this.io.to(socketId).emit(event, data);
-      });
+    const payload = withRequestId(data);
+    this.io.to(this.userRoom(userId)).emit(event, payload);
+    this.publish({ target: SocketBroadcastTarget.USER, userId, event, data: payload });
 
-      loggers.socket(`Emitted ${event} to user`, {
-        userId,
-        socketCount: sockets.length,
-      });
-    }
+    loggers.socket(`Emitted ${event} to user`, {
+      userId,
+      localSocketCount: this.connectedUsers.get(userId)?.length || 0,
+    });
   }
 
   /**
    * Emit event to all connected clients
    */
   public emitToAll(event: string, data: any): void {
-    this.io.emit(event, data);
+    const payload = withRequestId(data);
+    this.io.emit(event, payload);
+    this.publish({ target: SocketBroadcastTarget.ALL, event, data: payload });
 
     loggers.socket(`Emitted ${event} to all clients`, {
-      totalConnections: this.connectedUsers.size,
+      localConnections: this.connectedUsers.size,
     });
   }
 
   /**
-   * Get connected users count
+   * Forcibly disconnect all of a user's sockets on every instance.
+   * Clients receive `session:revoked` with the reason first.
    */
-  public getConnectedUsersCount(): number {
-    return this.connectedUsers.size;
+  public disconnectUser(userId: string, reason: string): void {
+    const data = withRequestId({ reason });
+    this.disconnectLocalUser(userId, 'session:revoked', data);
+    this.publish({ target: SocketBroadcastTarget.DISCONNECT_USER, userId, event: 'session:revoked', data });
   }
 
   /**
-   * Check if user is online
+   * Helper: Notify and disconnect a user's sockets on this instance
    */
-  public isUserOnline(userId: string): boolean {
-    return this.connectedUsers.has(userId);
+  private disconnectLocalUser(userId: string, event: string, data: any): void {
+    const room = this.userRoom(userId);
+    this.io.to(room).emit(event, data);
+    this.io.in(room).disconnectSockets(true);
+
+    loggers.socket('User sockets disconnected', {
+      userId,
+      reason: data?.reason,
+      localSocketCount: this.connectedUsers.get(userId)?.length || 0,
+    });
+  }
+
+  /**
+   * Get connected users count across all instances
+   */
+  public async getConnectedUsersCount(): Promise<number> {
+    return this.presence.countOnlineUsers();
+  }
+
+  /**
+   * Check if user is online on any instance
+   */
+  public async isUserOnline(userId: string): Promise<boolean> {
+    return this.presence.isOnline(userId);
+  }
+
+  /**
+   * Get this instance's ID
+   */
+  public getInstanceId(): string {
+    return this.instanceId;
+  }
+
+  /**
+   * Tell this instance's clients it is going away so they reconnect elsewhere
+   */
+  public notifyShutdown(reason: string = 'Server is restarting'): void {
+    this.io.emit('server:shutdown', withRequestId({ reason, reconnect: true }));
+
+    loggers.socket('Shutdown notice sent', {
+      instanceId: this.instanceId,
+      localConnections: this.connectedUsers.size,
+    });
+  }
+
+  /**
+   * Stop heartbeats, detach from the cluster and drop this instance's presence
+   */
+  public async close(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    await this.adapter.close();
+    await this.presence.removeInstance(this.instanceId);
+    await new Promise<void>((resolve) => this.io.close(() => resolve()));
+
+    loggers.socket('Socket.io server closed', { instanceId: this.instanceId });
   }
 
   /**
@@ -285,7 +507,7 @@ export class SocketServer {
   }
 
   /**
-   * Get users in a specific room
+   * Get users in a specific room (sockets connected to this instance)
    */
   public async getUsersInRoom(roomName: string): Promise<string[]> {
     const sockets = await this.io.in(roomName).fetchSockets();
@@ -296,13 +518,18 @@ export class SocketServer {
 // Singleton instance
 let socketServer: SocketServer | null = null;
 
-export const initializeSocketServer = (httpServer: HTTPServer): SocketServer => {
+export const initializeSocketServer = (
+  httpServer: HTTPServer,
+  options?: SocketServerOptions
+): SocketServer => {
   if (!socketServer) {
-    socketServer = new SocketServer(httpServer);
+    socketServer = new SocketServer(httpServer, options);
   }
   return socketServer;
 };
 
+export const isSocketServerInitialized = (): boolean => socketServer !== null;
+
 export const getSocketServer = (): SocketServer => {
   if (!socketServer) {
     throw new Error('Socket server not initialized. Call initializeSocketServer first.');
@@ -310,4 +537,4 @@ export const getSocketServer = (): SocketServer => {
   return socketServer;
 };
 
-export default { initializeSocketServer, getSocketServer };
\ No newline at end of file
+export default { initializeSocketServer, getSocketServer, isSocketServerInitialized };
\ No newline at end of file
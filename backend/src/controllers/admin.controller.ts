@@ -2,8 +2,18 @@ import { Request, Response, NextFunction } from 'express';
 import User from '../models/user.models';
 import SpinWheel from '../models/spin_wheels.models';
 import Transaction from '../models/transaction.models';
-import { ValidationError } from '../utils/apiResponse';
+import { AuthenticationError, ValidationError } from '../utils/apiResponse';
 import logger from '../utils/logger';
+import { getReconciliationJob } from '../services/reconciliation.service';
+import { getConfigService } from '../services/config.service';
+import { RoleService } from '../services/role.service';
+import { AuditService } from '../services/audit.service';
+import { AuditAction } from '../models/audit_log.models';
+import { getSocketServer } from '../config/socket.config';
+import { getLogLevels, LOG_DOMAINS, LOG_LEVELS } from '../utils/logger';
+import { AdjustmentResult, AdjustmentService } from '../services/adjustment.service';
+import { WalletService } from '../services/wallet.service';
+import { CoinAdjustmentStatus, ICoinAdjustment } from '../models/coin_adjustment.models';
 
 /**
  * Get dashboard statistics (Admin only)
@@ -277,6 +287,31 @@ export const getSystemAnalytics = async (
   }
 };
 
+/**
+ * Reconcile user balances against the coin ledger (Admin only)
+ */
+export const getLedgerReconciliation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const report = await getReconciliationJob().run();
+
+    res.status(200).json({
+      success: true,
+      message: report.discrepancies.length > 0
+        ? 'Ledger discrepancies found'
+        : 'Ledger reconciled successfully',
+      data: {
+        report,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Update system configuration (Admin only)
  */
@@ -286,21 +321,14 @@ export const updateSystemConfig = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { key, value } = req.body;
+    const { key, value, type, description } = req.body;
 
     if (!key || value === undefined) {
       throw new ValidationError('Key and value are required');
     }
 
-    // Import Config model
-    const Config = (await import('../models/config.models')).default;
-
-    // Update or create config
-    const config = await Config.findOneAndUpdate(
-      { key: key.toUpperCase() },
-      { value, updatedAt: new Date() },
-      { new: true, upsert: true }
-    );
+    // Validated against the declared type; listeners are notified of the change
+    const config = await getConfigService().set(key, value, type, description);
 
     logger.info(`System config updated: ${key} = ${value}`);
 
@@ -312,6 +340,7 @@ export const updateSystemConfig = async (
           key: config.key,
           value: config.value,
           type: config.type,
+          description: config.description,
           updatedAt: config.updatedAt,
         },
       },
@@ -351,4 +380,431 @@ export const getSystemConfig = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Invite an email address to register with a role (Admin only)
+ */
+export const inviteUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const admin = req.user;
+
+    if (!admin) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    const { email, role } = req.body;
+
+    const invitation = await RoleService.inviteUser(admin, email, role, req.ip);
+
+    res.status(201).json({
+      success: true,
+      message: 'Invitation sent successfully',
+      data: {
+        invitation: {
+          id: invitation._id,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List pending invitations (Admin only)
+ */
+export const getInvitations = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const invitations = await RoleService.listPendingInvitations();
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitations retrieved successfully',
+      data: {
+        invitations: invitations.map(i => ({
+          id: i._id,
+          email: i.email,
+          role: i.role,
+          invitedBy: i.invitedBy,
+          expiresAt: i.expiresAt,
+          createdAt: i.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke a pending invitation (Admin only)
+ */
+export const revokeInvitation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const admin = req.user;
+
+    if (!admin) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    await RoleService.revokeInvitation(admin, req.params.invitationId, req.ip);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation revoked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Promote or demote a user (Admin only)
+ */
+export const changeUserRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const admin = req.user;
+
+    if (!admin) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    const { userId } = req.params;
+    const { role, reason } = req.body;
+
+    const { user, previousRole } = await RoleService.changeRole(admin, userId, role, reason, req.ip);
+
+    // The token version was bumped; drop live sockets so they reconnect with the new role
+    getSocketServer().disconnectUser(userId, 'Role changed');
+
+    res.status(200).json({
+      success: true,
+      message: 'User role updated successfully',
+      data: {
+        user: {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          previousRole,
+          role: user.role,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the role audit trail (Admin only)
+ */
+export const getAuditLogs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const action = req.query.action as AuditAction | undefined;
+
+    if (action && !Object.values(AuditAction).includes(action)) {
+      throw new ValidationError(`Invalid audit action: ${action}`);
+    }
+
+    const { logs, total } = await AuditService.list(
+      {
+        action,
+        actorId: req.query.actorId as string,
+        targetUserId: req.query.targetUserId as string,
+      },
+      page,
+      limit
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Audit logs retrieved successfully',
+      data: {
+        logs: logs.map(l => ({
+          id: l._id,
+          action: l.action,
+          actorId: l.actorId,
+          actorName: l.actorName,
+          targetUserId: l.targetUserId,
+          targetEmail: l.targetEmail,
+          previousRole: l.previousRole,
+          newRole: l.newRole,
+          reason: l.reason,
+          metadata: l.metadata,
+          ipAddress: l.ipAddress,
+          createdAt: l.createdAt,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get current log levels (Admin only)
+ */
+export const getLogLevelSettings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Log levels retrieved successfully',
+      data: {
+        levels: getLogLevels(),
+        availableLevels: LOG_LEVELS,
+        domains: LOG_DOMAINS,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change the log level of a domain (Admin only)
+ */
+export const updateLogLevel = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { level, domain } = req.body;
+
+    // Stored as one config entry; every instance applies it on its next config refresh
+    const stored = await getConfigService().get<Record<string, string>>('LOG_LEVELS');
+    await getConfigService().set('LOG_LEVELS', { ...stored, [domain]: level });
+
+    logger.warn(`Log level of ${domain} set to ${level}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Log level updated successfully',
+      data: {
+        levels: getLogLevels(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const formatAdjustment = (adjustment: ICoinAdjustment) => ({
+  id: adjustment._id,
+  type: adjustment.type,
+  status: adjustment.status,
+  userId: adjustment.userId,
+  amount: adjustment.amount,
+  reason: adjustment.reason,
+  requestedBy: adjustment.requestedBy,
+  requestedByName: adjustment.requestedByName,
+  reviewedBy: adjustment.reviewedBy,
+  reviewedByName: adjustment.reviewedByName,
+  reviewedAt: adjustment.reviewedAt,
+  rejectionReason: adjustment.rejectionReason,
+  originalTransactionId: adjustment.originalTransactionId,
+  transactionId: adjustment.transactionId,
+  appliedAt: adjustment.appliedAt,
+  createdAt: adjustment.createdAt,
+});
+
+/**
+ * Helper: 200 with the new balance once applied, 202 while awaiting approval
+ */
+const sendAdjustmentResult = (res: Response, result: AdjustmentResult): void => {
+  const applied = result.adjustment.status === CoinAdjustmentStatus.APPLIED;
+
+  if (applied && result.user) {
+    getSocketServer().emitToUser(result.user._id.toString(), 'wallet:balance_updated', {
+      reason: result.adjustment.type,
+      amount: result.adjustment.amount,
+      balance: WalletService.getBalance(result.user),
+    });
+  }
+
+  res.status(applied ? 200 : 202).json({
+    success: true,
+    message: applied ? 'Coin adjustment applied' : 'Coin adjustment is waiting for a second admin to approve',
+    data: {
+      adjustment: formatAdjustment(result.adjustment),
+      newBalance: result.user?.coins,
+    },
+  });
+};
+
+/**
+ * Credit or debit a user's coins (Admin only)
+ */
+export const createAdjustment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const admin = req.user;
+
+    if (!admin) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    const { userId, type, amount, reason } = req.body;
+
+    const result = await AdjustmentService.adjust(admin, userId, type, amount, reason, req.ip);
+
+    sendAdjustmentResult(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reverse a past transaction (Admin only)
+ */
+export const reverseTransaction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const admin = req.user;
+
+    if (!admin) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    const result = await AdjustmentService.reverse(admin, req.params.transactionId, req.body.reason, req.ip);
+
+    sendAdjustmentResult(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List coin adjustments (Admin only)
+ */
+export const getAdjustments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const status = req.query.status as CoinAdjustmentStatus | undefined;
+
+    if (status && !Object.values(CoinAdjustmentStatus).includes(status)) {
+      throw new ValidationError(`Invalid adjustment status: ${status}`);
+    }
+
+    const { adjustments, total } = await AdjustmentService.list(
+      { status, userId: req.query.userId as string },
+      page,
+      limit
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Coin adjustments retrieved successfully',
+      data: {
+        adjustments: adjustments.map(formatAdjustment),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approve a pending coin adjustment (Admin only, not the requester)
+ */
+export const approveAdjustment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const admin = req.user;
+
+    if (!admin) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    const result = await AdjustmentService.approve(admin, req.params.adjustmentId, req.ip);
+
+    sendAdjustmentResult(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reject a pending coin adjustment (Admin only)
+ */
+export const rejectAdjustment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const admin = req.user;
+
+    if (!admin) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    const adjustment = await AdjustmentService.reject(admin, req.params.adjustmentId, req.body.reason, req.ip);
+
+    res.status(200).json({
+      success: true,
+      message: 'Coin adjustment rejected',
+      data: {
+        adjustment: formatAdjustment(adjustment),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
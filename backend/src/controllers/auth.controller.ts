@@ -1,26 +1,50 @@
 import { Request, Response, NextFunction } from 'express';
-import { Types } from 'mongoose';
-import User from '../models/user.models';
+import mongoose, { Types } from 'mongoose';
+import User, { IUser } from '../models/user.models';
 import {
+    AccountLockedError,
     AuthenticationError,
     ConflictError,
     NotFoundError,
+    ValidationError,
 } from '../utils/apiResponse';
-import {
-    generateAccessToken,
-    generateRefreshToken,
-    verifyRefreshToken,
-} from '../utils/jwt';
+import { generateAccessToken } from '../utils/jwt';
 import logger from '../utils/logger';
+import { runTransaction } from '../utils/db';
+import { LedgerService } from '../services/ledger.service';
+import { SessionService, SessionContext } from '../services/session.service';
+import { AccountTokenService } from '../services/accountToken.service';
+import { getMailService } from '../services/mail.service';
+import { AccountTokenPurpose } from '../models/account_token.models';
+import { getSocketServer } from '../config/socket.config';
+import { RoleService } from '../services/role.service';
+import { LoginThrottleService } from '../services/loginThrottle.service';
+import { RewardService } from '../services/reward.service';
 import { create } from 'domain';
 
+const REFRESH_COOKIE_OPTIONS = {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'strict' as const,
+};
+
+/**
+ * Helper: Device, IP and user agent of the client making the request
+ */
+const getSessionContext = (req: Request): SessionContext => ({
+    device: req.get('x-device-name'),
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+});
+
 export const register = async (
     req: Request,
     res: Response,
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { name, email, password, role } = req.body;
+        // Role is never read from the body; only an admin invitation grants one
+        const { name, email, password, invitationToken } = req.body;
 
         // Check if user already exists
         const existingUser = await User.findOne({ email });
@@ -28,18 +52,57 @@ export const register = async (
             throw new ConflictError('Email already registered');
         }
 
-        // Create new user
-        const newUser = new User({ name, email, password, role });
-        await newUser.save();
+        // Create new user and open their ledger account with the starting balance
+        const session = await mongoose.startSession();
+        let newUser: IUser;
+        try {
+            newUser = await runTransaction(session, 'auth.register', async () => {
+                // Built per attempt so a retried transaction inserts again
+                const newUser = new User({ name, email, password, isEmailVerified: false });
+
+                if (invitationToken) {
+                    const invitation = await RoleService.claimInvitation(invitationToken, email, session);
+                    newUser.role = invitation.role;
+                    // The invitation was delivered to this address
+                    newUser.isEmailVerified = true;
+                    newUser.emailVerifiedAt = new Date();
+                    await newUser.save({ session });
+                    await RoleService.completeInvitation(invitation, newUser, session);
+                } else {
+                    await newUser.save({ session });
+                }
+                await LedgerService.ensureUserAccount(newUser._id, newUser.coins, session);
+
+                return newUser;
+            });
+        } finally {
+            session.endSession();
+        }
 
-        // Generate tokens
-        const accessToken = generateAccessToken(newUser._id, newUser.role);
-        const refreshToken = generateRefreshToken(newUser._id);
+        // Open a session and generate tokens
+        const { session: authSession, refreshToken } = await SessionService.createSession(
+            newUser._id,
+            getSessionContext(req)
+        );
+        const accessToken = generateAccessToken(newUser._id, newUser.role, newUser.tokenVersion, authSession._id);
 
         logger.info(`New user registered: ${newUser.email}`);
 
+        // Send the verification link; a mail failure should not undo the registration
+        if (!newUser.isEmailVerified) {
+            try {
+                const verificationToken = await AccountTokenService.issue(
+                    newUser._id,
+                    AccountTokenPurpose.EMAIL_VERIFICATION
+                );
+                await getMailService().sendVerificationEmail(newUser, verificationToken);
+            } catch (mailError) {
+                logger.error(`Failed to send verification email to ${newUser.email}:`, mailError);
+            }
+        }
+
         // Set refresh token in cookies
-        res.cookie('refreshToken', refreshToken, { httpOnly: true, secure: true });
+        res.cookie('refreshToken', refreshToken, REFRESH_COOKIE_OPTIONS);
 
         // Respond with tokens
         res.status(201).json({
@@ -52,6 +115,7 @@ export const register = async (
           email: newUser.email,
           role: newUser.role,
           coins: newUser.coins,
+          isEmailVerified: newUser.isEmailVerified,
         },
         accessToken,
         refreshToken,
@@ -83,24 +147,41 @@ export const login = async (
             throw new AuthenticationError('User account is deactivated');
         }
 
+        // Locked accounts are rejected before the password is checked
+        LoginThrottleService.assertNotLocked(user);
+
         // Check password
         const isPasswordValid = await user.comparePassword(password);
         if (!isPasswordValid) {
+            const lockedUntil = await LoginThrottleService.recordFailure(user);
+            if (lockedUntil) {
+                throw new AccountLockedError(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+            }
             throw new AuthenticationError('Invalid credentials');
         }
 
-        // Update last login
+        // Update last login and forget earlier failures
         user.lastLogin = new Date();
+        LoginThrottleService.clearFailures(user);
         await user.save();
 
-        // Generate tokens
-        const accessToken = generateAccessToken(user._id, user.role);
-        const refreshToken = generateRefreshToken(user._id);
+        // Open a session and generate tokens
+        const { session, refreshToken } = await SessionService.createSession(
+            user._id,
+            getSessionContext(req)
+        );
+        const accessToken = generateAccessToken(user._id, user.role, user.tokenVersion, session._id);
 
         logger.info(`User logged in: ${user.email}`);
 
+        // Tell the client whether today's daily reward is waiting; never block login on it
+        const dailyReward = await RewardService.getStatus(user._id).catch((error) => {
+            logger.warn('Could not load daily reward status:', error);
+            return undefined;
+        });
+
         // Set refresh token in cookies
-        res.cookie('refreshToken', refreshToken, { httpOnly: true, secure: true });
+        res.cookie('refreshToken', refreshToken, REFRESH_COOKIE_OPTIONS);
 
         // Respond with tokens
         res.status(200).json({
@@ -113,9 +194,11 @@ export const login = async (
                     email: user.email,
                     role: user.role,
                     coins: user.coins,
+                    isEmailVerified: user.isEmailVerified !== false,
                 },
                 accessToken,
                 refreshToken,
+                dailyReward,
             },
         });
     } catch (error) {
@@ -136,12 +219,13 @@ export const logout = async (
       throw new AuthenticationError('User not authenticated');
     }
 
+    // Revoke the session behind the access token
+    if (req.sessionId) {
+      await SessionService.revokeSession(user._id.toString(), req.sessionId, 'Logged out');
+    }
+
     // Clear the cookie
-    res.clearCookie('refreshToken', {
-      httpOnly: true,
-      secure: true, 
-      sameSite: 'strict',
-    });
+    res.clearCookie('refreshToken', REFRESH_COOKIE_OPTIONS);
 
     logger.info(`User logged out: ${user.email}`);
 
@@ -160,46 +244,250 @@ export const refreshToken = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { refreshToken } = req.cookies;
+        const refreshToken = req.cookies?.refreshToken || req.body?.refreshToken;
 
         if (!refreshToken) {
             throw new AuthenticationError('No refresh token provided');
         }
 
-        // Verify refresh token
-        const userId = verifyRefreshToken(refreshToken);
-        if (!userId) {
-            throw new AuthenticationError('Invalid refresh token');
+        // Rotate the refresh token; a replayed token revokes the session
+        const { user, session, refreshToken: newRefreshToken } = await SessionService.rotate(
+            refreshToken,
+            getSessionContext(req)
+        );
+        const newAccessToken = generateAccessToken(user._id, user.role, user.tokenVersion, session._id);
+
+        // Set new refresh token in cookies
+        res.cookie('refreshToken', newRefreshToken, REFRESH_COOKIE_OPTIONS);
+
+        // Respond with tokens
+        res.status(200).json({
+            success: true,
+            message: 'Token refreshed successfully',
+            data: {
+                accessToken: newAccessToken,
+                refreshToken: newRefreshToken,
+            },
+        });
+    } catch (error) {
+        logger.error('Error refreshing token:', error);
+        next(error);
+    }
+};
+
+
+export const getSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = req.user;
+
+        if (!user) {
+            throw new AuthenticationError('User not authenticated');
         }
 
-        // Find user by ID
+        const sessions = await SessionService.listSessions(user._id.toString());
+
+        res.status(200).json({
+            success: true,
+            message: 'Sessions retrieved successfully',
+            data: {
+                sessions: sessions.map((s) => ({
+                    id: s._id,
+                    device: s.device,
+                    ipAddress: s.ipAddress,
+                    userAgent: s.userAgent,
+                    lastUsedAt: s.lastUsedAt,
+                    expiresAt: s.expiresAt,
+                    createdAt: s.createdAt,
+                    current: s._id.toString() === req.sessionId,
+                })),
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+
+export const revokeSession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = req.user;
+
+        if (!user) {
+            throw new AuthenticationError('User not authenticated');
+        }
+
+        const { sessionId } = req.params;
+        await SessionService.revokeSession(user._id.toString(), sessionId);
+
+        logger.info(`Session ${sessionId} revoked by user ${user._id}`);
+
+        // Revoking the current session also logs this client out
+        if (sessionId === req.sessionId) {
+            res.clearCookie('refreshToken', REFRESH_COOKIE_OPTIONS);
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Session revoked successfully',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+
+export const verifyEmail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            throw new ValidationError('Verification token is required');
+        }
+
+        const userId = await AccountTokenService.consume(token, AccountTokenPurpose.EMAIL_VERIFICATION);
+
         const user = await User.findById(userId);
         if (!user) {
             throw new NotFoundError('User not found');
         }
 
-        if(!user.isActive) {
-            throw new AuthenticationError('User account is deactivated');
+        if (user.isEmailVerified !== true) {
+            user.isEmailVerified = true;
+            user.emailVerifiedAt = new Date();
+            await user.save();
         }
 
-        // Generate new access tokens
-        const newAccessToken = generateAccessToken(user._id, user.role);
-        const newRefreshToken = generateRefreshToken(user._id);
+        logger.info(`Email verified: ${user.email}`);
 
-        // Set new refresh token in cookies
-        res.cookie('refreshToken', newRefreshToken, { httpOnly: true, secure: true });
+        res.status(200).json({
+            success: true,
+            message: 'Email verified successfully',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+
+export const resendVerificationEmail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = req.user;
+
+        if (!user) {
+            throw new AuthenticationError('User not authenticated');
+        }
+
+        if (user.isEmailVerified !== false) {
+            throw new ConflictError('Email is already verified');
+        }
+
+        const token = await AccountTokenService.issue(user._id, AccountTokenPurpose.EMAIL_VERIFICATION);
+        await getMailService().sendVerificationEmail(user, token);
 
-        // Respond with tokens
         res.status(200).json({
             success: true,
-            message: 'Token refreshed successfully',
-            data: {
-                accessToken: newAccessToken,
-                refreshToken: newRefreshToken,
-            },
+            message: 'Verification email sent',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+
+export const forgotPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { email } = req.body;
+
+        if (!email) {
+            throw new ValidationError('Email is required');
+        }
+
+        // Same response whether or not the account exists
+        const user = await User.findOne({ email: String(email).toLowerCase() });
+
+        if (user && user.isActive) {
+            // A mail failure must not change the response, or it reveals the account exists
+            try {
+                const token = await AccountTokenService.issue(user._id, AccountTokenPurpose.PASSWORD_RESET);
+                await getMailService().sendPasswordResetEmail(user, token);
+                logger.info(`Password reset requested: ${user.email}`);
+            } catch (mailError) {
+                logger.error(`Failed to send password reset email to ${user.email}:`, mailError);
+            }
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'If an account exists for that email, a reset link has been sent',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+
+export const resetPassword = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { token, password } = req.body;
+
+        if (!token || !password) {
+            throw new ValidationError('Token and password are required');
+        }
+
+        const userId = await AccountTokenService.consume(token, AccountTokenPurpose.PASSWORD_RESET);
+
+        const user = await User.findById(userId);
+        if (!user || !user.isActive) {
+            throw new NotFoundError('User not found');
+        }
+
+        // The reset link also proves control of the mailbox
+        if (user.isEmailVerified === false) {
+            user.isEmailVerified = true;
+            user.emailVerifiedAt = new Date();
+        }
+
+        // Changing the password bumps the token version; end every session too
+        user.password = password;
+        LoginThrottleService.clearFailures(user);
+        await user.save();
+
+        await SessionService.revokeAllSessions(userId, 'Password reset');
+        getSocketServer().disconnectUser(userId, 'Password reset');
+
+        res.clearCookie('refreshToken', REFRESH_COOKIE_OPTIONS);
+
+        logger.info(`Password reset completed: ${user.email}`);
+
+        res.status(200).json({
+            success: true,
+            message: 'Password reset successfully, please log in again',
         });
     } catch (error) {
-        logger.error('Error refreshing token:', error);
         next(error);
     }
 };
@@ -259,31 +547,55 @@ export const updateProfile = async (
       throw new ConflictError('Email is required to update profile');
     }
 
+    const normalizedEmail = String(email).trim().toLowerCase();
+
     // Check if email already exists for another user
     const existingUser = await User.findOne({
       _id: { $ne: user._id },
-      email,
+      email: normalizedEmail,
     });
 
     if (existingUser) {
       throw new ConflictError('Email already registered');
     }
 
-    // Update email
-    user.email = email;
+    const emailChanged = normalizedEmail !== user.email;
+
+    // A new address must be verified again before it unlocks coin features
+    user.email = normalizedEmail;
+    if (emailChanged) {
+      user.isEmailVerified = false;
+      user.emailVerifiedAt = undefined;
+    }
     await user.save();
 
     logger.info(`User email updated: ${user.email}`);
 
+    // Send the verification link; a mail failure should not undo the change
+    if (emailChanged) {
+      try {
+        const verificationToken = await AccountTokenService.issue(
+          user._id,
+          AccountTokenPurpose.EMAIL_VERIFICATION
+        );
+        await getMailService().sendVerificationEmail(user, verificationToken);
+      } catch (mailError) {
+        logger.error(`Failed to send verification email to ${user.email}:`, mailError);
+      }
+    }
+
     res.status(200).json({
       success: true,
-      message: 'Email updated successfully',
+      message: emailChanged
+        ? 'Email updated successfully. Please verify your new address'
+        : 'Email updated successfully',
       data: {
         user: {
           id: user._id,
           email: user.email,
           role: user.role,
           coins: user.coins,
+          isEmailVerified: user.isEmailVerified !== false,
         },
       },
     });
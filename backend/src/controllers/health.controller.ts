@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { HealthService } from '../services/health.service';
+import { HTTPSTATUS } from '../config/http.config';
+
+/**
+ * Liveness probe
+ */
+export const getHealth = (req: Request, res: Response): void => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(HTTPSTATUS.OK).json({
+    success: true,
+    message: 'Server is alive',
+    data: HealthService.getLiveness(),
+  });
+};
+
+/**
+ * Readiness probe; 503 while any dependency is down or the instance is draining
+ */
+export const getReadiness = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { ready, checks } = await HealthService.getReadiness();
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(ready ? HTTPSTATUS.OK : HTTPSTATUS.SERVICE_UNAVAILABLE).json({
+      success: ready,
+      message: ready ? 'Server is ready' : 'Server is not ready',
+      data: { checks },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
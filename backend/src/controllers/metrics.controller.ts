@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { MetricsService } from '../services/metrics.service';
+import { METRICS_CONTENT_TYPE } from '../utils/metrics';
+
+/**
+ * Expose metrics in the Prometheus text format
+ */
+export const getMetrics = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const body = await MetricsService.render();
+
+    res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).send(body);
+  } catch (error) {
+    next(error);
+  }
+};
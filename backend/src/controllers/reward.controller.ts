@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { RewardService } from '../services/reward.service';
+import { WalletService } from '../services/wallet.service';
+import { ValidationError } from '../utils/apiResponse';
+import logger from '../utils/logger';
+
+/**
+ * Claim today's daily reward
+ */
+export const claimDailyReward = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const { claim, alreadyClaimed, transaction, user: updatedUser } = await RewardService.claimDaily(user);
+
+    if (!alreadyClaimed) {
+      logger.info(`User ${user._id} claimed a daily reward of ${claim.amount} coins (streak ${claim.streak})`);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: alreadyClaimed ? 'Daily reward already claimed today' : 'Daily reward claimed',
+      data: {
+        alreadyClaimed,
+        reward: {
+          day: claim.day,
+          timeZone: claim.timeZone,
+          streak: claim.streak,
+          amount: claim.amount,
+          transactionId: transaction?._id ?? claim.transactionId,
+          claimedAt: claim.createdAt,
+        },
+        userBalance: WalletService.getBalance(updatedUser ?? user).available,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the user's daily reward status
+ */
+export const getDailyRewardStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const status = await RewardService.getStatus(user._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Daily reward status retrieved successfully',
+      data: { status },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
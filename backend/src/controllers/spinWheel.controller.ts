@@ -1,9 +1,63 @@
 import { Request, Response, NextFunction } from 'express';
-import { SpinWheelService } from '../services/spinWheel.service';
+import mongoose from 'mongoose';
+import { SpinWheelService, ActiveSpinWheelFilters } from '../services/spinWheel.service';
+import { ISpinWheel, SpinWheelStatus } from '../models/spin_wheels.models';
 import { ValidationError } from '../utils/apiResponse';
 import logger from '../utils/logger';
 import { getSocketServer } from '../config/socket.config';
 import { getScheduler } from '../services/scheduler.service';
+import { WheelTemplateService } from '../services/wheelTemplate.service';
+import { WalletService } from '../services/wallet.service';
+
+/**
+ * Helper: Schedule auto-start, announce a new spin wheel and send the response
+ */
+const announceSpinWheel = (spinWheel: ISpinWheel, res: Response): void => {
+  // Schedule auto-start
+  if (spinWheel.autoStartAt) {
+    const scheduler = getScheduler();
+    scheduler.scheduleAutoStart(spinWheel._id.toString(), spinWheel.autoStartAt);
+    logger.info(`Auto-start scheduled for spin wheel ${spinWheel._id} at ${spinWheel.autoStartAt}`);
+  }
+
+  // Emit to all clients that a new spin wheel is available
+  const socketServer = getSocketServer();
+  socketServer.emitToAll('spinwheel:created', {
+    spinWheelId: spinWheel._id,
+    adminName: spinWheel.adminName,
+    entryFee: spinWheel.entryFee,
+    maxParticipants: spinWheel.maxParticipants,
+    serverSeedHash: spinWheel.serverSeedHash,
+    autoStartAt: spinWheel.autoStartAt,
+  });
+
+  res.status(201).json({
+    success: true,
+    message: 'Spin wheel created successfully',
+    data: {
+      spinWheel: {
+        id: spinWheel._id,
+        adminId: spinWheel.adminId,
+        adminName: spinWheel.adminName,
+        templateId: spinWheel.templateId,
+        entryFee: spinWheel.entryFee,
+        status: spinWheel.status,
+        maxParticipants: spinWheel.maxParticipants,
+        minParticipants: spinWheel.minParticipants,
+        winnerPoolPercentage: spinWheel.winnerPoolPercentage,
+        adminPoolPercentage: spinWheel.adminPoolPercentage,
+        appPoolPercentage: spinWheel.appPoolPercentage,
+        autoStartTime: spinWheel.autoStartTime,
+        eliminationInterval: spinWheel.eliminationInterval,
+        winnerCount: spinWheel.winnerCount,
+        prizeTable: spinWheel.prizeTable,
+        serverSeedHash: spinWheel.serverSeedHash,
+        autoStartAt: spinWheel.autoStartAt,
+        createdAt: spinWheel.createdAt,
+      },
+    },
+  });
+};
 
 /**
  * Create a new spin wheel (Admin only)
@@ -14,7 +68,18 @@ export const createSpinWheel = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { entryFee, maxParticipants } = req.body;
+    const {
+      entryFee,
+      maxParticipants,
+      minParticipants,
+      winnerPoolPercentage,
+      adminPoolPercentage,
+      appPoolPercentage,
+      autoStartTime,
+      eliminationInterval,
+      winnerCount,
+      prizeTable,
+    } = req.body;
     const user = req.user;
 
     if (!user) {
@@ -25,104 +90,122 @@ export const createSpinWheel = async (
       user._id.toString(),
       user.name,
       entryFee,
-      maxParticipants
+      maxParticipants,
+      {
+        minParticipants,
+        winnerPoolPercentage,
+        adminPoolPercentage,
+        appPoolPercentage,
+        autoStartTime,
+        eliminationInterval,
+        winnerCount,
+        prizeTable,
+      }
     );
 
     logger.info(`Spin wheel created by admin ${user._id}`);
 
-    // Schedule auto-start
-    if(spinWheel.autoStartAt) {
-      const scheduler = getScheduler();
-      scheduler.scheduleAutoStart(spinWheel._id.toString(), spinWheel.autoStartAt);
-      logger.info(`Auto-start scheduled for spin wheel ${spinWheel._id} at ${spinWheel.autoStartAt}`);
+    announceSpinWheel(spinWheel, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Launch a spin wheel from a template (Admin only)
+ */
+export const launchSpinWheelFromTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { templateId } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      throw new ValidationError('User not authenticated');
     }
 
-    // Emit to all clients that a new spin wheel is available
-    const socketServer = getSocketServer();
-    socketServer.emitToAll('spinwheel:created', {
-      spinWheelId: spinWheel._id,
-      adminName: spinWheel.adminName,
-      entryFee: spinWheel.entryFee,
-      maxParticipants: spinWheel.maxParticipants,
-      autoStartAt: spinWheel.autoStartAt,
-    });
+    const spinWheel = await WheelTemplateService.launchFromTemplate(
+      templateId,
+      user._id.toString(),
+      user.name
+    );
 
-    res.status(201).json({
-      success: true,
-      message: 'Spin wheel created successfully',
-      data: {
-        spinWheel: {
-          id: spinWheel._id,
-          adminId: spinWheel.adminId,
-          adminName: spinWheel.adminName,
-          entryFee: spinWheel.entryFee,
-          status: spinWheel.status,
-          maxParticipants: spinWheel.maxParticipants,
-          minParticipants: spinWheel.minParticipants,
-          winnerPoolPercentage: spinWheel.winnerPoolPercentage,
-          adminPoolPercentage: spinWheel.adminPoolPercentage,
-          appPoolPercentage: spinWheel.appPoolPercentage,
-          autoStartAt: spinWheel.autoStartAt,
-          createdAt: spinWheel.createdAt,
-        },
-      },
-    });
+    logger.info(`Spin wheel launched from template ${templateId} by admin ${user._id}`);
+
+    announceSpinWheel(spinWheel, res);
   } catch (error) {
     next(error);
   }
 };
 
 /**
- * Get active spin wheel
+ * Get active spin wheels (lobby list)
  */
-export const getActiveSpinWheel = async (
+export const getActiveSpinWheels = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const spinWheel = await SpinWheelService.getActiveSpinWheel();
-
-    if (!spinWheel) {
-      res.status(200).json({
-        success: true,
-        message: 'No active spin wheel found',
-        data: {
-          spinWheel: null,
-        },
-      });
-      return;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 100);
+    const status = req.query.status as string;
+    const adminId = req.query.adminId as string;
+    const minEntryFee = req.query.minEntryFee ? Number(req.query.minEntryFee) : undefined;
+    const maxEntryFee = req.query.maxEntryFee ? Number(req.query.maxEntryFee) : undefined;
+
+    const filters: ActiveSpinWheelFilters = {};
+
+    if (status) {
+      if (status !== SpinWheelStatus.WAITING && status !== SpinWheelStatus.IN_PROGRESS) {
+        throw new ValidationError('Status must be waiting or in_progress');
+      }
+      filters.status = status;
+    }
+
+    if (adminId) {
+      if (!mongoose.isValidObjectId(adminId)) {
+        throw new ValidationError('Invalid admin ID format');
+      }
+      filters.adminId = adminId;
+    }
+
+    if (
+      (minEntryFee !== undefined && Number.isNaN(minEntryFee)) ||
+      (maxEntryFee !== undefined && Number.isNaN(maxEntryFee))
+    ) {
+      throw new ValidationError('Entry fee filters must be numbers');
     }
+    filters.minEntryFee = minEntryFee;
+    filters.maxEntryFee = maxEntryFee;
+    filters.joinable = req.query.joinable === 'true';
+
+    const result = await SpinWheelService.getActiveSpinWheels(page, limit, filters);
 
     res.status(200).json({
       success: true,
-      message: 'Active spin wheel retrieved successfully',
+      message: 'Active spin wheels retrieved successfully',
       data: {
-        spinWheel: {
-          id: spinWheel._id,
-          adminId: spinWheel.adminId,
-          adminName: spinWheel.adminName,
-          entryFee: spinWheel.entryFee,
-          status: spinWheel.status,
-          participants: spinWheel.participants.map(p => ({
-            userId: p.userId,
-            name: p.name,
-            joinedAt: p.joinedAt,
-            isEliminated: p.isEliminated,
-            eliminatedAt: p.eliminatedAt,
-            eliminationOrder: p.eliminationOrder,
-          })),
-          maxParticipants: spinWheel.maxParticipants,
-          minParticipants: spinWheel.minParticipants,
-          totalParticipants: spinWheel.participants.length,
-          winnerPool: spinWheel.winnerPool,
-          adminPool: spinWheel.adminPool,
-          appPool: spinWheel.appPool,
-          totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool,
-          autoStartAt: spinWheel.autoStartAt,
-          startedAt: spinWheel.startedAt,
-          createdAt: spinWheel.createdAt,
-        },
+        spinWheels: result.spinWheels.map(sw => ({
+          id: sw._id,
+          adminId: sw.adminId,
+          adminName: sw.adminName,
+          entryFee: sw.entryFee,
+          status: sw.status,
+          totalParticipants: sw.participants.length,
+          maxParticipants: sw.maxParticipants,
+          minParticipants: sw.minParticipants,
+          winnerPool: sw.winnerPool,
+          totalPool: sw.winnerPool + sw.adminPool + sw.appPool,
+          serverSeedHash: sw.serverSeedHash,
+          autoStartAt: sw.autoStartAt,
+          startedAt: sw.startedAt,
+          createdAt: sw.createdAt,
+        })),
+        pagination: result.pagination,
       },
     });
   } catch (error) {
@@ -161,6 +244,7 @@ export const getSpinWheelById = async (
             isEliminated: p.isEliminated,
             eliminatedAt: p.eliminatedAt,
             eliminationOrder: p.eliminationOrder,
+            position: p.position,
           })),
           maxParticipants: spinWheel.maxParticipants,
           minParticipants: spinWheel.minParticipants,
@@ -168,10 +252,16 @@ export const getSpinWheelById = async (
           adminPool: spinWheel.adminPool,
           appPool: spinWheel.appPool,
           totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool,
+          winnerCount: spinWheel.winnerCount,
+          prizeTable: spinWheel.prizeTable,
           winnerId: spinWheel.winnerId,
           winnerName: spinWheel.winnerName,
+          winners: spinWheel.winners,
           eliminationSequence: spinWheel.eliminationSequence,
           currentEliminationIndex: spinWheel.currentEliminationIndex,
+          serverSeedHash: spinWheel.serverSeedHash,
+          clientSeedHash: spinWheel.clientSeedHash,
+          serverSeedRevealedAt: spinWheel.serverSeedRevealedAt,
           autoStartAt: spinWheel.autoStartAt,
           startedAt: spinWheel.startedAt,
           completedAt: spinWheel.completedAt,
@@ -194,7 +284,7 @@ export const joinSpinWheel = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { spinWheelId } = req.body;
+    const { spinWheelId, clientSeed } = req.body;
     const user = req.user;
 
     if (!user) {
@@ -204,7 +294,8 @@ export const joinSpinWheel = async (
     const spinWheel = await SpinWheelService.joinSpinWheel(
       spinWheelId,
       user._id.toString(),
-      user.name
+      user.name,
+      clientSeed
     );
 
     logger.info(`User ${user._id} joined spin wheel ${spinWheelId}`);
@@ -223,7 +314,65 @@ export const joinSpinWheel = async (
           appPool: spinWheel.appPool,
           totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool,
         },
-        userBalance: user.coins - spinWheel.entryFee,
+        heldAmount: spinWheel.entryFee,
+        userBalance: WalletService.getBalance(user).available - spinWheel.entryFee,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Leave a waiting spin wheel and get the entry fee back
+ */
+export const leaveSpinWheel = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { spinWheelId } = req.params;
+    const user = req.user;
+
+    if (!user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const { spinWheel, refundAmount, userBalance } = await SpinWheelService.leaveSpinWheel(
+      spinWheelId,
+      user._id.toString()
+    );
+
+    logger.info(`User ${user._id} left spin wheel ${spinWheelId}`);
+
+    // Let the room know the participant count changed
+    const socketServer = getSocketServer();
+    socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:participant_left', {
+      spinWheelId,
+      userId: user._id.toString(),
+      name: user.name,
+      totalParticipants: spinWheel.participants.length,
+      maxParticipants: spinWheel.maxParticipants,
+      totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully left spin wheel',
+      data: {
+        spinWheel: {
+          id: spinWheel._id,
+          status: spinWheel.status,
+          totalParticipants: spinWheel.participants.length,
+          maxParticipants: spinWheel.maxParticipants,
+          winnerPool: spinWheel.winnerPool,
+          adminPool: spinWheel.adminPool,
+          appPool: spinWheel.appPool,
+          totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool,
+        },
+        refundAmount,
+        userBalance,
       },
     });
   } catch (error) {
@@ -251,6 +400,11 @@ export const startSpinWheel = async (
 
     logger.info(`Spin wheel ${spinWheelId} started by admin ${user._id}`);
 
+    // Hand the wheel over to the scheduler
+    const scheduler = getScheduler();
+    scheduler.clearAutoStartTimer(spinWheelId);
+    scheduler.startEliminationProcess(spinWheelId);
+
     res.status(200).json({
       success: true,
       message: 'Spin wheel started successfully',
@@ -260,6 +414,8 @@ export const startSpinWheel = async (
           status: spinWheel.status,
           totalParticipants: spinWheel.participants.length,
           eliminationSequence: spinWheel.eliminationSequence,
+          serverSeedHash: spinWheel.serverSeedHash,
+          clientSeedHash: spinWheel.clientSeedHash,
           startedAt: spinWheel.startedAt,
         },
       },
@@ -289,6 +445,8 @@ export const abortSpinWheel = async (
 
     logger.info(`Spin wheel ${spinWheelId} aborted by admin ${user._id}`);
 
+    getScheduler().clearAutoStartTimer(spinWheelId);
+
     res.status(200).json({
       success: true,
       message: 'Spin wheel aborted and participants refunded',
@@ -331,6 +489,33 @@ export const getSpinWheelStats = async (
   }
 };
 
+/**
+ * Verify provably-fair elimination sequence of a completed spin wheel
+ */
+export const verifySpinWheel = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { spinWheelId } = req.params;
+
+    const verification = await SpinWheelService.verifySpinWheel(spinWheelId);
+
+    res.status(200).json({
+      success: true,
+      message: verification.verified
+        ? 'Elimination sequence verified'
+        : 'Elimination sequence verification failed',
+      data: {
+        verification,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get spin wheel history with pagination
  */
@@ -365,6 +550,7 @@ export const getSpinWheelHistory = async (
           totalPool: sw.winnerPool + sw.adminPool + sw.appPool,
           winnerId: sw.winnerId,
           winnerName: sw.winnerName,
+          winners: sw.winners,
           createdAt: sw.createdAt,
           startedAt: sw.startedAt,
           completedAt: sw.completedAt,
@@ -409,6 +595,9 @@ export const getUserSpinWheels = async (
           const userParticipant = sw.participants.find(
             p => p.userId.toString() === user._id.toString()
           );
+          const userWin = sw.winners.find(w => w.userId.toString() === user._id.toString());
+          // Wheels completed before multi-winner payouts only record winnerId
+          const isLegacyWinner = sw.winners.length === 0 && sw.winnerId?.toString() === user._id.toString();
 
           return {
             id: sw._id,
@@ -417,11 +606,12 @@ export const getUserSpinWheels = async (
             status: sw.status,
             totalParticipants: sw.participants.length,
             totalPool: sw.winnerPool + sw.adminPool + sw.appPool,
-            isWinner: sw.winnerId?.toString() === user._id.toString(),
+            isWinner: Boolean(userWin) || isLegacyWinner,
             winnerName: sw.winnerName,
             userEliminated: userParticipant?.isEliminated,
             userEliminationOrder: userParticipant?.eliminationOrder,
-            prizeWon: sw.winnerId?.toString() === user._id.toString() ? sw.winnerPool : 0,
+            userPosition: userParticipant?.position,
+            prizeWon: userWin ? userWin.prize : isLegacyWinner ? sw.winnerPool : 0,
             createdAt: sw.createdAt,
             completedAt: sw.completedAt,
           };
@@ -450,7 +640,8 @@ export const canUserJoin = async (
       throw new ValidationError('User not authenticated');
     }
 
-    const canJoin = await SpinWheelService.canUserJoin(
+    const emailVerified = user.isEmailVerified !== false;
+    const canJoin = emailVerified && await SpinWheelService.canUserJoin(
       spinWheelId,
       user._id.toString()
     );
@@ -460,7 +651,8 @@ export const canUserJoin = async (
       message: 'User join eligibility checked',
       data: {
         canJoin,
-        userBalance: user.coins,
+        emailVerified,
+        userBalance: WalletService.getBalance(user).available,
       },
     });
   } catch (error) {
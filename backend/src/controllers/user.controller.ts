@@ -2,6 +2,11 @@ import { Request, Response, NextFunction } from 'express';
 import User from '../models/user.models';
 import { ValidationError, NotFoundError } from '../utils/apiResponse';
 import logger from '../utils/logger';
+import { SessionService } from '../services/session.service';
+import { WalletService } from '../services/wallet.service';
+import { AdjustmentService } from '../services/adjustment.service';
+import { CoinAdjustmentType } from '../models/coin_adjustment.models';
+import { getSocketServer } from '../config/socket.config';
 
 /**
  * Get user balance
@@ -18,6 +23,8 @@ export const getUserBalance = async (
       throw new ValidationError('User not authenticated');
     }
 
+    const balance = WalletService.getBalance(user);
+
     res.status(200).json({
       success: true,
       message: 'User balance retrieved successfully',
@@ -26,6 +33,8 @@ export const getUserBalance = async (
         name: user.name,
         coins: user.coins,
         coinBalance: user.coins,
+        available: balance.available,
+        held: balance.held,
       },
     });
   } catch (error) {
@@ -151,9 +160,16 @@ export const updateUserStatus = async (
       throw new NotFoundError('User');
     }
 
+    const wasActive = user.isActive;
     user.isActive = isActive;
     await user.save();
 
+    // Deactivation bumps the token version; also end sessions and live sockets
+    if (wasActive && !isActive) {
+      await SessionService.revokeAllSessions(userId, 'Account deactivated');
+      getSocketServer().disconnectUser(userId, 'Account deactivated');
+    }
+
     logger.info(`User ${userId} status updated to ${isActive}`);
 
     res.status(200).json({
@@ -173,7 +189,8 @@ export const updateUserStatus = async (
 };
 
 /**
- * Add coins to user (Admin only - for testing/management)
+ * Add coins to user (Admin only - for testing/management).
+ * Goes through coin adjustments, so large credits need a second admin.
  */
 export const addCoinsToUser = async (
   req: Request,
@@ -181,24 +198,39 @@ export const addCoinsToUser = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { userId } = req.params;
-    const { amount, reason } = req.body;
+    const admin = req.user;
 
-    if (!amount || amount <= 0) {
-      throw new ValidationError('Amount must be greater than 0');
+    if (!admin) {
+      throw new ValidationError('User not authenticated');
     }
 
-    const user = await User.findById(userId);
+    const { userId } = req.params;
+    const { amount, reason } = req.body;
 
-    if (!user) {
-      throw new NotFoundError('User');
+    const { adjustment, transaction, user } = await AdjustmentService.adjust(
+      admin,
+      userId,
+      CoinAdjustmentType.CREDIT,
+      amount,
+      reason,
+      req.ip
+    );
+
+    if (!transaction || !user) {
+      res.status(202).json({
+        success: true,
+        message: 'Coin credit is waiting for a second admin to approve',
+        data: {
+          adjustmentId: adjustment._id,
+          status: adjustment.status,
+          userId: adjustment.userId,
+          amount,
+        },
+      });
+      return;
     }
 
-    const oldBalance = user.coins;
-    user.coins += amount;
-    await user.save();
-
-    logger.info(`Admin added ${amount} coins to user ${userId}. Reason: ${reason || 'N/A'}`);
+    logger.info(`Admin added ${amount} coins to user ${userId}. Reason: ${reason}`);
 
     res.status(200).json({
       success: true,
@@ -206,9 +238,10 @@ export const addCoinsToUser = async (
       data: {
         userId: user._id,
         name: user.name,
-        oldBalance,
-        newBalance: user.coins,
+        oldBalance: transaction.balanceBefore,
+        newBalance: transaction.balanceAfter,
         amountAdded: amount,
+        adjustmentId: adjustment._id,
       },
     });
   } catch (error) {
@@ -241,7 +274,7 @@ export const getUserStats = async (
     });
 
     const totalWins = await SpinWheel.countDocuments({
-      winnerId: user._id,
+      $or: [{ 'winners.userId': user._id }, { winnerId: user._id }],
       status: 'completed',
     });
 
@@ -0,0 +1,89 @@
+import { Request, Response, NextFunction } from 'express';
+import { TransferService } from '../services/transfer.service';
+import { WalletService } from '../services/wallet.service';
+import { ValidationError } from '../utils/apiResponse';
+import logger from '../utils/logger';
+import { getSocketServer } from '../config/socket.config';
+
+/**
+ * Send coins to another user
+ */
+export const transferCoins = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const { recipient, amount, note } = req.body;
+
+    const transfer = await TransferService.transfer(user, recipient, amount, note || undefined, req.ip);
+
+    logger.info(`User ${user._id} sent ${amount} coins to ${transfer.recipient._id}`);
+
+    const socketServer = getSocketServer();
+    socketServer.emitToUser(transfer.recipient._id.toString(), 'wallet:transfer_received', {
+      transferId: transfer.transferId,
+      from: {
+        id: transfer.sender._id,
+        name: transfer.sender.name,
+      },
+      amount: transfer.amount,
+      note: transfer.note,
+      balance: WalletService.getBalance(transfer.recipient),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Coins sent successfully',
+      data: {
+        transfer: {
+          id: transfer.transferId,
+          transactionId: transfer.senderTransaction._id,
+          recipient: {
+            id: transfer.recipient._id,
+            name: transfer.recipient.name,
+          },
+          amount: transfer.amount,
+          note: transfer.note,
+          createdAt: transfer.senderTransaction.createdAt,
+        },
+        userBalance: WalletService.getBalance(transfer.sender).available,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the user's transfer limits and what is left of them today
+ */
+export const getTransferLimits = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const limits = await TransferService.getLimits(user._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Transfer limits retrieved successfully',
+      data: { limits },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
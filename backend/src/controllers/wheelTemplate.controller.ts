@@ -0,0 +1,156 @@
+import { Request, Response, NextFunction } from 'express';
+import { WheelTemplateService } from '../services/wheelTemplate.service';
+import { IWheelTemplate } from '../models/wheel_template.models';
+import { ValidationError } from '../utils/apiResponse';
+import logger from '../utils/logger';
+
+const formatTemplate = (template: IWheelTemplate) => ({
+  id: template._id,
+  name: template.name,
+  description: template.description,
+  entryFee: template.entryFee,
+  maxParticipants: template.maxParticipants,
+  minParticipants: template.minParticipants,
+  winnerPoolPercentage: template.winnerPoolPercentage,
+  adminPoolPercentage: template.adminPoolPercentage,
+  appPoolPercentage: template.appPoolPercentage,
+  autoStartTime: template.autoStartTime,
+  eliminationInterval: template.eliminationInterval,
+  winnerCount: template.winnerCount,
+  prizeTable: template.prizeTable,
+  isActive: template.isActive,
+  createdBy: template.createdBy,
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
+
+/**
+ * Create a wheel template (Admin only)
+ */
+export const createWheelTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = req.user;
+
+    if (!user) {
+      throw new ValidationError('User not authenticated');
+    }
+
+    const template = await WheelTemplateService.createTemplate(user._id.toString(), req.body);
+
+    logger.info(`Wheel template ${template.name} created by admin ${user._id}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Wheel template created successfully',
+      data: {
+        template: formatTemplate(template),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List wheel templates (Admin only)
+ */
+export const listWheelTemplates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+    const templates = await WheelTemplateService.listTemplates(includeInactive);
+
+    res.status(200).json({
+      success: true,
+      message: 'Wheel templates retrieved successfully',
+      data: {
+        templates: templates.map(formatTemplate),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a wheel template by ID (Admin only)
+ */
+export const getWheelTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { templateId } = req.params;
+    const template = await WheelTemplateService.getTemplate(templateId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Wheel template retrieved successfully',
+      data: {
+        template: formatTemplate(template),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a wheel template (Admin only)
+ */
+export const updateWheelTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { templateId } = req.params;
+    const template = await WheelTemplateService.updateTemplate(templateId, req.body);
+
+    logger.info(`Wheel template ${templateId} updated`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Wheel template updated successfully',
+      data: {
+        template: formatTemplate(template),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deactivate a wheel template (Admin only)
+ */
+export const deactivateWheelTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { templateId } = req.params;
+    const template = await WheelTemplateService.deactivateTemplate(templateId);
+
+    logger.info(`Wheel template ${templateId} deactivated`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Wheel template deactivated successfully',
+      data: {
+        template: formatTemplate(template),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
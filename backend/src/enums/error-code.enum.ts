@@ -8,16 +8,23 @@ export const ErrorCodeEnum = {
   AUTH_INVALID_TOKEN: 'AUTH_INVALID_TOKEN',
   AUTH_UNAUTHORIZED_ACCESS: 'AUTH_UNAUTHORIZED_ACCESS',
   AUTH_TOKEN_NOT_FOUND: 'AUTH_TOKEN_NOT_FOUND',
+  AUTH_ACCOUNT_LOCKED: 'AUTH_ACCOUNT_LOCKED',
 
   // ===== VALIDATION & REQUEST ERRORS =====
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   INVALID_INPUT: 'INVALID_INPUT',
   MISSING_REQUIRED_FIELDS: 'MISSING_REQUIRED_FIELDS',
+  PAYLOAD_TOO_LARGE: 'PAYLOAD_TOO_LARGE',
+  IDEMPOTENCY_KEY_REUSED: 'IDEMPOTENCY_KEY_REUSED',
+  IDEMPOTENCY_KEY_IN_PROGRESS: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+  RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
 
   // ===== RESOURCE & BUSINESS LOGIC ERRORS =====
   RESOURCE_NOT_FOUND: 'RESOURCE_NOT_FOUND',
+  ROUTE_NOT_FOUND: 'ROUTE_NOT_FOUND',
   SPIN_WHEEL_ERROR: 'SPIN_WHEEL_ERROR',
   INSUFFICIENT_COINS: 'INSUFFICIENT_COINS',
+  TRANSFER_LIMIT_EXCEEDED: 'TRANSFER_LIMIT_EXCEEDED',
   WHEEL_NOT_FOUND: 'WHEEL_NOT_FOUND',
   WHEEL_ALREADY_ACTIVE: 'WHEEL_ALREADY_ACTIVE',
   WHEEL_NOT_JOINABLE: 'WHEEL_NOT_JOINABLE',
@@ -34,6 +41,7 @@ export const ErrorCodeEnum = {
   INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
   DATABASE_ERROR: 'DATABASE_ERROR',
   SOCKET_CONNECTION_ERROR: 'SOCKET_CONNECTION_ERROR',
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
 
   CONFLICT_ERROR: 'CONFLICT_ERROR',
   CONCURRENCY_ERROR: 'CONCURRENCY_ERROR',
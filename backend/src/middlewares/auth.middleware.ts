@@ -1,8 +1,11 @@
 import type { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import User, { IUser } from '../models/user.models'
 import { AuthenticationError, AuthorizationError } from '../utils/apiResponse';
 import logger from '../utils/logger';
+import { SessionService } from '../services/session.service';
+import { setContextUser } from '../utils/requestContext';
 
 
 
@@ -11,6 +14,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: IUser
+      sessionId?: string
     }
   }
 }
@@ -18,6 +22,8 @@ declare global {
 interface JWTPayload {
   userId: string;
   role: string;
+  tokenVersion?: number;
+  sessionId?: string;
 }
 
 
@@ -53,8 +59,20 @@ export const authenticate = async (
       throw new AuthenticationError('Account is deactivated');
     }
 
+    // Deactivation, role and password changes bump the version
+    if ((decoded.tokenVersion ?? 0) !== user.tokenVersion) {
+      throw new AuthenticationError('Token has been revoked');
+    }
+
+    // Tokens bound to a session stop working once it is revoked
+    if (decoded.sessionId && !(await SessionService.isSessionActive(decoded.sessionId))) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
     // Attach user to request
     req.user = user;
+    req.sessionId = decoded.sessionId;
+    setContextUser(user._id.toString());
     next();
   } catch (error: any) {
     if (error.name === 'JsonWebTokenError') {
@@ -91,5 +109,28 @@ export const authorize = (...roles: string[]) => {
 };
 
 
+/**
+ * Protect scrape endpoints with the shared METRICS_TOKEN (Authorization: Bearer <token>).
+ * Without a configured token the endpoint stays closed.
+ */
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction): void => {
+  const expected = process.env.METRICS_TOKEN;
+  const authHeader = req.headers.authorization;
+
+  if (!expected) {
+    return next(new AuthenticationError('Metrics are disabled: METRICS_TOKEN is not set'));
+  }
 
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return next(new AuthenticationError('No metrics token provided'));
+  }
 
+  // Compare digests so the check takes the same time for any token length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  if (!crypto.timingSafeEqual(digest(authHeader.slice(7)), digest(expected))) {
+    logger.warn('Invalid metrics token');
+    return next(new AuthenticationError('Invalid metrics token'));
+  }
+
+  next();
+};
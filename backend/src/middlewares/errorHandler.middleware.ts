@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import { ZodError } from 'zod';
+import { HTTPSTATUS } from '../config/http.config';
+import { ErrorCodeEnum } from '../enums/error-code.enum';
+import {
+  AppError,
+  ConcurrencyError,
+  FieldError,
+  InternalServerException,
+  ValidationError,
+} from '../utils/apiResponse';
+import logger from '../utils/logger';
+
+/**
+ * Helper: Map library errors onto AppError so every response shares one shape
+ */
+const toAppError = (err: any): AppError => {
+  if (err instanceof AppError) {
+    return err;
+  }
+
+  if (err instanceof mongoose.Error.ValidationError) {
+    const details: FieldError[] = Object.values(err.errors).map((fieldError) => ({
+      field: fieldError.path,
+      message: fieldError.message,
+    }));
+    return new ValidationError(details.map((detail) => detail.message).join(', '), details);
+  }
+
+  if (err instanceof mongoose.Error.CastError) {
+    return new AppError(
+      `Invalid value for ${err.path}`,
+      HTTPSTATUS.BAD_REQUEST,
+      ErrorCodeEnum.INVALID_INPUT,
+      [{ field: err.path, message: `Expected ${err.kind}` }]
+    );
+  }
+
+  if (err instanceof mongoose.Error.VersionError) {
+    return new ConcurrencyError('The document was modified by another request, please retry');
+  }
+
+  // Unique index violation; report the fields, never the values
+  if (err?.code === 11000) {
+    const fields = Object.keys(err.keyPattern || err.keyValue || {});
+    return new AppError(
+      fields.length ? `Duplicate value for ${fields.join(', ')}` : 'Duplicate value',
+      HTTPSTATUS.CONFLICT,
+      ErrorCodeEnum.CONFLICT_ERROR,
+      fields.map((field) => ({ field, message: `${field} already exists` }))
+    );
+  }
+
+  if (err?.name === 'TokenExpiredError') {
+    return new AppError('Token expired', HTTPSTATUS.UNAUTHORIZED, ErrorCodeEnum.AUTH_INVALID_TOKEN);
+  }
+
+  if (err?.name === 'JsonWebTokenError' || err?.name === 'NotBeforeError') {
+    return new AppError('Invalid token', HTTPSTATUS.UNAUTHORIZED, ErrorCodeEnum.AUTH_INVALID_TOKEN);
+  }
+
+  if (Joi.isError(err)) {
+    return new ValidationError(
+      err.details.map((detail) => detail.message).join(', '),
+      err.details.map((detail) => ({ field: detail.path.join('.'), message: detail.message }))
+    );
+  }
+
+  if (err instanceof ZodError) {
+    return new ValidationError(
+      err.issues.map((issue) => issue.message).join(', '),
+      err.issues.map((issue) => ({ field: issue.path.join('.'), message: issue.message }))
+    );
+  }
+
+  // Raised by express.json()
+  if (err?.type === 'entity.parse.failed') {
+    return new AppError('Malformed JSON in request body', HTTPSTATUS.BAD_REQUEST, ErrorCodeEnum.INVALID_INPUT);
+  }
+
+  if (err?.type === 'entity.too.large') {
+    return new AppError('Request body is too large', HTTPSTATUS.PAYLOAD_TOO_LARGE, ErrorCodeEnum.PAYLOAD_TOO_LARGE);
+  }
+
+  return new InternalServerException();
+};
+
+/**
+ * Catch-all for requests no router handled
+ */
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction): void => {
+  next(
+    new AppError(
+      `Route ${req.method} ${req.originalUrl.split('?')[0]} not found`,
+      HTTPSTATUS.NOT_FOUND,
+      ErrorCodeEnum.ROUTE_NOT_FOUND
+    )
+  );
+};
+
+/**
+ * Global error handler. Every error leaves the API as
+ * { success: false, error: { code, message, details, requestId } }.
+ * Must be registered after all routes.
+ */
+export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction): void => {
+  // Headers already went out (e.g. a streamed response); let Express close the connection
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  const appError = toAppError(err);
+  const requestId = req.requestId;
+
+  if (appError.statusCode >= HTTPSTATUS.INTERNAL_SERVER_ERROR) {
+    logger.error(`${req.method} ${req.originalUrl} failed:`, err);
+  } else {
+    logger.warn(`${req.method} ${req.originalUrl} -> ${appError.statusCode} ${appError.message}`);
+  }
+
+  const retryAfter = (appError as { retryAfter?: number }).retryAfter;
+  if (retryAfter !== undefined) {
+    res.setHeader('Retry-After', retryAfter);
+  }
+
+  res.status(appError.statusCode).json({
+    success: false,
+    error: {
+      code: appError.errorCode || ErrorCodeEnum.INTERNAL_SERVER_ERROR,
+      message: appError.message,
+      details: appError.details ?? null,
+      requestId,
+    },
+  });
+};
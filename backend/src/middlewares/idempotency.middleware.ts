@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import IdempotencyKey, { IdempotencyKeyStatus } from '../models/idempotency_key.models';
+import {
+  AuthenticationError,
+  IdempotencyKeyInProgressError,
+  IdempotencyKeyReusedError,
+  ValidationError,
+} from '../utils/apiResponse';
+import { ErrorCodeEnum } from '../enums/error-code.enum';
+import logger from '../utils/logger';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+// Transient failures the client should retry rather than have replayed
+const RETRYABLE_ERROR_CODES: string[] = [ErrorCodeEnum.CONCURRENCY_ERROR];
+
+/**
+ * Helper: JSON with sorted keys so equal payloads hash the same
+ */
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequest = (req: Request): string =>
+  crypto
+    .createHash('sha256')
+    .update(`${req.method}:${req.baseUrl}${req.path}:${stableStringify(req.body ?? {})}`)
+    .digest('hex');
+
+/**
+ * Honour the Idempotency-Key header on money-moving routes.
+ * The first request's response is recorded and replayed on retries;
+ * reusing a key with a different payload is rejected. A key whose request
+ * never settled (crashed instance) can be taken over once its lock expires.
+ * Must run after `authenticate` (keys are scoped per user).
+ */
+export const idempotent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.header(IDEMPOTENCY_HEADER);
+
+  if (!key) {
+    return next();
+  }
+
+  try {
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new ValidationError(`Idempotency key cannot exceed ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const userId = req.user._id;
+    const requestHash = hashRequest(req);
+    const ttlMs = parseInt(process.env.IDEMPOTENCY_KEY_TTL || '86400000');
+    const lockMs = parseInt(process.env.IDEMPOTENCY_LOCK_MS || '60000');
+
+    let record;
+    try {
+      record = await IdempotencyKey.create({
+        key,
+        userId,
+        method: req.method,
+        path: `${req.baseUrl}${req.path}`,
+        requestHash,
+        lockedUntil: new Date(Date.now() + lockMs),
+        expiresAt: new Date(Date.now() + ttlMs),
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) {
+        throw error;
+      }
+
+      // Key already seen for this user
+      const existing = await IdempotencyKey.findOne({ userId, key });
+
+      if (!existing) {
+        throw new IdempotencyKeyInProgressError();
+      }
+
+      if (existing.requestHash !== requestHash) {
+        throw new IdempotencyKeyReusedError();
+      }
+
+      if (existing.status === IdempotencyKeyStatus.COMPLETED) {
+        logger.info(`Replaying idempotent response for key ${key} (user ${userId})`);
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.responseStatus!).json(existing.responseBody);
+        return;
+      }
+
+      // Still processing: take the key over only if its lock expired
+      const now = new Date();
+      record = await IdempotencyKey.findOneAndUpdate(
+        {
+          _id: existing._id,
+          status: IdempotencyKeyStatus.PROCESSING,
+          $or: [
+            { lockedUntil: { $lt: now } },
+            // Keys recorded before locks existed
+            { lockedUntil: { $exists: false }, updatedAt: { $lt: new Date(now.getTime() - lockMs) } },
+          ],
+        },
+        { $set: { lockedUntil: new Date(now.getTime() + lockMs) } },
+        { new: true }
+      );
+
+      if (!record) {
+        throw new IdempotencyKeyInProgressError();
+      }
+
+      logger.warn(`Taking over abandoned idempotency key ${key} (user ${userId})`);
+    }
+
+    const recordId = record._id;
+
+    // Keep the lock fresh while the handler runs, so only a request whose
+    // instance died (and stopped the heartbeat) can be taken over
+    const heartbeat = setInterval(() => {
+      IdempotencyKey.updateOne(
+        { _id: recordId, status: IdempotencyKeyStatus.PROCESSING },
+        { $set: { lockedUntil: new Date(Date.now() + lockMs) } }
+      ).catch((error: any) => {
+        logger.error(`Failed to extend idempotency key ${key}: ${error.message}`);
+      });
+    }, Math.max(1000, Math.floor(lockMs / 3)));
+    heartbeat.unref();
+
+    let responseBody: any;
+    let closed = false;
+    let settled = false;
+
+    // Record the outcome once; the key stays locked while the handler still runs
+    const settle = () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearInterval(heartbeat);
+
+      const replayable =
+        responseBody !== undefined &&
+        res.statusCode < 500 &&
+        !RETRYABLE_ERROR_CODES.includes(responseBody?.error?.code);
+
+      const update = replayable
+        ? IdempotencyKey.updateOne(
+            { _id: recordId },
+            {
+              $set: {
+                status: IdempotencyKeyStatus.COMPLETED,
+                responseStatus: res.statusCode,
+                responseBody,
+              },
+              $unset: { lockedUntil: '' },
+            }
+          )
+        : // Nothing to replay: free the key so the client can retry
+          IdempotencyKey.deleteOne({ _id: recordId });
+
+      update.catch((error: any) => {
+        logger.error(`Failed to record idempotency key ${key}: ${error.message}`);
+      });
+    };
+
+    // Capture the response body so it can be replayed
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      const result = originalJson(body);
+      // The client already went away, so 'finish' will not fire
+      if (closed) {
+        settle();
+      }
+      return result;
+    };
+
+    res.on('finish', settle);
+    res.on('close', () => {
+      closed = true;
+      // Without a body the handler may still be moving money; leave the key locked
+      if (responseBody !== undefined) {
+        settle();
+      }
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { MetricsService } from '../services/metrics.service';
+
+/**
+ * Helper: Route pattern for the request, e.g. /api/spin-wheels/:spinWheelId.
+ * Express clears req.baseUrl once an error leaves a router, so the mount
+ * prefix is rebuilt from the URL minus the segments the route matched.
+ */
+const routeLabel = (req: Request): string => {
+  if (!req.route) {
+    // Unknown URLs would give every typo its own series
+    return 'unmatched';
+  }
+
+  const routePath: string = req.route.path;
+  const pathSegments = req.originalUrl.split('?')[0].replace(/\/+$/, '').split('/');
+  const routeSegmentCount = routePath.split('/').filter(Boolean).length;
+  const prefix = pathSegments.slice(0, pathSegments.length - routeSegmentCount).join('/');
+
+  return `${prefix}${routePath === '/' ? '' : routePath}` || '/';
+};
+
+/**
+ * Record the latency of every HTTP request once the response is sent
+ */
+export const httpMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const durationSeconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    MetricsService.observeHttpRequest(req.method, routeLabel(req), res.statusCode, durationSeconds);
+  });
+
+  next();
+};
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore } from '../config/rateLimit.store';
+import { RateLimitError } from '../utils/apiResponse';
+import logger from '../utils/logger';
+
+export interface RateLimitOptions {
+  name: string;             // Prefix of the counter key
+  windowMs: number;
+  max: number;              // Requests allowed per sliding window
+  keyBy?: 'ip' | 'user';    // "user" falls back to the IP for anonymous requests
+  perRoute?: boolean;       // Count each route separately
+  message?: string;
+}
+
+/**
+ * Helper: Counter key made of limiter name, route and client identity
+ */
+const buildKey = (req: Request, options: RateLimitOptions): string => {
+  const identity =
+    options.keyBy === 'user' && req.user ? `user:${req.user._id}` : `ip:${req.ip}`;
+  const route = options.perRoute ? `${req.method}:${req.baseUrl}${req.route?.path ?? req.path}` : '*';
+
+  return `${options.name}:${route}:${identity}`;
+};
+
+/**
+ * Sliding-window rate limiter. Sets the RateLimit-* headers and answers
+ * 429 with Retry-After once the window is used up. If the store fails,
+ * the request is let through.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let hit;
+    try {
+      hit = await getRateLimitStore().increment(buildKey(req, options), options.windowMs);
+    } catch (error) {
+      logger.error(`Rate limit store error (${options.name}):`, error);
+      return next();
+    }
+
+    const resetSeconds = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+    res.setHeader('RateLimit-Limit', options.max);
+    res.setHeader('RateLimit-Remaining', Math.max(0, options.max - hit.count));
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (hit.count > options.max) {
+      logger.warn(`Rate limit exceeded (${options.name}): ${buildKey(req, options)}`);
+      res.setHeader('Retry-After', resetSeconds);
+      return next(new RateLimitError(resetSeconds, options.message));
+    }
+
+    next();
+  };
+};
+
+/**
+ * Every API request, per IP
+ */
+export const apiRateLimit = rateLimit({
+  name: 'api',
+  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'),
+  max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'),
+});
+
+/**
+ * Unauthenticated auth endpoints, per IP and route
+ */
+export const authRateLimit = rateLimit({
+  name: 'auth',
+  windowMs: parseInt(process.env.AUTH_RATE_LIMIT_WINDOW_MS || '900000'),
+  max: parseInt(process.env.AUTH_RATE_LIMIT_MAX_REQUESTS || '20'),
+  perRoute: true,
+  message: 'Too many authentication attempts, please try again later',
+});
+
+/**
+ * Joining spin wheels, per user
+ */
+export const joinRateLimit = rateLimit({
+  name: 'join',
+  windowMs: parseInt(process.env.JOIN_RATE_LIMIT_WINDOW_MS || '60000'),
+  max: parseInt(process.env.JOIN_RATE_LIMIT_MAX_REQUESTS || '10'),
+  keyBy: 'user',
+  perRoute: true,
+  message: 'You are joining spin wheels too quickly, please slow down',
+});
+
+/**
+ * Coin transfers, per user
+ */
+export const transferRateLimit = rateLimit({
+  name: 'transfer',
+  windowMs: parseInt(process.env.TRANSFER_RATE_LIMIT_WINDOW_MS || '60000'),
+  max: parseInt(process.env.TRANSFER_RATE_LIMIT_MAX_REQUESTS || '5'),
+  keyBy: 'user',
+  perRoute: true,
+  message: 'You are sending coins too quickly, please slow down',
+});
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { generateRequestId, runWithContext } from '../utils/requestContext';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId: string
+    }
+  }
+}
+
+const REQUEST_ID_HEADER = 'x-request-id';
+// Accept caller IDs that are safe to echo into headers and logs
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Assign (or accept a valid incoming) X-Request-Id and run the rest of
+ * the request inside its context. Must be the first middleware.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : generateRequestId();
+
+  req.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithContext({ requestId, source: 'http' }, () => next());
+};
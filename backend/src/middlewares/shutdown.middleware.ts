@@ -0,0 +1,13 @@
+import { Request, Response, NextFunction } from 'express';
+import { getShutdownManager } from '../services/shutdown.service';
+import { ServiceUnavailableError } from '../utils/apiResponse';
+
+/**
+ * Refuse new work that would outlive this instance (e.g. joins) once shutdown started
+ */
+export const rejectWhileDraining = (req: Request, res: Response, next: NextFunction): void => {
+  if (getShutdownManager().isDraining()) {
+    return next(new ServiceUnavailableError('Server is shutting down, please retry', 5));
+  }
+  next();
+};
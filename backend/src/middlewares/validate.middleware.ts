@@ -1,23 +1,64 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { ValidationError } from '../utils/apiResponse';
+import { ZodType } from 'zod';
+import { FieldError, ValidationError } from '../utils/apiResponse';
 import logger from '../utils/logger';
 
-export const validate = (schema: Joi.ObjectSchema) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const { error, value } = schema.validate(req.body, {
+// Routes validate with either Joi (admin, wheels) or zod (auth)
+export type RequestSchema = Joi.ObjectSchema | ZodType;
+
+type RequestSource = 'body' | 'params';
+
+/**
+ * Helper: Run a Joi or zod schema and collect every failing field
+ */
+const runSchema = (
+  schema: RequestSchema,
+  input: unknown
+): { value?: unknown; fieldErrors?: FieldError[] } => {
+  if (Joi.isSchema(schema)) {
+    const { error, value } = (schema as Joi.ObjectSchema).validate(input, {
       abortEarly: false,
       stripUnknown: true,
     });
 
-    if (error) {
-      const errorMessages = error.details.map((detail) => detail.message).join(', ');
+    return error
+      ? {
+          fieldErrors: error.details.map((detail) => ({
+            field: detail.path.join('.'),
+            message: detail.message,
+          })),
+        }
+      : { value };
+  }
+
+  // zod objects drop unknown keys by default, matching stripUnknown above
+  const result = (schema as ZodType).safeParse(input ?? {});
+
+  return result.success
+    ? { value: result.data }
+    : {
+        fieldErrors: result.error.issues.map((issue) => ({
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      };
+};
+
+export const validate = (schema: RequestSchema, source: RequestSource = 'body') => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { value, fieldErrors } = runSchema(schema, req[source]);
+
+    if (fieldErrors) {
+      const errorMessages = fieldErrors.map((fieldError) => fieldError.message).join(', ');
       logger.warn(`Validation error: ${errorMessages}`);
-      return next(new ValidationError(errorMessages));
+      return next(new ValidationError(errorMessages, fieldErrors));
     }
 
     // Replace request body with validated and sanitized value
-    req.body = value;
+    if (source === 'body') {
+      req.body = value;
+    }
     next();
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,239 @@
+import dotenv from 'dotenv';
+import mongoose, { AnyBulkWriteOperation } from 'mongoose';
+import SpinWheel, { ISpinWheel, SpinWheelStatus } from '../models/spin_wheels.models';
+import Transaction, { ITransaction } from '../models/transaction.models';
+import User from '../models/user.models';
+import LedgerAccount from '../models/ledger_account.models';
+import { LedgerService, SystemAccount } from '../services/ledger.service';
+import { SpinWheelService } from '../services/spinWheel.service';
+import { allocateProportionally, roundCoins } from '../utils/coins';
+import { runTransaction } from '../utils/db';
+import logger from '../utils/logger';
+
+/**
+ * One-off migration to whole-number coins. Safe to run more than once:
+ * every step only touches documents that still hold fractional amounts.
+ *
+ *   npm run migrate:integer-coins
+ */
+
+const BATCH_SIZE = 500;
+const ACTIVE_STATUSES = [SpinWheelStatus.WAITING, SpinWheelStatus.IN_PROGRESS];
+
+export interface IntegerCoinsMigrationReport {
+  spinWheels: number;
+  transactions: number;
+  users: number;
+  ledgerAccounts: number;
+}
+
+// Aggregation expression: true when the field holds a fraction
+const hasFraction = (field: string) => ({ $ne: [field, { $trunc: field }] });
+
+const anyHasFraction = (array: string, field: string) => ({
+  $anyElementTrue: [{ $map: { input: { $ifNull: [array, []] }, as: 'item', in: hasFraction(`$$item.${field}`) } }],
+});
+
+/**
+ * Helper: Split a rounded total in proportion to the old (fractional) parts
+ */
+const redistribute = (parts: number[]): number[] => {
+  const total = roundCoins(parts.reduce((sum, part) => sum + part, 0));
+  return parts.some((part) => part > 0)
+    ? allocateProportionally(total, parts.map((part) => Math.max(0, part)))
+    : parts.map(() => 0);
+};
+
+/**
+ * Spin wheels: whole-coin entry fees, pools and prizes.
+ * Active wheels get their pools rebuilt from the current participants with the
+ * same split a refund uses; finished wheels keep their (rounded) pool total.
+ */
+const migrateSpinWheels = async (): Promise<number> => {
+  let migrated = 0;
+
+  const cursor = SpinWheel.find({
+    $expr: {
+      $or: [
+        hasFraction('$entryFee'),
+        hasFraction('$winnerPool'),
+        hasFraction('$adminPool'),
+        hasFraction('$appPool'),
+        anyHasFraction('$participants', 'entryFeePaid'),
+        anyHasFraction('$winners', 'prize'),
+      ],
+    },
+  }).cursor();
+
+  for (let spinWheel: ISpinWheel | null = await cursor.next(); spinWheel; spinWheel = await cursor.next()) {
+    spinWheel.entryFee = Math.max(1, roundCoins(spinWheel.entryFee));
+    spinWheel.participants.forEach((participant) => {
+      participant.entryFeePaid = roundCoins(participant.entryFeePaid);
+    });
+
+    if (ACTIVE_STATUSES.includes(spinWheel.status)) {
+      const pools = { winnerAmount: 0, adminAmount: 0, appAmount: 0 };
+      spinWheel.participants.forEach((participant) => {
+        const shares = SpinWheelService.splitEntryFee(participant.entryFeePaid, spinWheel!);
+        pools.winnerAmount += shares.winnerAmount;
+        pools.adminAmount += shares.adminAmount;
+        pools.appAmount += shares.appAmount;
+      });
+      spinWheel.winnerPool = pools.winnerAmount;
+      spinWheel.adminPool = pools.adminAmount;
+      spinWheel.appPool = pools.appAmount;
+    } else {
+      [spinWheel.winnerPool, spinWheel.adminPool, spinWheel.appPool] = redistribute([
+        spinWheel.winnerPool,
+        spinWheel.adminPool,
+        spinWheel.appPool,
+      ]);
+    }
+
+    if (spinWheel.winners.length > 0) {
+      const prizes = spinWheel.winners.some((winner) => winner.prize > 0)
+        ? allocateProportionally(spinWheel.winnerPool, spinWheel.winners.map((winner) => Math.max(0, winner.prize)))
+        : spinWheel.winners.map(() => 0);
+      spinWheel.winners.forEach((winner, index) => {
+        winner.prize = prizes[index];
+      });
+    }
+
+    await spinWheel.save();
+    migrated++;
+  }
+
+  return migrated;
+};
+
+/**
+ * Transactions: round both balances and derive the amount from them,
+ * so balanceAfter - balanceBefore = amount still holds
+ */
+const migrateTransactions = async (): Promise<number> => {
+  let migrated = 0;
+  let batch: AnyBulkWriteOperation<ITransaction>[] = [];
+
+  const flush = async () => {
+    if (batch.length > 0) {
+      await Transaction.bulkWrite(batch, { ordered: false });
+      migrated += batch.length;
+      batch = [];
+    }
+  };
+
+  const cursor = Transaction.find({
+    $expr: { $or: [hasFraction('$amount'), hasFraction('$balanceBefore'), hasFraction('$balanceAfter')] },
+  })
+    .select('amount balanceBefore balanceAfter')
+    .lean()
+    .cursor();
+
+  for (let transaction = await cursor.next(); transaction; transaction = await cursor.next()) {
+    const balanceBefore = roundCoins(transaction.balanceBefore);
+    const balanceAfter = roundCoins(transaction.balanceAfter);
+
+    batch.push({
+      updateOne: {
+        filter: { _id: transaction._id },
+        update: { $set: { balanceBefore, balanceAfter, amount: balanceAfter - balanceBefore } },
+      },
+    });
+
+    if (batch.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return migrated;
+};
+
+/**
+ * Users: round wallet balances
+ */
+const migrateUsers = async (): Promise<number> => {
+  let migrated = 0;
+
+  const cursor = User.find({ $expr: hasFraction('$coins') }).select('coins').lean().cursor();
+
+  for (let user = await cursor.next(); user; user = await cursor.next()) {
+    // Guard on the old value so a concurrent wallet change is not overwritten
+    const result = await User.updateOne(
+      { _id: user._id, coins: user.coins },
+      { $set: { coins: Math.max(0, roundCoins(user.coins)) } }
+    );
+    migrated += result.modifiedCount;
+  }
+
+  return migrated;
+};
+
+/**
+ * Ledger: the journal is append-only, so fractional balances are evened out
+ * with postings against the rounding account instead of being rewritten
+ */
+const migrateLedgerAccounts = async (): Promise<number> => {
+  let migrated = 0;
+  const roundingAccount = LedgerService.systemAccount(SystemAccount.ROUNDING);
+
+  const cursor = LedgerAccount.find({ code: { $ne: roundingAccount }, $expr: hasFraction('$balance') })
+    .select('code balance')
+    .lean()
+    .cursor();
+
+  for (let account = await cursor.next(); account; account = await cursor.next()) {
+    const adjustment = roundCoins(account.balance) - account.balance;
+    const session = await mongoose.startSession();
+
+    try {
+      await runTransaction(session, 'migration.integerCoins', () =>
+        LedgerService.post(
+          {
+            from: adjustment > 0 ? roundingAccount : account!.code,
+            to: adjustment > 0 ? account!.code : roundingAccount,
+            amount: Math.abs(adjustment),
+            description: 'Integer coin migration rounding',
+          },
+          session
+        )
+      );
+      migrated++;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  return migrated;
+};
+
+/**
+ * Run every step of the migration
+ * @returns Number of documents changed per collection
+ */
+export const migrateToIntegerCoins = async (): Promise<IntegerCoinsMigrationReport> => {
+  const report: IntegerCoinsMigrationReport = {
+    spinWheels: await migrateSpinWheels(),
+    transactions: await migrateTransactions(),
+    users: await migrateUsers(),
+    ledgerAccounts: await migrateLedgerAccounts(),
+  };
+
+  logger.info('Integer coin migration finished', report);
+  return report;
+};
+
+// Run directly: ts-node src/migrations/integerCoins.migration.ts
+if (require.main === module) {
+  dotenv.config();
+
+  mongoose
+    .connect(process.env.MONGODB_URI as string)
+    .then(() => migrateToIntegerCoins())
+    .then(() => mongoose.disconnect())
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error('Integer coin migration failed', error);
+      process.exit(1);
+    });
+}
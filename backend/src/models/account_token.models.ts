@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum AccountTokenPurpose {
+  EMAIL_VERIFICATION = 'email_verification',
+  PASSWORD_RESET = 'password_reset'
+}
+
+export interface IAccountToken extends Document {
+  _id: Types.ObjectId;
+  jti: string;                // Matches the jti claim of the signed token
+  userId: Types.ObjectId;
+  purpose: AccountTokenPurpose;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AccountTokenSchema = new Schema<IAccountToken>(
+  {
+    jti: {
+      type: String,
+      required: [true, "Token ID is required"],
+      unique: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"]
+    },
+    purpose: {
+      type: String,
+      enum: Object.values(AccountTokenPurpose),
+      required: [true, "Token purpose is required"]
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    usedAt: {
+      type: Date
+    },
+  },
+  { timestamps: true }
+);
+
+AccountTokenSchema.index({ userId: 1, purpose: 1, usedAt: 1 });
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AccountToken = mongoose.model<IAccountToken>("AccountToken", AccountTokenSchema);
+
+export default AccountToken;
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum AuditAction {
+  ROLE_INVITED = 'role_invited',
+  ROLE_INVITATION_ACCEPTED = 'role_invitation_accepted',
+  ROLE_INVITATION_REVOKED = 'role_invitation_revoked',
+  ROLE_CHANGED = 'role_changed',
+  TRANSFER_FLAGGED = 'transfer_flagged',
+  ADJUSTMENT_REQUESTED = 'adjustment_requested',
+  ADJUSTMENT_REJECTED = 'adjustment_rejected',
+  COINS_ADJUSTED = 'coins_adjusted'
+}
+
+export interface IAuditLog extends Document {
+  _id: Types.ObjectId;
+  action: AuditAction;
+  actorId: Types.ObjectId;        // Admin who performed the action (sender for flagged transfers)
+  actorName: string;
+  targetUserId?: Types.ObjectId;  // Unset for invitations not yet accepted
+  targetEmail: string;
+  previousRole?: 'admin' | 'user';
+  newRole?: 'admin' | 'user';
+  reason?: string;
+  metadata?: Record<string, any>;
+  ipAddress?: string;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: [true, "Audit action is required"]
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Actor ID is required"]
+    },
+    actorName: {
+      type: String,
+      required: true
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: "User"
+    },
+    targetEmail: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true
+    },
+    previousRole: {
+      type: String,
+      enum: ['admin', 'user']
+    },
+    newRole: {
+      type: String,
+      enum: ['admin', 'user']
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Reason cannot exceed 200 characters"]
+    },
+    metadata: {
+      type: Schema.Types.Mixed
+    },
+    ipAddress: {
+      type: String
+    },
+  },
+  // Audit records are append-only
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditLogSchema.index({ targetUserId: 1, createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+const AuditLog = mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
+
+export default AuditLog;
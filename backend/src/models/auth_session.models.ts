@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface IAuthSession extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  refreshTokenHash: string;   // SHA-256 of the only refresh token currently valid for this session
+  device?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  rotationCount: number;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuthSessionSchema = new Schema<IAuthSession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"]
+    },
+    refreshTokenHash: {
+      type: String,
+      required: [true, "Refresh token hash is required"]
+    },
+    device: {
+      type: String,
+      trim: true
+    },
+    ipAddress: {
+      type: String,
+      trim: true
+    },
+    userAgent: {
+      type: String,
+      trim: true
+    },
+    rotationCount: {
+      type: Number,
+      default: 0
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    revokedAt: {
+      type: Date
+    },
+    revokedReason: {
+      type: String,
+      trim: true
+    },
+  },
+  { timestamps: true }
+);
+
+AuthSessionSchema.index({ userId: 1, revokedAt: 1 });
+// Revoked sessions are kept until expiry so replayed tokens are still recognised
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AuthSession = mongoose.model<IAuthSession>("AuthSession", AuthSessionSchema);
+
+export default AuthSession;
@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { coinAmountValidator } from "../utils/coins";
+
+export enum CoinAdjustmentType {
+  CREDIT = 'credit',
+  DEBIT = 'debit',
+  REVERSAL = 'reversal'
+}
+
+export enum CoinAdjustmentStatus {
+  PENDING = 'pending',    // Over the approval threshold, waiting for a second admin
+  APPLIED = 'applied',
+  REJECTED = 'rejected'
+}
+
+export interface ICoinAdjustment extends Document {
+  _id: Types.ObjectId;
+  type: CoinAdjustmentType;
+  status: CoinAdjustmentStatus;
+  userId: Types.ObjectId;
+  amount: number;                          // Signed change to the user's coins
+  reason: string;
+  requestedBy: Types.ObjectId;
+  requestedByName: string;
+  reviewedBy?: Types.ObjectId;             // Second admin who approved or rejected
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  originalTransactionId?: Types.ObjectId;  // Transaction being reversed
+  transactionId?: Types.ObjectId;          // Transaction written when applied
+  appliedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CoinAdjustmentSchema = new Schema<ICoinAdjustment>(
+  {
+    type: {
+      type: String,
+      enum: Object.values(CoinAdjustmentType),
+      required: [true, "Adjustment type is required"]
+    },
+    status: {
+      type: String,
+      enum: Object.values(CoinAdjustmentStatus),
+      default: CoinAdjustmentStatus.PENDING
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"]
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      validate: coinAmountValidator
+    },
+    reason: {
+      type: String,
+      required: [true, "A reason is required"],
+      trim: true,
+      maxlength: [200, "Reason cannot exceed 200 characters"]
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true
+    },
+    requestedByName: {
+      type: String,
+      required: true
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User"
+    },
+    reviewedByName: {
+      type: String
+    },
+    reviewedAt: {
+      type: Date
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Reason cannot exceed 200 characters"]
+    },
+    originalTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction"
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction"
+    },
+    appliedAt: {
+      type: Date
+    },
+  },
+  { timestamps: true }
+);
+
+CoinAdjustmentSchema.index({ status: 1, createdAt: -1 });
+CoinAdjustmentSchema.index({ userId: 1, createdAt: -1 });
+CoinAdjustmentSchema.index({ originalTransactionId: 1 });
+
+const CoinAdjustment = mongoose.model<ICoinAdjustment>("CoinAdjustment", CoinAdjustmentSchema);
+
+export default CoinAdjustment;
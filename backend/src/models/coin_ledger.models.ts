@@ -1,25 +1,45 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 
+export enum LedgerAccountType {
+  USER = 'user',
+  SYSTEM = 'system'
+}
+
 export interface ICoinLedger extends Document {
   _id: Types.ObjectId;
-  userId: Types.ObjectId;
-  transactionId: Types.ObjectId;
+  journalId: Types.ObjectId;   // pairs the debit and credit sides of one posting
+  account: string;             // "user:<id>" or "system:<name>"
+  accountType: LedgerAccountType;
+  userId?: Types.ObjectId;
+  transactionId?: Types.ObjectId;
+  spinWheelId?: Types.ObjectId;
   debit: number;     // coins deducted
   credit: number;    // coins added
   balance: number;   // running balance after this entry
+  description?: string;
   createdAt: Date;
 }
 
 const coinLedgerSchema = new Schema<ICoinLedger>(
   {
-    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
-    transactionId: { type: Schema.Types.ObjectId, ref: "Transaction", required: true },
+    journalId: { type: Schema.Types.ObjectId, required: true, index: true },
+    account: { type: String, required: true },
+    accountType: { type: String, enum: Object.values(LedgerAccountType), required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
+    transactionId: { type: Schema.Types.ObjectId, ref: "Transaction" },
+    spinWheelId: { type: Schema.Types.ObjectId, ref: "SpinWheel" },
     debit: { type: Number, default: 0 },
     credit: { type: Number, default: 0 },
     balance: { type: Number, required: true },
+    description: { type: String },
     createdAt: { type: Date, default: Date.now },
   },
   { timestamps: false }
 );
 
+// Indexes to optimize queries
+coinLedgerSchema.index({ account: 1, createdAt: -1 });
+coinLedgerSchema.index({ userId: 1, createdAt: -1 });
+coinLedgerSchema.index({ transactionId: 1 });
+
 export const CoinLedger = mongoose.model<ICoinLedger>("CoinLedger", coinLedgerSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum IdempotencyKeyStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed'
+}
+
+export interface IIdempotencyKey extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  userId: Types.ObjectId;
+  method: string;
+  path: string;
+  requestHash: string;        // Hash of method, path and body of the first request
+  status: IdempotencyKeyStatus;
+  responseStatus?: number;
+  responseBody?: any;
+  lockedUntil?: Date;         // A processing key past this is abandoned and can be taken over
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    key: {
+      type: String,
+      required: [true, "Idempotency key is required"],
+      trim: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"]
+    },
+    method: {
+      type: String,
+      required: true
+    },
+    path: {
+      type: String,
+      required: true
+    },
+    requestHash: {
+      type: String,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: Object.values(IdempotencyKeyStatus),
+      default: IdempotencyKeyStatus.PROCESSING
+    },
+    responseStatus: {
+      type: Number
+    },
+    responseBody: {
+      type: Schema.Types.Mixed
+    },
+    lockedUntil: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+  },
+  { timestamps: true }
+);
+
+// Keys are scoped per user
+IdempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const IdempotencyKey = mongoose.model<IIdempotencyKey>(
+  "IdempotencyKey",
+  IdempotencyKeySchema
+);
+
+export default IdempotencyKey;
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { LedgerAccountType } from "./coin_ledger.models";
+
+export interface ILedgerAccount extends Document {
+  _id: Types.ObjectId;
+  code: string;            // "user:<id>" or "system:<name>"
+  type: LedgerAccountType;
+  userId?: Types.ObjectId;
+  balance: number;         // current running balance
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LedgerAccountSchema = new Schema<ILedgerAccount>(
+  {
+    code: {
+      type: String,
+      required: [true, "Account code is required"],
+      unique: true,
+      trim: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(LedgerAccountType),
+      required: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User"
+    },
+    balance: {
+      type: Number,
+      default: 0
+    },
+  },
+  { timestamps: true }
+);
+
+LedgerAccountSchema.index({ userId: 1 });
+
+const LedgerAccount = mongoose.model<ILedgerAccount>(
+  "LedgerAccount",
+  LedgerAccountSchema
+);
+
+export default LedgerAccount;
@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface IRateLimitCounter extends Document {
+  _id: Types.ObjectId;
+  key: string;          // Limiter name, route and client identity
+  bucket: number;       // Fixed window index (epoch ms / window length)
+  count: number;
+  expiresAt: Date;      // Kept for two windows so the next one can weight it
+}
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>(
+  {
+    key: { type: String, required: true },
+    bucket: { type: Number, required: true },
+    count: { type: Number, default: 0 },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: false }
+);
+
+RateLimitCounterSchema.index({ key: 1, bucket: 1 }, { unique: true });
+RateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimitCounter = mongoose.model<IRateLimitCounter>(
+  "RateLimitCounter",
+  RateLimitCounterSchema
+);
+
+export default RateLimitCounter;
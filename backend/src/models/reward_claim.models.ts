@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { coinAmountValidator } from "../utils/coins";
+
+export interface IRewardClaim extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  day: string;                     // Calendar day claimed, YYYY-MM-DD in timeZone
+  timeZone: string;
+  streak: number;                  // Consecutive days claimed, including this one
+  amount: number;
+  transactionId?: Types.ObjectId;  // Unset when the reward table paid nothing
+  createdAt: Date;
+}
+
+const RewardClaimSchema = new Schema<IRewardClaim>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"]
+    },
+    day: {
+      type: String,
+      required: [true, "Claim day is required"],
+      match: [/^\d{4}-\d{2}-\d{2}$/, "Claim day must be YYYY-MM-DD"]
+    },
+    timeZone: {
+      type: String,
+      required: true
+    },
+    streak: {
+      type: Number,
+      required: true,
+      min: [1, "Streak must be at least 1"]
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, "Reward cannot be negative"],
+      validate: coinAmountValidator
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction"
+    },
+  },
+  // Claims are append-only
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// One claim per user and day; also serves "latest claim" lookups
+RewardClaimSchema.index({ userId: 1, day: -1 }, { unique: true });
+
+const RewardClaim = mongoose.model<IRewardClaim>("RewardClaim", RewardClaimSchema);
+
+export default RewardClaim;
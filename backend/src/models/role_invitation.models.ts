@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface IRoleInvitation extends Document {
+  _id: Types.ObjectId;
+  email: string;
+  role: 'admin' | 'user';
+  tokenHash: string;          // SHA-256 of the emailed invitation token
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: Types.ObjectId;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RoleInvitationSchema = new Schema<IRoleInvitation>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required"],
+      lowercase: true,
+      trim: true
+    },
+    role: {
+      type: String,
+      enum: ['admin', 'user'],
+      required: [true, "Role is required"]
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Inviting admin is required"]
+    },
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    acceptedAt: {
+      type: Date
+    },
+    acceptedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User"
+    },
+    revokedAt: {
+      type: Date
+    },
+  },
+  { timestamps: true }
+);
+
+RoleInvitationSchema.index({ email: 1, acceptedAt: 1, revokedAt: 1 });
+// Keep expired invitations around for a week so the audit trail can still resolve them
+RoleInvitationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const RoleInvitation = mongoose.model<IRoleInvitation>("RoleInvitation", RoleInvitationSchema);
+
+export default RoleInvitation;
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum ScheduledJobType {
+  AUTO_START = 'auto_start',
+  ELIMINATION = 'elimination'
+}
+
+export enum ScheduledJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+export interface IScheduledJob extends Document {
+  _id: Types.ObjectId;
+  jobKey: string;               // Unique per step, e.g. "elimination:<wheelId>:<index>"
+  type: ScheduledJobType;
+  spinWheelId: Types.ObjectId;
+  eliminationIndex?: number;    // Expected currentEliminationIndex for elimination jobs
+  runAt: Date;
+  status: ScheduledJobStatus;
+  lockedBy?: string;            // Instance currently holding the lease
+  lockedUntil?: Date;
+  attempts: number;
+  revives: number;              // Times the recovery sweep restarted the step after it gave up
+  lastError?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScheduledJobSchema = new Schema<IScheduledJob>(
+  {
+    jobKey: {
+      type: String,
+      required: [true, "Job key is required"],
+      unique: true
+    },
+    type: {
+      type: String,
+      enum: Object.values(ScheduledJobType),
+      required: [true, "Job type is required"]
+    },
+    spinWheelId: {
+      type: Schema.Types.ObjectId,
+      ref: "SpinWheel",
+      required: [true, "Spin wheel ID is required"],
+      index: true
+    },
+    eliminationIndex: {
+      type: Number,
+      min: [0, "Elimination index cannot be negative"]
+    },
+    runAt: {
+      type: Date,
+      required: [true, "Run time is required"]
+    },
+    status: {
+      type: String,
+      enum: Object.values(ScheduledJobStatus),
+      default: ScheduledJobStatus.PENDING
+    },
+    lockedBy: {
+      type: String
+    },
+    lockedUntil: {
+      type: Date
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    revives: {
+      type: Number,
+      default: 0
+    },
+    lastError: {
+      type: String
+    },
+    completedAt: {
+      type: Date
+    },
+  },
+  { timestamps: true }
+);
+
+// Indexes to optimize job claiming
+ScheduledJobSchema.index({ status: 1, runAt: 1 });
+ScheduledJobSchema.index({ status: 1, lockedUntil: 1 });
+ScheduledJobSchema.index({ spinWheelId: 1, type: 1, status: 1 });
+
+const ScheduledJob = mongoose.model<IScheduledJob>(
+  "ScheduledJob",
+  ScheduledJobSchema
+);
+
+export default ScheduledJob;
@@ -0,0 +1,36 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface ISchedulerLease extends Document {
+  _id: Types.ObjectId;
+  name: string;       // Lease name, one per elected role
+  holder: string;     // Instance ID of the current leader
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SchedulerLeaseSchema = new Schema<ISchedulerLease>(
+  {
+    name: {
+      type: String,
+      required: [true, "Lease name is required"],
+      unique: true
+    },
+    holder: {
+      type: String,
+      required: [true, "Lease holder is required"]
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Lease expiry is required"]
+    },
+  },
+  { timestamps: true }
+);
+
+const SchedulerLease = mongoose.model<ISchedulerLease>(
+  "SchedulerLease",
+  SchedulerLeaseSchema
+);
+
+export default SchedulerLease;
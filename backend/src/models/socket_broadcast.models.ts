@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export enum SocketBroadcastTarget {
+  ROOM = 'room',
+  USER = 'user',
+  ALL = 'all',
+  DISCONNECT_USER = 'disconnect_user'
+}
+
+export interface ISocketBroadcast extends Document {
+  _id: Types.ObjectId;
+  origin: string;                 // Instance that published the message
+  target: SocketBroadcastTarget;
+  room?: string;
+  userId?: string;
+  event: string;
+  data?: any;
+  createdAt: Date;
+}
+
+const SocketBroadcastSchema = new Schema<ISocketBroadcast>(
+  {
+    origin: { type: String, required: true },
+    target: {
+      type: String,
+      enum: Object.values(SocketBroadcastTarget),
+      required: true
+    },
+    room: { type: String },
+    userId: { type: String },
+    event: { type: String, required: true },
+    data: { type: Schema.Types.Mixed },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+// Messages are only needed while change stream consumers read them
+SocketBroadcastSchema.index({ createdAt: 1 }, { expireAfterSeconds: 60 });
+
+const SocketBroadcast = mongoose.model<ISocketBroadcast>(
+  "SocketBroadcast",
+  SocketBroadcastSchema
+);
+
+export default SocketBroadcast;
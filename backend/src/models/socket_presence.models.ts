@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface ISocketPresence extends Document {
+  _id: Types.ObjectId;
+  socketId: string;
+  userId: string;
+  instanceId: string;   // Backend instance holding the connection
+  lastSeenAt: Date;     // Refreshed by heartbeats; expired entries are removed by TTL
+}
+
+const SocketPresenceSchema = new Schema<ISocketPresence>(
+  {
+    socketId: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    instanceId: { type: String, required: true, index: true },
+    lastSeenAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+// Drop presence of crashed instances that stopped sending heartbeats
+SocketPresenceSchema.index(
+  { lastSeenAt: 1 },
+  { expireAfterSeconds: parseInt(process.env.SOCKET_PRESENCE_TTL || '90') }
+);
+
+const SocketPresence = mongoose.model<ISocketPresence>(
+  "SocketPresence",
+  SocketPresenceSchema
+);
+
+export default SocketPresence;
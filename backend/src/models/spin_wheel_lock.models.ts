@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface ISpinWheelLock extends Document {
+  _id: Types.ObjectId;
+  key: string;        // What the lock serializes, e.g. "create"
+  version: number;    // Bumped by every holder so concurrent transactions conflict
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SpinWheelLockSchema = new Schema<ISpinWheelLock>(
+  {
+    key: {
+      type: String,
+      required: [true, "Lock key is required"],
+      unique: true
+    },
+    version: {
+      type: Number,
+      default: 0
+    },
+  },
+  { timestamps: true }
+);
+
+const SpinWheelLock = mongoose.model<ISpinWheelLock>(
+  "SpinWheelLock",
+  SpinWheelLockSchema
+);
+
+export default SpinWheelLock;
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
+import { coinAmountValidator } from "../utils/coins";
 
 export interface IParticipant {
   userId: Types.ObjectId;  // Keeping userId for your preference
@@ -9,6 +10,15 @@ export interface IParticipant {
   eliminatedAt?: Date;
   eliminationOrder?: number; // ADDED: Track order of elimination (1, 2, 3...)
   position?: number;
+  clientSeed?: string;     // Entropy contributed by the participant on join
+  holdId?: Types.ObjectId; // Wallet hold for the entry fee; unset for joins that debited directly
+}
+
+export interface IWinner {
+  userId: Types.ObjectId;
+  name: string;
+  position: number;        // 1 = first place
+  prize: number;
 }
 
 export enum SpinWheelStatus {
@@ -22,6 +32,7 @@ export interface ISpinWheel extends Document {
   _id: Types.ObjectId;
   adminId: Types.ObjectId;
   adminName: string;   // ADDED: Admin username cache
+  templateId?: Types.ObjectId; // Template the wheel was launched from
   status: SpinWheelStatus;
   entryFee: number;
   participants: IParticipant[];
@@ -45,12 +56,23 @@ export interface ISpinWheel extends Document {
   startedAt?: Date;
   completedAt?: Date;
 
+  // Payout structure
+  winnerCount: number;     // Eliminations stop when this many players remain
+  prizeTable: number[];    // Share of winner pool per position (1st first); empty = equal split
+
   // Results
-  winnerId?: Types.ObjectId;
+  winnerId?: Types.ObjectId;   // First place
   winnerName?: string;    // ADDED: Winner name cache
+  winners: IWinner[];     // Every paid position
   eliminationSequence: Types.ObjectId[];
   currentEliminationIndex: number; // ADDED: Track current elimination progress
 
+  // Provably-fair commit–reveal
+  serverSeed?: string;          // Hidden until the wheel is completed
+  serverSeedHash?: string;      // SHA-256 commitment published on creation
+  clientSeedHash?: string;      // Digest of all participant client seeds, set on start
+  serverSeedRevealedAt?: Date;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -75,7 +97,8 @@ const ParticipantSchema = new Schema<IParticipant>(
     entryFeePaid: {
       type: Number,
       required: [true, "Entry fee paid is required"],
-      min: [0, "Entry fee cannot be negative"]
+      min: [0, "Entry fee cannot be negative"],
+      validate: coinAmountValidator
     },
     isEliminated: { 
       type: Boolean, 
@@ -91,6 +114,41 @@ const ParticipantSchema = new Schema<IParticipant>(
     position: { 
       type: Number 
     },
+    clientSeed: {
+      type: String,
+      trim: true
+    },
+    holdId: {
+      type: Schema.Types.ObjectId,
+      ref: "WalletHold"
+    },
+  },
+  { _id: false }
+);
+
+const WinnerSchema = new Schema<IWinner>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    position: {
+      type: Number,
+      required: true,
+      min: [1, "Position must be at least 1"]
+    },
+    prize: {
+      type: Number,
+      required: true,
+      min: [0, "Prize cannot be negative"],
+      validate: coinAmountValidator
+    },
   },
   { _id: false }
 );
@@ -108,10 +166,15 @@ const SpinWheelSchema = new Schema<ISpinWheel>(
       required: [true, "Admin name is required"],
       trim: true
     },
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: "WheelTemplate"
+    },
     entryFee: {
       type: Number,
       required: [true, "Entry fee is required"],
       min: [1, "Entry fee must be at least 1 coin"],
+      validate: coinAmountValidator,
     },
     status: {
       type: String,
@@ -137,16 +200,19 @@ const SpinWheelSchema = new Schema<ISpinWheel>(
       type: Number, 
       default: 0,
       min: [0, "Winner pool cannot be negative"],
+      validate: coinAmountValidator,
     },
     adminPool: { 
       type: Number,
       default: 0,
       min: [0, "Admin pool cannot be negative"],
+      validate: coinAmountValidator,
     },
     appPool: { 
       type: Number,
       default: 0,
       min: [0, "App pool cannot be negative"],
+      validate: coinAmountValidator,
     },
     winnerPoolPercentage: { 
       type: Number, 
@@ -185,6 +251,15 @@ const SpinWheelSchema = new Schema<ISpinWheel>(
     completedAt: { 
       type: Date 
     },
+    winnerCount: {
+      type: Number,
+      default: 1,
+      min: [1, "There must be at least one winner"]
+    },
+    prizeTable: {
+      type: [Number],
+      default: []
+    },
     winnerId: { 
       type: Schema.Types.ObjectId, 
       ref: "User" 
@@ -193,6 +268,10 @@ const SpinWheelSchema = new Schema<ISpinWheel>(
       type: String,
       trim: true
     },
+    winners: {
+      type: [WinnerSchema],
+      default: []
+    },
     eliminationSequence: [{ 
       type: Schema.Types.ObjectId, 
       ref: "User" 
@@ -202,6 +281,19 @@ const SpinWheelSchema = new Schema<ISpinWheel>(
       default: 0,
       min: [0, "Current elimination index cannot be negative"]
     },
+    serverSeed: {
+      type: String,
+      select: false
+    },
+    serverSeedHash: {
+      type: String
+    },
+    clientSeedHash: {
+      type: String
+    },
+    serverSeedRevealedAt: {
+      type: Date
+    },
   },
   { timestamps: true }
 );
@@ -211,6 +303,7 @@ SpinWheelSchema.index({ status: 1, createdAt: -1 });
 SpinWheelSchema.index({ adminId: 1, status: 1 });
 SpinWheelSchema.index({ 'participants.userId': 1 });
 SpinWheelSchema.index({ winnerId: 1 });
+SpinWheelSchema.index({ 'winners.userId': 1 });
 
 // Validation to ensure percentages sum to 100
 SpinWheelSchema.pre<ISpinWheel>("save", function (next) {
@@ -222,6 +315,23 @@ SpinWheelSchema.pre<ISpinWheel>("save", function (next) {
   next();
 });
 
+// Validation to ensure a prize table covers every paid position and sums to 100
+SpinWheelSchema.pre<ISpinWheel>("save", function (next) {
+  if (this.prizeTable.length === 0) {
+    return next();
+  }
+
+  if (this.prizeTable.length !== this.winnerCount) {
+    return next(new Error("Prize table must have one entry per winner"));
+  }
+
+  const totalShare = this.prizeTable.reduce((sum, share) => sum + share, 0);
+  if (Math.abs(totalShare - 100) > 0.01) {
+    return next(new Error("Prize table must sum to 100"));
+  }
+  next();
+});
+
 // Auto-set autoStartAt when spin wheel is created in WAITING status
 SpinWheelSchema.pre<ISpinWheel>("save", function (next) {
   if (this.isNew && this.status === SpinWheelStatus.WAITING && !this.autoStartAt) {
@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
+import { getRequestId } from "../utils/requestContext";
+import { coinAmountValidator } from "../utils/coins";
 
 
 export enum TransactionType {
@@ -6,13 +8,29 @@ export enum TransactionType {
   PRIZE_WIN = 'prize_win',
   ADMIN_COMMISSION = 'admin_commission',
   REFUND = 'refund',
-  APP_FEE = 'app_fee'
+  APP_FEE = 'app_fee',
+  TRANSFER_IN = 'transfer_in',
+  TRANSFER_OUT = 'transfer_out',
+  ADMIN_CREDIT = 'admin_credit',
+  ADMIN_DEBIT = 'admin_debit',
+  REVERSAL = 'reversal',
+  DAILY_REWARD = 'daily_reward'
 }
 
+// Types that always belong to a spin wheel; the others leave spinWheelId unset
+export const GAME_TRANSACTION_TYPES: TransactionType[] = [
+  TransactionType.ENTRY_FEE,
+  TransactionType.PRIZE_WIN,
+  TransactionType.ADMIN_COMMISSION,
+  TransactionType.REFUND,
+  TransactionType.APP_FEE,
+];
+
 export interface ITransaction extends Document {
+  _id: Types.ObjectId;
   userId: Types.ObjectId;
   name: string;
-  spinWheelId: Types.ObjectId;
+  spinWheelId?: Types.ObjectId;
   type: TransactionType;
   amount: number;
   balanceBefore: number;
@@ -24,6 +42,38 @@ export interface ITransaction extends Document {
     adminPoolAmount?: number;
     appPoolAmount?: number;
     reason?: string;
+    requestId?: string;     // Request or scheduler job that wrote the transaction
+    adminId?: Types.ObjectId;          // Wheel admin
+    participants?: number;             // Wheel size at payout
+    position?: number;                 // Finishing position a prize was paid for
+    totalPrizePool?: number;
+    entryFee?: number;
+    winnerId?: Types.ObjectId;
+    winnerName?: string;
+    commissionAmount?: number;
+    appFeeAmount?: number;
+    adminName?: string;
+    holdId?: Types.ObjectId;           // Wallet hold captured by an entry fee
+    distributionBreakdown?: {          // Entry fee split across the pools
+      winnerPool: number;
+      adminPool: number;
+      appPool: number;
+    };
+    originalEntryFee?: number;         // Entry fee returned by a refund
+    transferId?: Types.ObjectId;       // Shared by both sides of a transfer
+    counterpartyId?: Types.ObjectId;   // The other user in a transfer
+    counterpartyName?: string;
+    note?: string;
+    flags?: string[];                  // Suspicious patterns found on a transfer
+    adjustmentId?: Types.ObjectId;     // Admin adjustment that wrote the transaction
+    actorId?: Types.ObjectId;          // Admin who requested the adjustment
+    actorName?: string;
+    approvedBy?: Types.ObjectId;       // Second admin, for adjustments over the threshold
+    approvedByName?: string;
+    reversalOf?: Types.ObjectId;       // Transaction undone by a reversal
+    reversedBy?: Types.ObjectId;       // Reversal that undid this transaction
+    rewardDay?: string;                // Calendar day a daily reward was claimed for
+    streak?: number;                   // Daily reward streak length
   };
   createdAt: Date;
   updatedAt: Date;
@@ -40,25 +90,33 @@ const transactionSchema = new Schema<ITransaction>(
     spinWheelId: { 
       type: Schema.Types.ObjectId, 
       ref: "SpinWheel", 
-      required: [true, "Spin Wheel ID is required"],
+      required: [
+        function (this: ITransaction) {
+          return GAME_TRANSACTION_TYPES.includes(this.type);
+        },
+        "Spin Wheel ID is required",
+      ],
       index: true
     },
     type: {
       type: String,
-      enum: ["entry_fee", "prize_win", "admin_commission", "refund", "app_fee"],
+      enum: Object.values(TransactionType),
       required: [true, "Transaction type is required"],
     },
     amount: { 
       type: Number, 
-      required: [true, "Amount is required"] 
+      required: [true, "Amount is required"],
+      validate: coinAmountValidator
     },
     balanceBefore: { 
       type: Number, 
-      required: [true, "Balance before is required"] 
+      required: [true, "Balance before is required"],
+      validate: coinAmountValidator
     },
     balanceAfter: { 
       type: Number, 
-      required: [true, "Balance after is required"] 
+      required: [true, "Balance after is required"],
+      validate: coinAmountValidator
     },
     status: {
       type: String,
@@ -73,15 +131,57 @@ const transactionSchema = new Schema<ITransaction>(
       adminPoolAmount: { type: Number },
       appPoolAmount: { type: Number },
       reason: { type: String },
+      requestId: { type: String },
+      adminId: { type: Schema.Types.ObjectId, ref: "User" },
+      participants: { type: Number },
+      position: { type: Number },
+      totalPrizePool: { type: Number },
+      entryFee: { type: Number },
+      winnerId: { type: Schema.Types.ObjectId, ref: "User" },
+      winnerName: { type: String },
+      commissionAmount: { type: Number },
+      appFeeAmount: { type: Number },
+      adminName: { type: String },
+      holdId: { type: Schema.Types.ObjectId, ref: "WalletHold" },
+      distributionBreakdown: {
+        winnerPool: { type: Number },
+        adminPool: { type: Number },
+        appPool: { type: Number },
+      },
+      originalEntryFee: { type: Number },
+      transferId: { type: Schema.Types.ObjectId },
+      counterpartyId: { type: Schema.Types.ObjectId, ref: "User" },
+      counterpartyName: { type: String },
+      note: { type: String },
+      flags: { type: [String], default: undefined },
+      adjustmentId: { type: Schema.Types.ObjectId, ref: "CoinAdjustment" },
+      actorId: { type: Schema.Types.ObjectId, ref: "User" },
+      actorName: { type: String },
+      approvedBy: { type: Schema.Types.ObjectId, ref: "User" },
+      approvedByName: { type: String },
+      reversalOf: { type: Schema.Types.ObjectId, ref: "Transaction" },
+      reversedBy: { type: Schema.Types.ObjectId, ref: "Transaction" },
+      rewardDay: { type: String },
+      streak: { type: Number },
     },
   },
   { timestamps: true } 
 );
 
+// Stamp the request or job ID so ledger writes can be traced back to their caller
+transactionSchema.pre('save', function (next) {
+  const requestId = getRequestId();
+  if (requestId && !this.metadata?.requestId) {
+    this.set('metadata.requestId', requestId);
+  }
+  next();
+});
+
 // Indexes to optimize queries
 transactionSchema.index({ userId: 1, createdAt: -1 });
 transactionSchema.index({ spinWheelId: 1, type: 1 });
 transactionSchema.index({ status: 1, createdAt: -1 });
+transactionSchema.index({ type: 1, userId: 1, createdAt: -1 });
 
 const Transaction = mongoose.model<ITransaction>(
   "Transaction",
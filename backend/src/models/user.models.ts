@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcrypt';
+import { coinAmountValidator } from '../utils/coins';
 
 
 export interface IUser extends Document {
@@ -8,8 +9,16 @@ name: string;
 email: string;
 password: string;
 role: 'admin' | 'user';
-coins: number;
+coins: number;          // Everything the user owns, including held coins
+heldCoins: number;      // Reserved by open wallet holds; available = coins - heldCoins
 isActive: boolean;
+tokenVersion: number;   // Bumped to invalidate every access token issued before
+isEmailVerified?: boolean; // Unset for accounts created before email verification existed
+emailVerifiedAt?: Date;
+failedLoginAttempts: number;  // Consecutive failures inside the failure window
+lastFailedLoginAt?: Date;
+lockoutCount: number;         // Lockouts since the last successful login; drives the backoff
+lockedUntil?: Date;
 lastLogin?: Date;
 createdAt: Date;
 updatedAt: Date;
@@ -48,11 +57,43 @@ coins: {
     type: Number, 
     default: 1000,
     min: [0, 'Coins cannot be negative'],
+    validate: coinAmountValidator,
+},
+heldCoins: {
+    type: Number,
+    default: 0,
+    min: [0, 'Held coins cannot be negative'],
+    validate: coinAmountValidator,
 },
 isActive: {
     type: Boolean,
     default: true
 },
+tokenVersion: {
+    type: Number,
+    default: 0
+},
+// No default: legacy accounts without the field are treated as verified
+isEmailVerified: {
+    type: Boolean
+},
+emailVerifiedAt: {
+    type: Date
+},
+failedLoginAttempts: {
+    type: Number,
+    default: 0
+},
+lastFailedLoginAt: {
+    type: Date
+},
+lockoutCount: {
+    type: Number,
+    default: 0
+},
+lockedUntil: {
+    type: Date
+},
 lastLogin: {
     type: Date,
     default: Date.now
@@ -64,6 +105,14 @@ lastLogin: {
 UserSchema.index({ email: 1 });
 UserSchema.index({ role: 1 });
 
+// Invalidate issued access tokens when access-relevant fields change
+UserSchema.pre('save', function (next) {
+    if (!this.isNew && (this.isModified('isActive') || this.isModified('role') || this.isModified('password'))) {
+        this.tokenVersion += 1;
+    }
+    next();
+});
+
 // Hash password before saving
 UserSchema.pre('save', async function (next) {
     if (!this.isModified('password')) return next();
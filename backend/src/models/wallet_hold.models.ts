@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { coinAmountValidator } from "../utils/coins";
+
+export enum WalletHoldStatus {
+  HELD = 'held',          // Reserved on the user's wallet, not yet moved
+  CAPTURED = 'captured',  // Converted into a debit when the wheel started
+  RELEASED = 'released'   // Given back (left or aborted)
+}
+
+export interface IWalletHold extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  spinWheelId: Types.ObjectId;
+  amount: number;
+  status: WalletHoldStatus;
+  transactionId?: Types.ObjectId;  // Entry fee transaction written on capture
+  releaseReason?: string;
+  capturedAt?: Date;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletHoldSchema = new Schema<IWalletHold>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"]
+    },
+    spinWheelId: {
+      type: Schema.Types.ObjectId,
+      ref: "SpinWheel",
+      required: [true, "Spin Wheel ID is required"],
+      index: true
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [1, "Hold amount must be at least 1 coin"],
+      validate: coinAmountValidator
+    },
+    status: {
+      type: String,
+      enum: Object.values(WalletHoldStatus),
+      default: WalletHoldStatus.HELD
+    },
+    transactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Transaction"
+    },
+    releaseReason: {
+      type: String,
+      trim: true
+    },
+    capturedAt: {
+      type: Date
+    },
+    releasedAt: {
+      type: Date
+    },
+  },
+  { timestamps: true }
+);
+
+// At most one open hold per user and wheel
+WalletHoldSchema.index(
+  { userId: 1, spinWheelId: 1 },
+  { unique: true, partialFilterExpression: { status: WalletHoldStatus.HELD } }
+);
+WalletHoldSchema.index({ userId: 1, status: 1 });
+
+const WalletHold = mongoose.model<IWalletHold>("WalletHold", WalletHoldSchema);
+
+export default WalletHold;
@@ -0,0 +1,134 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export interface IWheelTemplate extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  entryFee: number;
+  maxParticipants: number;
+  minParticipants: number;
+
+  // Distribution percentages
+  winnerPoolPercentage: number;
+  adminPoolPercentage: number;
+  appPoolPercentage: number;
+
+  // Timings in ms
+  autoStartTime: number;
+  eliminationInterval: number;
+
+  // Payout structure
+  winnerCount: number;
+  prizeTable: number[];
+
+  createdBy: Types.ObjectId;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WheelTemplateSchema = new Schema<IWheelTemplate>(
+  {
+    name: {
+      type: String,
+      required: [true, "Template name is required"],
+      unique: true,
+      trim: true,
+      maxlength: [50, "Template name cannot exceed 50 characters"]
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    entryFee: {
+      type: Number,
+      required: [true, "Entry fee is required"],
+      min: [1, "Entry fee must be at least 1 coin"]
+    },
+    maxParticipants: {
+      type: Number,
+      default: 100,
+      min: [3, "Max participants must be at least 3"]
+    },
+    minParticipants: {
+      type: Number,
+      default: 3,
+      min: [3, "Min participants must be at least 3"]
+    },
+    winnerPoolPercentage: {
+      type: Number,
+      required: true,
+      min: [0, "Winner pool percentage cannot be negative"],
+      max: [100, "Winner pool percentage cannot exceed 100"]
+    },
+    adminPoolPercentage: {
+      type: Number,
+      required: true,
+      min: [0, "Admin pool percentage cannot be negative"],
+      max: [100, "Admin pool percentage cannot exceed 100"]
+    },
+    appPoolPercentage: {
+      type: Number,
+      required: true,
+      min: [0, "App pool percentage cannot be negative"],
+      max: [100, "App pool percentage cannot exceed 100"]
+    },
+    autoStartTime: {
+      type: Number,
+      default: 180000,
+      min: [0, "Auto start time cannot be negative"]
+    },
+    eliminationInterval: {
+      type: Number,
+      default: 7000,
+      min: [1000, "Elimination interval must be at least 1 second"]
+    },
+    winnerCount: {
+      type: Number,
+      default: 1,
+      min: [1, "There must be at least one winner"]
+    },
+    prizeTable: {
+      type: [Number],
+      default: []
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Creator is required"]
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+  },
+  { timestamps: true }
+);
+
+WheelTemplateSchema.index({ isActive: 1, name: 1 });
+
+// Validation to ensure percentages sum to 100
+WheelTemplateSchema.pre<IWheelTemplate>("save", function (next) {
+  const totalPercentage = this.winnerPoolPercentage + this.adminPoolPercentage + this.appPoolPercentage;
+
+  if (Math.abs(totalPercentage - 100) > 0.01) {
+    return next(new Error("Total percentage must equal 100"));
+  }
+  if (this.minParticipants > this.maxParticipants) {
+    return next(new Error("Min participants cannot exceed max participants"));
+  }
+  if (this.winnerCount >= this.minParticipants) {
+    return next(new Error("Number of winners must be less than min participants"));
+  }
+  if (this.prizeTable.length > 0 && this.prizeTable.length !== this.winnerCount) {
+    return next(new Error("Prize table must have one entry per winner"));
+  }
+  next();
+});
+
+const WheelTemplate = mongoose.model<IWheelTemplate>(
+  "WheelTemplate",
+  WheelTemplateSchema
+);
+
+export default WheelTemplate;
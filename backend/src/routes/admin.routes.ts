@@ -5,10 +5,25 @@ import {
   getSystemAnalytics,
   updateSystemConfig,
   getSystemConfig,
+  getLedgerReconciliation,
+  inviteUser,
+  getInvitations,
+  revokeInvitation,
+  changeUserRole,
+  getAuditLogs,
+  getLogLevelSettings,
+  updateLogLevel,
+  createAdjustment,
+  reverseTransaction,
+  getAdjustments,
+  approveAdjustment,
+  rejectAdjustment,
 } from '../controllers/admin.controller';
 import { authenticate, authorize } from '../middlewares/auth.middleware';
 import Joi from 'joi';
 import { validate } from '../middlewares/validate.middleware';
+import { idempotent } from '../middlewares/idempotency.middleware';
+import { LOG_DOMAINS, LOG_LEVELS } from '../utils/logger';
 
 const router = Router();
 
@@ -20,6 +35,69 @@ const updateConfigSchema = Joi.object({
   value: Joi.any().required().messages({
     'any.required': 'Configuration value is required',
   }),
+  type: Joi.string().valid('string', 'number', 'boolean', 'object', 'array'),
+  description: Joi.string().max(200),
+});
+
+const updateLogLevelSchema = Joi.object({
+  level: Joi.string().valid(...LOG_LEVELS).required().messages({
+    'any.only': `Level must be one of ${LOG_LEVELS.join(', ')}`,
+    'any.required': 'Level is required',
+  }),
+  domain: Joi.string().valid(...LOG_DOMAINS).default('default').messages({
+    'any.only': `Domain must be one of ${LOG_DOMAINS.join(', ')}`,
+  }),
+});
+
+const inviteUserSchema = Joi.object({
+  email: Joi.string().email().lowercase().trim().required().messages({
+    'string.email': 'Please provide a valid email address',
+    'any.required': 'Email is required',
+  }),
+  role: Joi.string().valid('admin', 'user').default('admin').messages({
+    'any.only': 'Role must be admin or user',
+  }),
+});
+
+const changeRoleSchema = Joi.object({
+  role: Joi.string().valid('admin', 'user').required().messages({
+    'any.only': 'Role must be admin or user',
+    'any.required': 'Role is required',
+  }),
+  reason: Joi.string().trim().min(3).max(200).required().messages({
+    'string.min': 'Reason must be at least 3 characters',
+    'string.max': 'Reason cannot exceed 200 characters',
+    'any.required': 'A reason is required for role changes',
+  }),
+});
+
+const adjustmentReason = Joi.string().trim().min(3).max(200).required().messages({
+  'string.min': 'Reason must be at least 3 characters',
+  'string.max': 'Reason cannot exceed 200 characters',
+  'any.required': 'A reason is required for coin adjustments',
+});
+
+const createAdjustmentSchema = Joi.object({
+  userId: Joi.string().hex().length(24).required().messages({
+    'string.hex': 'Invalid user ID',
+    'string.length': 'Invalid user ID',
+    'any.required': 'User ID is required',
+  }),
+  type: Joi.string().valid('credit', 'debit').required().messages({
+    'any.only': 'Type must be credit or debit',
+    'any.required': 'Type is required',
+  }),
+  amount: Joi.number().integer().min(1).required().messages({
+    'number.base': 'Amount must be a number',
+    'number.integer': 'Amount must be an integer',
+    'number.min': 'Amount must be at least 1',
+    'any.required': 'Amount is required',
+  }),
+  reason: adjustmentReason,
+});
+
+const adjustmentReasonSchema = Joi.object({
+  reason: adjustmentReason,
 });
 
 /**
@@ -43,6 +121,13 @@ router.get('/transactions', authenticate, authorize('admin'), getAllTransactions
  */
 router.get('/analytics', authenticate, authorize('admin'), getSystemAnalytics);
 
+/**
+ * @route   GET /api/admin/ledger/reconciliation
+ * @desc    Flag users whose coins differ from their ledger balance
+ * @access  Private (Admin)
+ */
+router.get('/ledger/reconciliation', authenticate, authorize('admin'), getLedgerReconciliation);
+
 /**
  * @route   GET /api/admin/config
  * @desc    Get system configuration
@@ -63,4 +148,132 @@ router.put(
   updateSystemConfig
 );
 
+/**
+ * @route   GET /api/admin/log-levels
+ * @desc    Get current log levels
+ * @access  Private (Admin)
+ */
+router.get('/log-levels', authenticate, authorize('admin'), getLogLevelSettings);
+
+/**
+ * @route   PUT /api/admin/log-levels
+ * @desc    Change the log level of a domain at runtime
+ * @access  Private (Admin)
+ */
+router.put(
+  '/log-levels',
+  authenticate,
+  authorize('admin'),
+  validate(updateLogLevelSchema),
+  updateLogLevel
+);
+
+/**
+ * @route   POST /api/admin/invitations
+ * @desc    Invite an email address to register with a role
+ * @access  Private (Admin)
+ */
+router.post(
+  '/invitations',
+  authenticate,
+  authorize('admin'),
+  validate(inviteUserSchema),
+  inviteUser
+);
+
+/**
+ * @route   GET /api/admin/invitations
+ * @desc    List pending invitations
+ * @access  Private (Admin)
+ */
+router.get('/invitations', authenticate, authorize('admin'), getInvitations);
+
+/**
+ * @route   DELETE /api/admin/invitations/:invitationId
+ * @desc    Revoke a pending invitation
+ * @access  Private (Admin)
+ */
+router.delete('/invitations/:invitationId', authenticate, authorize('admin'), revokeInvitation);
+
+/**
+ * @route   PUT /api/admin/users/:userId/role
+ * @desc    Promote or demote a user
+ * @access  Private (Admin)
+ */
+router.put(
+  '/users/:userId/role',
+  authenticate,
+  authorize('admin'),
+  validate(changeRoleSchema),
+  changeUserRole
+);
+
+/**
+ * @route   GET /api/admin/audit-logs
+ * @desc    Get the role audit trail
+ * @access  Private (Admin)
+ */
+router.get('/audit-logs', authenticate, authorize('admin'), getAuditLogs);
+
+/**
+ * @route   POST /api/admin/adjustments
+ * @desc    Credit or debit a user's coins; large amounts wait for a second admin
+ * @access  Private (Admin)
+ */
+router.post(
+  '/adjustments',
+  authenticate,
+  authorize('admin'),
+  idempotent,
+  validate(createAdjustmentSchema),
+  createAdjustment
+);
+
+/**
+ * @route   GET /api/admin/adjustments
+ * @desc    List coin adjustments (filters: status, userId)
+ * @access  Private (Admin)
+ */
+router.get('/adjustments', authenticate, authorize('admin'), getAdjustments);
+
+/**
+ * @route   POST /api/admin/adjustments/:adjustmentId/approve
+ * @desc    Approve and apply a pending adjustment (not by its requester)
+ * @access  Private (Admin)
+ */
+router.post(
+  '/adjustments/:adjustmentId/approve',
+  authenticate,
+  authorize('admin'),
+  idempotent,
+  approveAdjustment
+);
+
+/**
+ * @route   POST /api/admin/adjustments/:adjustmentId/reject
+ * @desc    Reject a pending adjustment
+ * @access  Private (Admin)
+ */
+router.post(
+  '/adjustments/:adjustmentId/reject',
+  authenticate,
+  authorize('admin'),
+  validate(adjustmentReasonSchema),
+  rejectAdjustment
+);
+
+/**
+ * @route   POST /api/admin/transactions/:transactionId/reverse
+ * @desc    Reverse a past transaction
+ * @access  Private (Admin)
+ */
+router.post(
+  '/transactions/:transactionId/reverse',
+  authenticate,
+  authorize('admin'),
+  idempotent,
+  validate(adjustmentReasonSchema),
+  reverseTransaction
+);
+
 export default router;
\ No newline at end of file
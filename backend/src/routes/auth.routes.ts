@@ -6,26 +6,42 @@ import {
   getProfile,
   updateProfile,
   logout,
+  getSessions,
+  revokeSession,
+  verifyEmail,
+  resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
 } from '../controllers/auth.controller';
 import { authenticate } from '../middlewares/auth.middleware';
-
-
+import { validate } from '../middlewares/validate.middleware';
+import { authRateLimit } from '../middlewares/rateLimit.middleware';
+import {
+  registerUserSchema,
+  loginUserSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  updateProfileSchema,
+  sessionIdParamsSchema,
+} from '../validations/auth.validation';
 
 const router = Router();
 
 /**
  * @route   POST /api/auth/register
- * @desc    Register a new user
+ * @desc    Register a new user (optionally through an admin invitation)
  * @access  Public
  */
-router.post('/register', register);
+router.post('/register', authRateLimit, validate(registerUserSchema), register);
 
 /**
  * @route   POST /api/auth/login
  * @desc    Login user
  * @access  Public
  */
-router.post('/login',  login);
+router.post('/login', authRateLimit, validate(loginUserSchema), login);
 
 /**
  * @route   POST /api/auth/logout
@@ -39,7 +55,54 @@ router.post('/logout', authenticate, logout)
  * @desc    Refresh access token
  * @access  Public
  */
-router.post('/refresh', refreshToken);
+router.post('/refresh', validate(refreshTokenSchema), refreshToken);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify email address with the emailed token
+ * @access  Public
+ */
+router.post('/verify-email', authRateLimit, validate(verifyEmailSchema), verifyEmail);
+
+/**
+ * @route   POST /api/auth/verify-email/resend
+ * @desc    Send a new verification email
+ * @access  Private
+ */
+router.post('/verify-email/resend', authenticate, resendVerificationEmail);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a password reset link
+ * @access  Public
+ */
+router.post('/forgot-password', authRateLimit, validate(forgotPasswordSchema), forgotPassword);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with the emailed token
+ * @access  Public
+ */
+router.post('/reset-password', authRateLimit, validate(resetPasswordSchema), resetPassword);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the user's active sessions
+ * @access  Private
+ */
+router.get('/sessions', authenticate, getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    Revoke one of the user's sessions
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticate,
+  validate(sessionIdParamsSchema, 'params'),
+  revokeSession
+);
 
 /**
  * @route   GET /api/auth/profile
@@ -53,6 +116,6 @@ router.get('/profile', authenticate, getProfile);
  * @desc    Update user profile
  * @access  Private
  */
-router.put('/profile', authenticate, updateProfile);
+router.put('/profile', authenticate, validate(updateProfileSchema), updateProfile);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { getHealth, getReadiness } from '../controllers/health.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /healthz
+ * @desc    Liveness probe
+ * @access  Public
+ */
+router.get('/healthz', getHealth);
+
+/**
+ * @route   GET /readyz
+ * @desc    Readiness probe (MongoDB ping, scheduler, socket server, not shutting down)
+ * @access  Public
+ */
+router.get('/readyz', getReadiness);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getMetrics } from '../controllers/metrics.controller';
+import { requireMetricsToken } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @route   GET /metrics
+ * @desc    Prometheus scrape endpoint (HTTP latency, wheels, joins, eliminations, coins, sockets, transactions)
+ * @access  Private (Bearer METRICS_TOKEN)
+ */
+router.get('/', requireMetricsToken, getMetrics);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { claimDailyReward, getDailyRewardStatus } from '../controllers/reward.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { idempotent } from '../middlewares/idempotency.middleware';
+
+const router = Router();
+
+/**
+ * @route   GET /api/rewards/daily
+ * @desc    Get today's daily reward status and streak
+ * @access  Private
+ */
+router.get('/daily', authenticate, getDailyRewardStatus);
+
+/**
+ * @route   POST /api/rewards/daily
+ * @desc    Claim today's daily reward (once per calendar day)
+ * @access  Private
+ */
+router.post('/daily', authenticate, idempotent, claimDailyReward);
+
+export default router;
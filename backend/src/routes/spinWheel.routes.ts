@@ -1,18 +1,24 @@
 import { Router } from 'express';
 import {
   createSpinWheel,
-  getActiveSpinWheel,
+  getActiveSpinWheels,
   getSpinWheelById,
   joinSpinWheel,
+  leaveSpinWheel,
   startSpinWheel,
   abortSpinWheel,
   getSpinWheelStats,
+  verifySpinWheel,
   getSpinWheelHistory,
   getUserSpinWheels,
   canUserJoin,
+  launchSpinWheelFromTemplate,
 } from '../controllers/spinWheel.controller';
 import { authenticate, authorize } from '../middlewares/auth.middleware';
 import { validate } from '../middlewares/validate.middleware';
+import { idempotent } from '../middlewares/idempotency.middleware';
+import { joinRateLimit } from '../middlewares/rateLimit.middleware';
+import { rejectWhileDraining } from '../middlewares/shutdown.middleware';
 import {
   createSpinWheelSchema,
   joinSpinWheelSchema,
@@ -34,12 +40,24 @@ router.post(
   createSpinWheel
 );
 
+/**
+ * @route   POST /api/spin-wheels/templates/:templateId/launch
+ * @desc    Create a spin wheel from a wheel template (Admin only)
+ * @access  Private (Admin)
+ */
+router.post(
+  '/templates/:templateId/launch',
+  authenticate,
+  authorize('admin'),
+  launchSpinWheelFromTemplate
+);
+
 /**
  * @route   GET /api/spin-wheels/active
- * @desc    Get currently active spin wheel
+ * @desc    List active spin wheels (filters: status, adminId, minEntryFee, maxEntryFee, joinable)
  * @access  Public
  */
-router.get('/active', getActiveSpinWheel);
+router.get('/active', getActiveSpinWheels);
 
 /**
  * @route   GET /api/spin-wheels/history
@@ -69,6 +87,13 @@ router.get('/:spinWheelId', getSpinWheelById);
  */
 router.get('/:spinWheelId/stats', getSpinWheelStats);
 
+/**
+ * @route   GET /api/spin-wheels/:spinWheelId/verify
+ * @desc    Verify provably-fair elimination sequence of a completed spin wheel
+ * @access  Public
+ */
+router.get('/:spinWheelId/verify', verifySpinWheel);
+
 /**
  * @route   GET /api/spin-wheels/:spinWheelId/can-join
  * @desc    Check if user can join spin wheel
@@ -83,11 +108,26 @@ router.get('/:spinWheelId/can-join', authenticate, canUserJoin);
  */
 router.post(
   '/join',
+  rejectWhileDraining,
   authenticate,
+  joinRateLimit,
+  idempotent,
   validate(joinSpinWheelSchema),
   joinSpinWheel
 );
 
+/**
+ * @route   POST /api/spin-wheels/:spinWheelId/leave
+ * @desc    Leave a waiting spin wheel and refund the entry fee
+ * @access  Private
+ */
+router.post(
+  '/:spinWheelId/leave',
+  authenticate,
+  idempotent,
+  leaveSpinWheel
+);
+
 /**
  * @route   POST /api/spin-wheels/:spinWheelId/start
  * @desc    Start spin wheel manually (Admin only)
@@ -109,6 +149,7 @@ router.post(
   '/:spinWheelId/abort',
   authenticate,
   authorize('admin'),
+  idempotent,
   abortSpinWheel
 );
 
@@ -10,6 +10,7 @@ import {
 import { authenticate, authorize } from '../middlewares/auth.middleware';
 import Joi from 'joi';
 import { validate } from '../middlewares/validate.middleware';
+import { idempotent } from '../middlewares/idempotency.middleware';
 
 const router = Router();
 
@@ -28,8 +29,10 @@ const addCoinsSchema = Joi.object({
     'number.min': 'Amount must be at least 1',
     'any.required': 'Amount is required',
   }),
-  reason: Joi.string().max(200).messages({
+  reason: Joi.string().trim().min(3).max(200).required().messages({
+    'string.min': 'Reason must be at least 3 characters',
     'string.max': 'Reason cannot exceed 200 characters',
+    'any.required': 'A reason is required for coin adjustments',
   }),
 });
 
@@ -83,6 +86,7 @@ router.post(
   '/:userId/add-coins',
   authenticate,
   authorize('admin'),
+  idempotent,
   validate(addCoinsSchema),
   addCoinsToUser
 );
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { transferCoins, getTransferLimits } from '../controllers/wallet.controller';
+import { authenticate } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { idempotent } from '../middlewares/idempotency.middleware';
+import { transferRateLimit } from '../middlewares/rateLimit.middleware';
+import { transferSchema } from '../validations/wallet.validator';
+
+const router = Router();
+
+/**
+ * @route   POST /api/wallet/transfer
+ * @desc    Send coins to another user (by user ID or email)
+ * @access  Private
+ */
+router.post(
+  '/transfer',
+  authenticate,
+  transferRateLimit,
+  idempotent,
+  validate(transferSchema),
+  transferCoins
+);
+
+/**
+ * @route   GET /api/wallet/transfer/limits
+ * @desc    Get transfer limits and today's usage
+ * @access  Private
+ */
+router.get('/transfer/limits', authenticate, getTransferLimits);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import {
+  createWheelTemplate,
+  listWheelTemplates,
+  getWheelTemplate,
+  updateWheelTemplate,
+  deactivateWheelTemplate,
+} from '../controllers/wheelTemplate.controller';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import {
+  createWheelTemplateSchema,
+  updateWheelTemplateSchema,
+} from '../validations/wheelTemplate.validator';
+
+const router = Router();
+
+/**
+ * @route   POST /api/wheel-templates
+ * @desc    Create a wheel template
+ * @access  Private (Admin)
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('admin'),
+  validate(createWheelTemplateSchema),
+  createWheelTemplate
+);
+
+/**
+ * @route   GET /api/wheel-templates
+ * @desc    List wheel templates (includeInactive=true to include deactivated ones)
+ * @access  Private (Admin)
+ */
+router.get('/', authenticate, authorize('admin'), listWheelTemplates);
+
+/**
+ * @route   GET /api/wheel-templates/:templateId
+ * @desc    Get wheel template by ID
+ * @access  Private (Admin)
+ */
+router.get('/:templateId', authenticate, authorize('admin'), getWheelTemplate);
+
+/**
+ * @route   PUT /api/wheel-templates/:templateId
+ * @desc    Update a wheel template
+ * @access  Private (Admin)
+ */
+router.put(
+  '/:templateId',
+  authenticate,
+  authorize('admin'),
+  validate(updateWheelTemplateSchema),
+  updateWheelTemplate
+);
+
+/**
+ * @route   DELETE /api/wheel-templates/:templateId
+ * @desc    Deactivate a wheel template
+ * @access  Private (Admin)
+ */
+router.delete('/:templateId', authenticate, authorize('admin'), deactivateWheelTemplate);
+
+export default router;
@@ -6,6 +6,11 @@ import connectDB from './config/database.config';
 import logger from './utils/logger';
 import { initializeSocketServer } from './config/socket.config';
 import { getScheduler } from './services/scheduler.service';
+import { getReconciliationJob } from './services/reconciliation.service';
+import { getConfigService } from './services/config.service';
+import { applyLogLevels } from './utils/logger';
+import { getShutdownManager } from './services/shutdown.service';
+import mongoose from 'mongoose';
 import path from 'path';
 import fs from 'fs';
 
@@ -19,11 +24,29 @@ if (!fs.existsSync(logsDir)) {
 
 
 const PORT = process.env.PORT || 4000;
+// How long running wheel steps get to finish before they are handed off
+const SHUTDOWN_DRAIN_TIMEOUT = parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT || '15000');
+// Hard limit for the whole shutdown sequence
+const SHUTDOWN_TIMEOUT = parseInt(process.env.SHUTDOWN_TIMEOUT || '30000');
 
 
 
 async function start() {
 await connectDB();
+
+// Log levels set through the admin API survive restarts and reach every instance
+const configService = getConfigService();
+applyLogLevels(await configService.get('LOG_LEVELS'));
+configService.onChange((change) => {
+  if (change.key === 'LOG_LEVELS') {
+    applyLogLevels(change.value);
+  }
+});
+// Reading refreshes the cache once it is stale, which notifies changes made elsewhere
+const configRefresh = setInterval(() => {
+  configService.get('LOG_LEVELS').catch((error) => logger.error('Config refresh failed:', error));
+}, parseInt(process.env.CONFIG_CACHE_TTL || '30000')).unref();
+
 const server = http.createServer(app);
 // Initialize Socket.io
 const socketServer = initializeSocketServer(server);
@@ -34,10 +57,54 @@ const scheduler = getScheduler();
 scheduler.initialize();
 logger.info('Spin wheel scheduler initialized');
 
+// Initialize ledger reconciliation
+getReconciliationJob().initialize();
+logger.info('Ledger reconciliation job initialized');
+
 
 server.listen(PORT, () => {
 console.log(`Server running on port ${PORT}`);
 });
+
+// Graceful shutdown, in order. Joins are refused and /readyz fails as soon as it starts.
+const shutdownManager = getShutdownManager();
+shutdownManager.addStep('stop scheduler', () => scheduler.stopAll(SHUTDOWN_DRAIN_TIMEOUT));
+shutdownManager.addStep('stop background jobs', () => {
+  getReconciliationJob().stop();
+  clearInterval(configRefresh);
+});
+shutdownManager.addStep('notify clients', () => socketServer.notifyShutdown());
+shutdownManager.addStep('close servers', async () => {
+  const httpClosed = closeHttpServer(server);
+  // Upgraded websocket connections keep the http server open until the sockets go
+  await socketServer.close();
+  await httpClosed;
+});
+shutdownManager.addStep('close database', () => mongoose.connection.close());
+
+const onSignal = (signal: NodeJS.Signals) => {
+  // Last resort if a step hangs
+  setTimeout(() => {
+    logger.error(`Shutdown did not finish within ${SHUTDOWN_TIMEOUT}ms, exiting`);
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT).unref();
+
+  shutdownManager.shutdown(signal).then(() => process.exit(0));
+};
+
+process.once('SIGTERM', onSignal);
+process.once('SIGINT', onSignal);
+}
+
+/**
+ * Stop accepting connections and wait for in-flight requests (and their transactions)
+ */
+function closeHttpServer(server: http.Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    // Keep-alive connections with no request in flight would otherwise hold close() open
+    server.closeIdleConnections();
+  });
 }
 
 
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import AccountToken, { AccountTokenPurpose } from '../models/account_token.models';
+import { ValidationError } from '../utils/apiResponse';
+import { generateActionToken, verifyActionToken } from '../utils/jwt';
+
+const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  [AccountTokenPurpose.EMAIL_VERIFICATION]: parseInt(process.env.EMAIL_VERIFICATION_TTL || '86400000'),
+  [AccountTokenPurpose.PASSWORD_RESET]: parseInt(process.env.PASSWORD_RESET_TTL || '3600000'),
+};
+
+export class AccountTokenService {
+  /**
+   * Issue a signed, expiring, single-use token. Earlier unused tokens
+   * for the same purpose stop working.
+   * @param userId - User ID
+   * @param purpose - What the token may be used for
+   * @returns Signed token
+   */
+  static async issue(userId: Types.ObjectId, purpose: AccountTokenPurpose): Promise<string> {
+    const ttlMs = TOKEN_TTL_MS[purpose];
+    const jti = crypto.randomUUID();
+
+    await AccountToken.updateMany(
+      { userId, purpose, usedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } }
+    );
+
+    await AccountToken.create({
+      jti,
+      userId,
+      purpose,
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+
+    return generateActionToken(userId, purpose, jti, ttlMs);
+  }
+
+  /**
+   * Verify a token and mark it used
+   * @param token - Signed token
+   * @param purpose - Expected purpose
+   * @returns ID of the user the token was issued to
+   */
+  static async consume(token: string, purpose: AccountTokenPurpose): Promise<string> {
+    let payload: ReturnType<typeof verifyActionToken>;
+    try {
+      payload = verifyActionToken(token, purpose);
+    } catch {
+      throw new ValidationError('Invalid or expired token');
+    }
+
+    const record = await AccountToken.findOneAndUpdate(
+      {
+        jti: payload.jti,
+        userId: payload.userId,
+        purpose,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { usedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!record) {
+      throw new ValidationError('Token has already been used or has expired');
+    }
+
+    return payload.userId;
+  }
+}
+
+export default AccountTokenService;
@@ -0,0 +1,549 @@
+import mongoose, { ClientSession, Types } from 'mongoose';
+import User, { IUser } from '../models/user.models';
+import Transaction, { ITransaction, TransactionType } from '../models/transaction.models';
+import CoinAdjustment, {
+  CoinAdjustmentStatus,
+  CoinAdjustmentType,
+  ICoinAdjustment,
+} from '../models/coin_adjustment.models';
+import { CoinLedger } from '../models/coin_ledger.models';
+import { AuditAction } from '../models/audit_log.models';
+import { AuditService } from './audit.service';
+import { getConfigService } from './config.service';
+import { LedgerPosting, LedgerService, SystemAccount } from './ledger.service';
+import { WalletService } from './wallet.service';
+import {
+  AuthorizationError,
+  ConflictError,
+  InsufficientCoinsError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/apiResponse';
+import logger, { loggers } from '../utils/logger';
+import { runTransaction } from '../utils/db';
+
+const TRANSACTION_TYPES: Record<CoinAdjustmentType, TransactionType> = {
+  [CoinAdjustmentType.CREDIT]: TransactionType.ADMIN_CREDIT,
+  [CoinAdjustmentType.DEBIT]: TransactionType.ADMIN_DEBIT,
+  [CoinAdjustmentType.REVERSAL]: TransactionType.REVERSAL,
+};
+
+// Reversing these would move coins between two users or undo an undo
+const IRREVERSIBLE_TYPES = [TransactionType.TRANSFER_IN, TransactionType.TRANSFER_OUT, TransactionType.REVERSAL];
+
+type AdjustmentDraft = Pick<
+  ICoinAdjustment,
+  'type' | 'userId' | 'amount' | 'reason' | 'requestedBy' | 'requestedByName' | 'originalTransactionId'
+>;
+
+export interface AdjustmentResult {
+  adjustment: ICoinAdjustment;
+  transaction?: ITransaction;  // Unset while the adjustment waits for approval
+  user?: IUser;
+}
+
+export interface AdjustmentFilter {
+  status?: CoinAdjustmentStatus;
+  userId?: string;
+}
+
+export class AdjustmentService {
+  /**
+   * Credit or debit a user's wallet
+   * @param actor - Admin making the adjustment
+   * @param userId - User whose coins change
+   * @param type - Credit or debit
+   * @param amount - Whole coins, always positive
+   * @param reason - Why the coins change (required)
+   * @param ipAddress - Optional client IP for the audit record
+   * @returns The adjustment, applied or waiting for approval
+   */
+  static async adjust(
+    actor: IUser,
+    userId: string,
+    type: CoinAdjustmentType.CREDIT | CoinAdjustmentType.DEBIT,
+    amount: number,
+    reason: string,
+    ipAddress?: string
+  ): Promise<AdjustmentResult> {
+    if (!mongoose.isValidObjectId(userId)) {
+      throw new NotFoundError('User');
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (type === CoinAdjustmentType.DEBIT && WalletService.getBalance(user).available < amount) {
+      throw new InsufficientCoinsError(amount, WalletService.getBalance(user).available);
+    }
+
+    return this.submit(
+      actor,
+      user,
+      {
+        type,
+        userId: user._id,
+        amount: type === CoinAdjustmentType.DEBIT ? -amount : amount,
+        reason,
+        requestedBy: actor._id,
+        requestedByName: actor.name,
+      },
+      ipAddress
+    );
+  }
+
+  /**
+   * Undo a past transaction by applying its opposite amount
+   * @param actor - Admin requesting the reversal
+   * @param transactionId - Transaction to reverse
+   * @param reason - Why it is reversed (required)
+   * @param ipAddress - Optional client IP for the audit record
+   * @returns The reversal, applied or waiting for approval
+   */
+  static async reverse(
+    actor: IUser,
+    transactionId: string,
+    reason: string,
+    ipAddress?: string
+  ): Promise<AdjustmentResult> {
+    if (!mongoose.isValidObjectId(transactionId)) {
+      throw new NotFoundError('Transaction');
+    }
+
+    const original = await Transaction.findById(transactionId);
+
+    if (!original) {
+      throw new NotFoundError('Transaction');
+    }
+
+    if (IRREVERSIBLE_TYPES.includes(original.type)) {
+      throw new ValidationError(`${original.type} transactions cannot be reversed; adjust each wallet instead`);
+    }
+
+    if (original.amount === 0) {
+      throw new ValidationError('Transaction has no amount to reverse');
+    }
+
+    const alreadyReversed = original.metadata?.reversedBy || await CoinAdjustment.exists({
+      originalTransactionId: original._id,
+      status: { $in: [CoinAdjustmentStatus.PENDING, CoinAdjustmentStatus.APPLIED] },
+    });
+
+    if (alreadyReversed) {
+      throw new ConflictError('Transaction has already been reversed or has a pending reversal');
+    }
+
+    const user = await User.findById(original.userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    return this.submit(
+      actor,
+      user,
+      {
+        type: CoinAdjustmentType.REVERSAL,
+        userId: user._id,
+        amount: -original.amount,
+        reason,
+        requestedBy: actor._id,
+        requestedByName: actor.name,
+        originalTransactionId: original._id,
+      },
+      ipAddress
+    );
+  }
+
+  /**
+   * Approve and apply a pending adjustment. The approver must not be the
+   * admin who requested it.
+   * @param actor - Approving admin
+   * @param adjustmentId - Adjustment ID
+   * @param ipAddress - Optional client IP for the audit record
+   * @returns The applied adjustment
+   */
+  static async approve(actor: IUser, adjustmentId: string, ipAddress?: string): Promise<AdjustmentResult> {
+    const pending = await this.findPending(adjustmentId);
+
+    if (pending.requestedBy.equals(actor._id)) {
+      throw new AuthorizationError('A second admin must approve this adjustment');
+    }
+
+    const session = await mongoose.startSession();
+    try {
+      const result = await runTransaction(session, 'adjustment.approve', async () => {
+        const adjustment = await CoinAdjustment.findOneAndUpdate(
+          { _id: pending._id, status: CoinAdjustmentStatus.PENDING },
+          { $set: { reviewedBy: actor._id, reviewedByName: actor.name, reviewedAt: new Date() } },
+          { new: true, session }
+        );
+
+        if (!adjustment) {
+          throw new ConflictError('Adjustment is no longer pending');
+        }
+
+        return this.apply(adjustment, ipAddress, session);
+      });
+
+      this.logApplied(result);
+      return result;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Reject a pending adjustment; nothing is applied
+   * @param actor - Reviewing admin (may be the requester, to withdraw it)
+   * @param adjustmentId - Adjustment ID
+   * @param reason - Why it was rejected
+   * @param ipAddress - Optional client IP for the audit record
+   * @returns The rejected adjustment
+   */
+  static async reject(
+    actor: IUser,
+    adjustmentId: string,
+    reason: string,
+    ipAddress?: string
+  ): Promise<ICoinAdjustment> {
+    const pending = await this.findPending(adjustmentId);
+    const user = await User.findById(pending.userId);
+
+    const session = await mongoose.startSession();
+    try {
+      const adjustment = await runTransaction(session, 'adjustment.reject', async () => {
+        const rejected = await CoinAdjustment.findOneAndUpdate(
+          { _id: pending._id, status: CoinAdjustmentStatus.PENDING },
+          {
+            $set: {
+              status: CoinAdjustmentStatus.REJECTED,
+              reviewedBy: actor._id,
+              reviewedByName: actor.name,
+              reviewedAt: new Date(),
+              rejectionReason: reason,
+            },
+          },
+          { new: true, session }
+        );
+
+        if (!rejected) {
+          throw new ConflictError('Adjustment is no longer pending');
+        }
+
+        await AuditService.record(
+          {
+            action: AuditAction.ADJUSTMENT_REJECTED,
+            actorId: actor._id,
+            actorName: actor.name,
+            targetUserId: rejected.userId,
+            targetEmail: user?.email || 'unknown',
+            reason,
+            metadata: { adjustmentId: rejected._id, type: rejected.type, amount: rejected.amount },
+            ipAddress,
+          },
+          session
+        );
+
+        return rejected;
+      });
+
+      logger.info(`Admin ${actor._id} rejected coin adjustment ${adjustment._id}`);
+      return adjustment;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * List adjustments, newest first
+   * @param filter - Optional status and user filters
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   */
+  static async list(
+    filter: AdjustmentFilter,
+    page: number,
+    limit: number
+  ): Promise<{ adjustments: ICoinAdjustment[]; total: number }> {
+    const query: any = {};
+    if (filter.status) {
+      query.status = filter.status;
+    }
+    if (filter.userId && mongoose.isValidObjectId(filter.userId)) {
+      query.userId = filter.userId;
+    }
+
+    const [adjustments, total] = await Promise.all([
+      CoinAdjustment.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      CoinAdjustment.countDocuments(query),
+    ]);
+
+    return { adjustments, total };
+  }
+
+  /**
+   * Helper: Apply an adjustment at or under the approval threshold right away,
+   * otherwise store it as pending for a second admin
+   */
+  private static async submit(
+    actor: IUser,
+    user: IUser,
+    fields: AdjustmentDraft,
+    ipAddress?: string
+  ): Promise<AdjustmentResult> {
+    const threshold: number = await getConfigService().get('ADJUSTMENT_APPROVAL_THRESHOLD');
+    const needsApproval = Math.abs(fields.amount) > threshold;
+
+    const session = await mongoose.startSession();
+    try {
+      const result = await runTransaction(session, 'adjustment.submit', async () => {
+        const [draft] = await CoinAdjustment.create([fields], { session });
+
+        if (!needsApproval) {
+          return this.apply(draft, ipAddress, session);
+        }
+
+        await AuditService.record(
+          {
+            action: AuditAction.ADJUSTMENT_REQUESTED,
+            actorId: actor._id,
+            actorName: actor.name,
+            targetUserId: user._id,
+            targetEmail: user.email,
+            reason: draft.reason,
+            metadata: {
+              adjustmentId: draft._id,
+              type: draft.type,
+              amount: draft.amount,
+              originalTransactionId: draft.originalTransactionId,
+              threshold,
+            },
+            ipAddress,
+          },
+          session
+        );
+
+        return { adjustment: draft };
+      });
+
+      if (result.transaction) {
+        this.logApplied(result);
+      } else {
+        logger.info(
+          `Admin ${actor._id} requested a ${fields.type} of ${fields.amount} coins for user ${user._id}; awaiting approval`
+        );
+      }
+
+      return result;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Helper: Change the wallet, write the transaction and ledger postings,
+   * and mark the adjustment applied. Runs inside the caller's transaction.
+   */
+  private static async apply(
+    adjustment: ICoinAdjustment,
+    ipAddress: string | undefined,
+    session: ClientSession
+  ): Promise<AdjustmentResult> {
+    const { amount } = adjustment;
+
+    // Debits may only take coins that are not held by open spin wheel entries
+    const user = await User.findOneAndUpdate(
+      amount < 0
+        ? {
+            _id: adjustment.userId,
+            $expr: { $gte: [{ $subtract: ['$coins', { $ifNull: ['$heldCoins', 0] }] }, -amount] },
+          }
+        : { _id: adjustment.userId },
+      { $inc: { coins: amount } },
+      { new: true, session }
+    );
+
+    if (!user) {
+      const current = await User.findById(adjustment.userId).session(session);
+      if (!current) {
+        throw new NotFoundError('User');
+      }
+      throw new InsufficientCoinsError(-amount, WalletService.getBalance(current).available);
+    }
+
+    const balanceBefore = user.coins - amount;
+    await LedgerService.ensureUserAccount(user._id, balanceBefore, session);
+
+    const transaction = new Transaction({
+      userId: user._id,
+      name: user.name,
+      type: TRANSACTION_TYPES[adjustment.type],
+      amount,
+      balanceBefore,
+      balanceAfter: user.coins,
+      description: adjustment.reason,
+      metadata: {
+        reason: adjustment.reason,
+        adjustmentId: adjustment._id,
+        actorId: adjustment.requestedBy,
+        actorName: adjustment.requestedByName,
+        approvedBy: adjustment.reviewedBy,
+        approvedByName: adjustment.reviewedByName,
+        reversalOf: adjustment.originalTransactionId,
+      },
+    });
+
+    await transaction.save({ session });
+
+    let postings: LedgerPosting[] = [this.issuancePosting(user._id, amount)];
+
+    if (adjustment.originalTransactionId) {
+      // Only one reversal may ever land on a transaction
+      const marked = await Transaction.updateOne(
+        { _id: adjustment.originalTransactionId, 'metadata.reversedBy': { $exists: false } },
+        { $set: { 'metadata.reversedBy': transaction._id } },
+        { session }
+      );
+
+      if (marked.modifiedCount === 0) {
+        throw new ConflictError('Transaction has already been reversed');
+      }
+
+      postings = await this.reversalPostings(adjustment.originalTransactionId, user._id, amount, session);
+    }
+
+    await LedgerService.postMany(
+      postings.map((posting) => ({
+        ...posting,
+        transactionId: transaction._id,
+        description: `Admin ${adjustment.type}: ${adjustment.reason}`,
+      })),
+      session
+    );
+
+    adjustment.status = CoinAdjustmentStatus.APPLIED;
+    adjustment.transactionId = transaction._id;
+    adjustment.appliedAt = new Date();
+    await adjustment.save({ session });
+
+    await AuditService.record(
+      {
+        action: AuditAction.COINS_ADJUSTED,
+        actorId: adjustment.reviewedBy || adjustment.requestedBy,
+        actorName: adjustment.reviewedByName || adjustment.requestedByName,
+        targetUserId: user._id,
+        targetEmail: user.email,
+        reason: adjustment.reason,
+        metadata: {
+          adjustmentId: adjustment._id,
+          type: adjustment.type,
+          amount,
+          transactionId: transaction._id,
+          requestedBy: adjustment.requestedBy,
+          approvedBy: adjustment.reviewedBy,
+          originalTransactionId: adjustment.originalTransactionId,
+        },
+        ipAddress,
+      },
+      session
+    );
+
+    return { adjustment, transaction, user };
+  }
+
+  /**
+   * Helper: Credits come from coin issuance and debits go back to it
+   */
+  private static issuancePosting(userId: Types.ObjectId, amount: number): LedgerPosting {
+    const issuance = LedgerService.systemAccount(SystemAccount.COIN_ISSUANCE);
+    const userAccount = LedgerService.userAccount(userId);
+
+    return amount > 0
+      ? { from: issuance, to: userAccount, amount }
+      : { from: userAccount, to: issuance, amount: -amount };
+  }
+
+  /**
+   * Helper: Mirror the original transaction's postings so the coins return
+   * to the pools they came from. Transactions written before the ledger
+   * (or whose postings do not add up) fall back to coin issuance.
+   */
+  private static async reversalPostings(
+    originalTransactionId: Types.ObjectId,
+    userId: Types.ObjectId,
+    amount: number,
+    session: ClientSession
+  ): Promise<LedgerPosting[]> {
+    const userAccount = LedgerService.userAccount(userId);
+    const entries = await CoinLedger.find({ transactionId: originalTransactionId }).session(session);
+
+    const journals = new Map<string, LedgerPosting>();
+    entries.forEach((entry) => {
+      const journal = journals.get(entry.journalId.toString()) || { from: '', to: '', amount: 0 };
+      if (entry.debit > 0) {
+        journal.from = entry.account;
+        journal.amount = entry.debit;
+      } else {
+        journal.to = entry.account;
+      }
+      journals.set(entry.journalId.toString(), journal);
+    });
+
+    const postings = [...journals.values()]
+      .filter((journal) => journal.from === userAccount || journal.to === userAccount)
+      .map((journal) => ({ from: journal.to, to: journal.from, amount: journal.amount }));
+
+    const net = postings.reduce(
+      (sum, posting) => sum + (posting.to === userAccount ? posting.amount : -posting.amount),
+      0
+    );
+
+    return postings.length > 0 && net === amount ? postings : [this.issuancePosting(userId, amount)];
+  }
+
+  /**
+   * Helper: Load a pending adjustment or fail
+   */
+  private static async findPending(adjustmentId: string): Promise<ICoinAdjustment> {
+    if (!mongoose.isValidObjectId(adjustmentId)) {
+      throw new NotFoundError('Adjustment');
+    }
+
+    const adjustment = await CoinAdjustment.findById(adjustmentId);
+
+    if (!adjustment) {
+      throw new NotFoundError('Adjustment');
+    }
+
+    if (adjustment.status !== CoinAdjustmentStatus.PENDING) {
+      throw new ConflictError(`Adjustment is already ${adjustment.status}`);
+    }
+
+    return adjustment;
+  }
+
+  /**
+   * Helper: Log an applied adjustment
+   */
+  private static logApplied(result: AdjustmentResult): void {
+    const { adjustment, user } = result;
+
+    loggers.transaction(`Admin ${adjustment.type}`, adjustment.userId.toString(), adjustment.amount, {
+      adjustmentId: adjustment._id.toString(),
+      requestedBy: adjustment.requestedBy.toString(),
+      approvedBy: adjustment.reviewedBy?.toString(),
+      originalTransactionId: adjustment.originalTransactionId?.toString(),
+      reason: adjustment.reason,
+      newBalance: user?.coins,
+    });
+  }
+}
+
+export default AdjustmentService;
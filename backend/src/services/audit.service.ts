@@ -0,0 +1,68 @@
+import mongoose, { ClientSession } from 'mongoose';
+import AuditLog, { AuditAction, IAuditLog } from '../models/audit_log.models';
+
+export interface AuditEntry {
+  action: AuditAction;
+  actorId: mongoose.Types.ObjectId;
+  actorName: string;
+  targetUserId?: mongoose.Types.ObjectId;
+  targetEmail: string;
+  previousRole?: 'admin' | 'user';
+  newRole?: 'admin' | 'user';
+  reason?: string;
+  metadata?: Record<string, any>;
+  ipAddress?: string;
+}
+
+export interface AuditLogFilter {
+  action?: AuditAction;
+  actorId?: string;
+  targetUserId?: string;
+}
+
+export class AuditService {
+  /**
+   * Append an audit record, inside the caller's transaction when given
+   * @param entry - What happened, who did it and to whom
+   * @param session - Optional MongoDB session
+   */
+  static async record(entry: AuditEntry, session?: ClientSession): Promise<IAuditLog> {
+    const [log] = await AuditLog.create([entry], { session });
+    return log;
+  }
+
+  /**
+   * List audit records, newest first
+   * @param filter - Optional action, actor and target filters
+   * @param page - Page number (1-based)
+   * @param limit - Page size
+   */
+  static async list(
+    filter: AuditLogFilter,
+    page: number,
+    limit: number
+  ): Promise<{ logs: IAuditLog[]; total: number }> {
+    const query: any = {};
+    if (filter.action) {
+      query.action = filter.action;
+    }
+    if (filter.actorId && mongoose.isValidObjectId(filter.actorId)) {
+      query.actorId = filter.actorId;
+    }
+    if (filter.targetUserId && mongoose.isValidObjectId(filter.targetUserId)) {
+      query.targetUserId = filter.targetUserId;
+    }
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(query)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuditLog.countDocuments(query),
+    ]);
+
+    return { logs, total };
+  }
+}
+
+export default AuditService;
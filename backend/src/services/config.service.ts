@@ -0,0 +1,365 @@
+import { EventEmitter } from 'events';
+import Config, { IConfig } from '../models/config.models';
+import { ValidationError } from '../utils/apiResponse';
+import logger from '../utils/logger';
+
+export type ConfigValueType = IConfig['type'];
+
+export interface ConfigDefinition {
+  type: ConfigValueType;
+  default: any;
+  description: string;
+}
+
+export interface ConfigChange {
+  key: string;
+  value: any;
+  previousValue: any;
+}
+
+/**
+ * Known runtime settings. Values in the Config collection override these;
+ * the defaults still honour the legacy environment variables.
+ */
+export const CONFIG_DEFINITIONS: Record<string, ConfigDefinition> = {
+  WINNER_POOL_PERCENTAGE: {
+    type: 'number',
+    default: parseInt(process.env.WINNER_POOL_PERCENTAGE || '70'),
+    description: 'Default share of entry fees paid to winners (%)',
+  },
+  ADMIN_POOL_PERCENTAGE: {
+    type: 'number',
+    default: parseInt(process.env.ADMIN_POOL_PERCENTAGE || '20'),
+    description: 'Default share of entry fees paid to the wheel admin (%)',
+  },
+  APP_POOL_PERCENTAGE: {
+    type: 'number',
+    default: parseInt(process.env.APP_POOL_PERCENTAGE || '10'),
+    description: 'Default share of entry fees kept by the app (%)',
+  },
+  AUTO_START_TIMEOUT: {
+    type: 'number',
+    default: parseInt(process.env.AUTO_START_TIMEOUT || '180000'),
+    description: 'Default delay before a waiting wheel auto-starts (ms)',
+  },
+  ELIMINATION_INTERVAL: {
+    type: 'number',
+    default: parseInt(process.env.ELIMINATION_INTERVAL || '7000'),
+    description: 'Default interval between eliminations (ms)',
+  },
+  MIN_PARTICIPANTS: {
+    type: 'number',
+    default: parseInt(process.env.MIN_PARTICIPANTS || '3'),
+    description: 'Default minimum participants required to start',
+  },
+  LEAVE_CUTOFF_WINDOW: {
+    type: 'number',
+    default: parseInt(process.env.LEAVE_CUTOFF_WINDOW || '30000'),
+    description: 'Leaving is blocked this long before a wheel auto-starts (ms)',
+  },
+  // Bounds for per-wheel overrides supplied at creation
+  WINNER_POOL_PERCENTAGE_MIN: {
+    type: 'number',
+    default: 50,
+    description: 'Lowest winner pool share an admin may set (%)',
+  },
+  ADMIN_POOL_PERCENTAGE_MAX: {
+    type: 'number',
+    default: 30,
+    description: 'Highest admin pool share an admin may set (%)',
+  },
+  APP_POOL_PERCENTAGE_MIN: {
+    type: 'number',
+    default: 5,
+    description: 'Lowest app pool share an admin may set (%)',
+  },
+  AUTO_START_TIMEOUT_MIN: {
+    type: 'number',
+    default: 30000,
+    description: 'Shortest auto-start delay an admin may set (ms)',
+  },
+  AUTO_START_TIMEOUT_MAX: {
+    type: 'number',
+    default: 3600000,
+    description: 'Longest auto-start delay an admin may set (ms)',
+  },
+  ELIMINATION_INTERVAL_MIN: {
+    type: 'number',
+    default: 2000,
+    description: 'Shortest elimination interval an admin may set (ms)',
+  },
+  ELIMINATION_INTERVAL_MAX: {
+    type: 'number',
+    default: 60000,
+    description: 'Longest elimination interval an admin may set (ms)',
+  },
+  MIN_PARTICIPANTS_FLOOR: {
+    type: 'number',
+    default: 3,
+    description: 'Smallest minimum participant count an admin may set',
+  },
+  MAX_ACTIVE_SPIN_WHEELS: {
+    type: 'number',
+    default: parseInt(process.env.MAX_ACTIVE_SPIN_WHEELS || '50'),
+    description: 'Maximum active spin wheels across all admins',
+  },
+  MAX_ACTIVE_SPIN_WHEELS_PER_ADMIN: {
+    type: 'number',
+    default: parseInt(process.env.MAX_ACTIVE_SPIN_WHEELS_PER_ADMIN || '5'),
+    description: 'Maximum active spin wheels per admin',
+  },
+  TRANSFER_MAX_AMOUNT: {
+    type: 'number',
+    default: parseInt(process.env.TRANSFER_MAX_AMOUNT || '1000'),
+    description: 'Most coins a single transfer may send',
+  },
+  TRANSFER_DAILY_LIMIT: {
+    type: 'number',
+    default: parseInt(process.env.TRANSFER_DAILY_LIMIT || '5000'),
+    description: 'Most coins a user may send in any 24 hours',
+  },
+  TRANSFER_DAILY_COUNT: {
+    type: 'number',
+    default: parseInt(process.env.TRANSFER_DAILY_COUNT || '20'),
+    description: 'Most transfers a user may send in any 24 hours',
+  },
+  TRANSFER_FLAG_BALANCE_SHARE: {
+    type: 'number',
+    default: 90,
+    description: 'Flag transfers that send at least this share of the sender\'s available balance (%)',
+  },
+  TRANSFER_FLAG_FAN_IN: {
+    type: 'number',
+    default: 5,
+    description: 'Flag transfers to a user who received from this many different senders in 24 hours',
+  },
+  TRANSFER_FLAG_ACCOUNT_AGE: {
+    type: 'number',
+    default: 86400000,
+    description: 'Flag transfers from accounts younger than this (ms)',
+  },
+  ADJUSTMENT_APPROVAL_THRESHOLD: {
+    type: 'number',
+    default: parseInt(process.env.ADJUSTMENT_APPROVAL_THRESHOLD || '1000'),
+    description: 'Admin coin adjustments above this many coins need a second admin to approve',
+  },
+  DAILY_REWARD_TABLE: {
+    type: 'object',
+    default: {
+      baseAmount: 50,
+      streakMultipliers: [1, 1, 1.5, 1.5, 2, 2, 3],
+      maxAmount: 200,
+    },
+    description: 'Daily reward: baseAmount coins times the multiplier for the streak day (the last one repeats), capped at maxAmount',
+  },
+  DAILY_REWARD_TIMEZONE: {
+    type: 'string',
+    default: process.env.DAILY_REWARD_TIMEZONE || 'UTC',
+    description: 'IANA time zone whose calendar days limit daily reward claims',
+  },
+  LOG_LEVELS: {
+    type: 'object',
+    default: {},
+    description: 'Log level overrides by domain (default, spinWheel, transaction, socket)',
+  },
+};
+
+export class ConfigService extends EventEmitter {
+  private cache: Map<string, IConfig> = new Map();
+  private loadedAt = 0;
+  private hasLoaded = false;
+  private loading: Promise<void> | null = null;
+  private readonly cacheTtlMs = parseInt(process.env.CONFIG_CACHE_TTL || '30000');
+
+  /**
+   * Get a config value, falling back to its declared default
+   * @param key - Config key
+   * @param fallback - Fallback for keys without a definition
+   * @returns Config value
+   */
+  public async get<T = any>(key: string, fallback?: T): Promise<T> {
+    await this.ensureFresh();
+
+    const normalizedKey = key.toUpperCase();
+    const config = this.cache.get(normalizedKey);
+
+    if (config) {
+      return config.value as T;
+    }
+
+    const definition = CONFIG_DEFINITIONS[normalizedKey];
+    return (definition ? definition.default : fallback) as T;
+  }
+
+  /**
+   * Get several config values at once
+   * @param keys - Config keys
+   * @returns Map of key to value
+   */
+  public async getMany<K extends string>(keys: K[]): Promise<Record<K, any>> {
+    const values = {} as Record<K, any>;
+    for (const key of keys) {
+      values[key] = await this.get(key);
+    }
+    return values;
+  }
+
+  /**
+   * Create or update a config value after validating it against its type
+   * @param key - Config key
+   * @param value - New value
+   * @param type - Declared type (required for keys that are neither defined nor stored)
+   * @param description - Optional description
+   * @returns Saved config
+   */
+  public async set(
+    key: string,
+    value: any,
+    type?: ConfigValueType,
+    description?: string
+  ): Promise<IConfig> {
+    const normalizedKey = key.toUpperCase();
+    const existing = await Config.findOne({ key: normalizedKey });
+    const definition = CONFIG_DEFINITIONS[normalizedKey];
+    const declaredType = definition?.type || existing?.type || type;
+
+    if (!declaredType) {
+      throw new ValidationError(`Type is required for new config key ${normalizedKey}`);
+    }
+
+    if (type && type !== declaredType) {
+      throw new ValidationError(`Config ${normalizedKey} is declared as ${declaredType}, not ${type}`);
+    }
+
+    ConfigService.validateValue(normalizedKey, declaredType, value);
+
+    const config = await Config.findOneAndUpdate(
+      { key: normalizedKey },
+      {
+        value,
+        type: declaredType,
+        description: description ?? existing?.description ?? definition?.description,
+        isActive: true,
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    const previousValue = existing?.value ?? definition?.default;
+    this.cache.set(normalizedKey, config);
+    this.emitChange({ key: normalizedKey, value, previousValue });
+
+    return config;
+  }
+
+  /**
+   * Subscribe to config changes
+   * @param listener - Called with every change
+   */
+  public onChange(listener: (change: ConfigChange) => void): void {
+    this.on('change', listener);
+  }
+
+  /**
+   * Drop the cache so the next read hits the database
+   */
+  public invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  /**
+   * Validate a value against a declared config type
+   * @param key - Config key (for error messages)
+   * @param type - Declared type
+   * @param value - Value to validate
+   */
+  static validateValue(key: string, type: ConfigValueType, value: any): void {
+    const valid =
+      (type === 'string' && typeof value === 'string') ||
+      (type === 'number' && typeof value === 'number' && Number.isFinite(value)) ||
+      (type === 'boolean' && typeof value === 'boolean') ||
+      (type === 'array' && Array.isArray(value)) ||
+      (type === 'object' && value !== null && typeof value === 'object' && !Array.isArray(value));
+
+    if (!valid) {
+      throw new ValidationError(`Config ${key} must be of type ${type}`);
+    }
+  }
+
+  /**
+   * Helper: Reload the cache when it is older than the TTL.
+   * Changes made by other instances are picked up here and notified.
+   */
+  private async ensureFresh(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.cacheTtlMs) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = this.reload().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    await this.loading;
+  }
+
+  /**
+   * Helper: Load all active configs, skipping values that fail validation
+   */
+  private async reload(): Promise<void> {
+    const configs = await Config.find({ isActive: true });
+    const next: Map<string, IConfig> = new Map();
+
+    for (const config of configs) {
+      try {
+        ConfigService.validateValue(config.key, config.type, config.value);
+        next.set(config.key, config);
+      } catch (error: any) {
+        logger.warn(`Ignoring invalid config ${config.key}: ${error.message}`);
+      }
+    }
+
+    const previous = this.cache;
+    const isInitialLoad = !this.hasLoaded;
+    this.cache = next;
+    this.loadedAt = Date.now();
+    this.hasLoaded = true;
+
+    if (isInitialLoad) {
+      return;
+    }
+
+    const keys = new Set([...previous.keys(), ...next.keys()]);
+    keys.forEach((key) => {
+      const before = previous.get(key)?.value;
+      const after = next.get(key)?.value;
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        this.emitChange({
+          key,
+          value: after ?? CONFIG_DEFINITIONS[key]?.default,
+          previousValue: before ?? CONFIG_DEFINITIONS[key]?.default,
+        });
+      }
+    });
+  }
+
+  /**
+   * Helper: Notify listeners of a change
+   */
+  private emitChange(change: ConfigChange): void {
+    logger.info(`Config changed: ${change.key}`);
+    this.emit('change', change);
+  }
+}
+
+// Singleton instance
+let configService: ConfigService | null = null;
+
+export const getConfigService = (): ConfigService => {
+  if (!configService) {
+    configService = new ConfigService();
+  }
+  return configService;
+};
+
+export default { getConfigService };
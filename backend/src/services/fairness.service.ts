@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { IParticipant } from '../models/spin_wheels.models';
+
+export class FairnessService {
+  /**
+   * Generate a new random server seed
+   * @returns Hex encoded server seed
+   */
+  static generateServerSeed(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Generate a random client seed for participants that did not supply one
+   * @returns Hex encoded client seed
+   */
+  static generateClientSeed(): string {
+    return crypto.randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Hash a seed (SHA-256)
+   * @param seed - Seed to hash
+   * @returns Hex encoded hash
+   */
+  static hashSeed(seed: string): string {
+    return crypto.createHash('sha256').update(seed).digest('hex');
+  }
+
+  /**
+   * Combine participant client seeds into a single digest.
+   * Participants are taken in join order so the digest is reproducible.
+   * @param participants - Spin wheel participants
+   * @returns Hex encoded digest
+   */
+  static combineClientSeeds(participants: IParticipant[]): string {
+    const material = participants
+      .map((p) => `${p.userId.toString()}:${p.clientSeed || ''}`)
+      .join('|');
+    return this.hashSeed(material);
+  }
+
+  /**
+   * Deterministic Fisher-Yates shuffle driven by HMAC-SHA256(serverSeed, clientSeedHash)
+   * @param array - Array to shuffle
+   * @param serverSeed - Server seed
+   * @param clientSeedHash - Combined client seed digest
+   * @returns Shuffled array
+   */
+  static shuffle<T>(array: T[], serverSeed: string, clientSeedHash: string): T[] {
+    const shuffled = [...array];
+    const next = this.createRandomSource(serverSeed, clientSeedHash);
+
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.randomInt(next, i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Helper: Stream of 32-bit unsigned integers derived from the seeds
+   */
+  private static createRandomSource(serverSeed: string, clientSeedHash: string): () => number {
+    let round = 0;
+    let buffer = Buffer.alloc(0);
+    let offset = 0;
+
+    return () => {
+      if (offset + 4 > buffer.length) {
+        buffer = crypto
+          .createHmac('sha256', serverSeed)
+          .update(`${clientSeedHash}:${round}`)
+          .digest();
+        round++;
+        offset = 0;
+      }
+      const value = buffer.readUInt32BE(offset);
+      offset += 4;
+      return value;
+    };
+  }
+
+  /**
+   * Helper: Unbiased integer in [0, max) using rejection sampling
+   */
+  private static randomInt(next: () => number, max: number): number {
+    const range = 0x100000000;
+    const limit = range - (range % max);
+    let value = next();
+    while (value >= limit) {
+      value = next();
+    }
+    return value % max;
+  }
+}
@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import { isSocketServerInitialized } from '../config/socket.config';
+import { getScheduler } from './scheduler.service';
+import { getShutdownManager } from './shutdown.service';
+
+const HEALTH_CHECK_TIMEOUT = parseInt(process.env.HEALTH_CHECK_TIMEOUT || '2000');
+
+export interface HealthCheckResult {
+  status: 'up' | 'down';
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: {
+    mongo: HealthCheckResult;
+    scheduler: HealthCheckResult;
+    socketServer: HealthCheckResult;
+    shutdown: HealthCheckResult;
+  };
+}
+
+export class HealthService {
+  /**
+   * Liveness: the process is up and serving the event loop
+   */
+  static getLiveness(): { status: 'ok'; uptimeSeconds: number; draining: boolean } {
+    return {
+      status: 'ok',
+      uptimeSeconds: Math.round(process.uptime()),
+      draining: getShutdownManager().isDraining(),
+    };
+  }
+
+  /**
+   * Readiness: every dependency a request may need is available
+   * @returns Report with one entry per check
+   */
+  static async getReadiness(): Promise<ReadinessReport> {
+    const checks: ReadinessReport['checks'] = {
+      mongo: await this.pingMongo(),
+      scheduler: getScheduler().getStatus().isRunning
+        ? { status: 'up' }
+        : { status: 'down', error: 'Scheduler is not running' },
+      socketServer: isSocketServerInitialized()
+        ? { status: 'up' }
+        : { status: 'down', error: 'Socket server is not initialized' },
+      shutdown: getShutdownManager().isDraining()
+        ? { status: 'down', error: 'Instance is shutting down' }
+        : { status: 'up' },
+    };
+
+    return {
+      ready: Object.values(checks).every((check) => check.status === 'up'),
+      checks,
+    };
+  }
+
+  /**
+   * Helper: Round-trip a ping to MongoDB, bounded by HEALTH_CHECK_TIMEOUT
+   */
+  private static async pingMongo(): Promise<HealthCheckResult> {
+    const db = mongoose.connection.db;
+
+    if (mongoose.connection.readyState !== mongoose.ConnectionStates.connected || !db) {
+      return { status: 'down', error: 'Not connected' };
+    }
+
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await Promise.race([
+        db.admin().ping(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Ping timed out')), HEALTH_CHECK_TIMEOUT);
+        }),
+      ]);
+      return { status: 'up', latencyMs: Date.now() - startedAt };
+    } catch (error: any) {
+      return { status: 'down', latencyMs: Date.now() - startedAt, error: error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export default HealthService;
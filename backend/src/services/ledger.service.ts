@@ -0,0 +1,279 @@
+import mongoose, { ClientSession, Types } from 'mongoose';
+import { CoinLedger, LedgerAccountType } from '../models/coin_ledger.models';
+import LedgerAccount from '../models/ledger_account.models';
+import User from '../models/user.models';
+
+export enum SystemAccount {
+  WINNER_POOL = 'winner_pool',
+  ADMIN_POOL = 'admin_pool',
+  APP_TREASURY = 'app_treasury',
+  COIN_ISSUANCE = 'coin_issuance',
+  ROUNDING = 'rounding', // Absorbs fractions removed when coins became integers
+  REWARDS = 'rewards'    // Funds daily login rewards
+}
+
+export interface LedgerPosting {
+  from: string;
+  to: string;
+  amount: number;
+  transactionId?: Types.ObjectId;
+  spinWheelId?: Types.ObjectId;
+  description?: string;
+}
+
+export interface LedgerDiscrepancy {
+  userId: Types.ObjectId;
+  name: string;
+  email: string;
+  coins: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+export interface ReconciliationReport {
+  checkedUsers: number;
+  unopenedAccounts: number;  // Users that predate the ledger and have not changed balance since
+  discrepancies: LedgerDiscrepancy[];
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+  ranAt: Date;
+}
+
+export class LedgerService {
+  /**
+   * Account code for a user wallet
+   * @param userId - User ID
+   */
+  static userAccount(userId: string | Types.ObjectId): string {
+    return `user:${userId.toString()}`;
+  }
+
+  /**
+   * Account code for a system account
+   * @param account - System account
+   */
+  static systemAccount(account: SystemAccount): string {
+    return `system:${account}`;
+  }
+
+  /**
+   * Open a user's ledger account if it does not exist yet.
+   * Users that predate the ledger get an opening entry from coin issuance
+   * for the balance they hold before their first recorded mutation.
+   * @param userId - User ID
+   * @param openingBalance - User's coins before the mutation being recorded
+   * @param session - Mongo session
+   */
+  static async ensureUserAccount(
+    userId: string | Types.ObjectId,
+    openingBalance: number,
+    session: ClientSession
+  ): Promise<void> {
+    const code = this.userAccount(userId);
+    const existing = await LedgerAccount.findOne({ code }).session(session);
+
+    if (existing) {
+      return;
+    }
+
+    await LedgerAccount.create(
+      [{ code, type: LedgerAccountType.USER, userId, balance: 0 }],
+      { session }
+    );
+
+    if (openingBalance > 0) {
+      await this.post(
+        {
+          from: this.systemAccount(SystemAccount.COIN_ISSUANCE),
+          to: code,
+          amount: openingBalance,
+          description: 'Opening balance',
+        },
+        session
+      );
+    }
+  }
+
+  /**
+   * Record a posting as a paired debit/credit entry
+   * @param posting - Posting details
+   * @param session - Mongo session
+   */
+  static async post(posting: LedgerPosting, session: ClientSession): Promise<void> {
+    if (posting.amount <= 0) {
+      return;
+    }
+
+    const journalId = new mongoose.Types.ObjectId();
+    const debitBalance = await this.applyToAccount(posting.from, -posting.amount, session);
+    const creditBalance = await this.applyToAccount(posting.to, posting.amount, session);
+
+    await CoinLedger.insertMany(
+      [
+        {
+          journalId,
+          ...this.describeAccount(posting.from),
+          transactionId: posting.transactionId,
+          spinWheelId: posting.spinWheelId,
+          debit: posting.amount,
+          credit: 0,
+          balance: debitBalance,
+          description: posting.description,
+        },
+        {
+          journalId,
+          ...this.describeAccount(posting.to),
+          transactionId: posting.transactionId,
+          spinWheelId: posting.spinWheelId,
+          debit: 0,
+          credit: posting.amount,
+          balance: creditBalance,
+          description: posting.description,
+        },
+      ],
+      { session }
+    );
+  }
+
+  /**
+   * Record several postings in order
+   * @param postings - Postings
+   * @param session - Mongo session
+   */
+  static async postMany(postings: LedgerPosting[], session: ClientSession): Promise<void> {
+    for (const posting of postings) {
+      await this.post(posting, session);
+    }
+  }
+
+  /**
+   * Get a user's ledger balance
+   * @param userId - User ID
+   * @returns Running balance or 0 if the account does not exist
+   */
+  static async getUserBalance(userId: string | Types.ObjectId): Promise<number> {
+    const account = await LedgerAccount.findOne({ code: this.userAccount(userId) });
+    return account?.balance ?? 0;
+  }
+
+  /**
+   * Compare every user's coins against their ledger balance.
+   * Users without a ledger account yet are counted separately; their
+   * account is opened with their balance on their first mutation.
+   * @returns Reconciliation report
+   */
+  static async reconcile(): Promise<ReconciliationReport> {
+    const [openedUserIds, userBalances, totals] = await Promise.all([
+      LedgerAccount.distinct('userId', { type: LedgerAccountType.USER }),
+      CoinLedger.aggregate([
+        { $match: { accountType: LedgerAccountType.USER } },
+        {
+          $group: {
+            _id: '$userId',
+            balance: { $sum: { $subtract: ['$credit', '$debit'] } },
+          },
+        },
+      ]),
+      CoinLedger.aggregate([
+        {
+          $group: {
+            _id: null,
+            totalDebits: { $sum: '$debit' },
+            totalCredits: { $sum: '$credit' },
+          },
+        },
+      ]),
+    ]);
+
+    const ledgerBalances = new Map<string, number>(
+      userBalances.map((b) => [b._id.toString(), b.balance])
+    );
+
+    const openedAccounts = new Set<string>(openedUserIds.map((id: Types.ObjectId) => id.toString()));
+
+    const discrepancies: LedgerDiscrepancy[] = [];
+    let checkedUsers = 0;
+    let unopenedAccounts = 0;
+
+    const cursor = User.find().select('name email coins').cursor();
+    for (let user = await cursor.next(); user; user = await cursor.next()) {
+      if (!openedAccounts.has(user._id.toString())) {
+        unopenedAccounts++;
+        continue;
+      }
+
+      checkedUsers++;
+      const ledgerBalance = ledgerBalances.get(user._id.toString()) ?? 0;
+      const difference = user.coins - ledgerBalance;
+
+      // Coins are integers, so any difference at all means the ledger and wallet disagree
+      if (difference !== 0) {
+        discrepancies.push({
+          userId: user._id,
+          name: user.name,
+          email: user.email,
+          coins: user.coins,
+          ledgerBalance,
+          difference,
+        });
+      }
+    }
+
+    const totalDebits = totals[0]?.totalDebits || 0;
+    const totalCredits = totals[0]?.totalCredits || 0;
+
+    return {
+      checkedUsers,
+      unopenedAccounts,
+      discrepancies,
+      totalDebits,
+      totalCredits,
+      balanced: totalDebits === totalCredits,
+      ranAt: new Date(),
+    };
+  }
+
+  /**
+   * Helper: Apply a delta to an account and return its new running balance
+   */
+  private static async applyToAccount(
+    code: string,
+    delta: number,
+    session: ClientSession
+  ): Promise<number> {
+    const { accountType, userId } = this.describeAccount(code);
+
+    const account = await LedgerAccount.findOneAndUpdate(
+      { code },
+      {
+        $inc: { balance: delta },
+        $setOnInsert: { type: accountType, ...(userId && { userId }) },
+      },
+      { new: true, upsert: true, session }
+    );
+
+    return account.balance;
+  }
+
+  /**
+   * Helper: Derive account type and user from an account code
+   */
+  private static describeAccount(code: string): {
+    account: string;
+    accountType: LedgerAccountType;
+    userId?: Types.ObjectId;
+  } {
+    if (code.startsWith('user:')) {
+      return {
+        account: code,
+        accountType: LedgerAccountType.USER,
+        userId: new mongoose.Types.ObjectId(code.slice('user:'.length)),
+      };
+    }
+
+    return { account: code, accountType: LedgerAccountType.SYSTEM };
+  }
+}
+
+export default LedgerService;
@@ -0,0 +1,91 @@
+import User, { IUser } from '../models/user.models';
+import { AccountLockedError } from '../utils/apiResponse';
+import logger from '../utils/logger';
+
+const LOGIN_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5');
+const LOGIN_FAILURE_WINDOW_MS = parseInt(process.env.LOGIN_FAILURE_WINDOW || '900000');
+const LOGIN_LOCKOUT_BASE_MS = parseInt(process.env.LOGIN_LOCKOUT_BASE || '60000');
+const LOGIN_LOCKOUT_MAX_MS = parseInt(process.env.LOGIN_LOCKOUT_MAX || '3600000');
+
+export class LoginThrottleService {
+  /**
+   * Reject the attempt while the account is locked
+   * @param user - User trying to log in
+   */
+  static assertNotLocked(user: IUser): void {
+    if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      throw new AccountLockedError(Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000));
+    }
+  }
+
+  /**
+   * Count a failed attempt. Reaching the threshold locks the account;
+   * each consecutive lockout doubles in length up to LOGIN_LOCKOUT_MAX.
+   * @param user - User whose password was wrong
+   * @returns When the account is now locked until, or null
+   */
+  static async recordFailure(user: IUser): Promise<Date | null> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - LOGIN_FAILURE_WINDOW_MS);
+
+    // Failures older than the window start a new count
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id },
+      [
+        {
+          $set: {
+            failedLoginAttempts: {
+              $cond: [
+                { $gt: ['$lastFailedLoginAt', windowStart] },
+                { $add: [{ $ifNull: ['$failedLoginAttempts', 0] }, 1] },
+                1,
+              ],
+            },
+            lastFailedLoginAt: now,
+          },
+        },
+      ],
+      { new: true }
+    );
+
+    if (!updated || updated.failedLoginAttempts < LOGIN_LOCKOUT_THRESHOLD) {
+      return null;
+    }
+
+    const lockoutCount = updated.lockoutCount || 0;
+    const lockMs = Math.min(LOGIN_LOCKOUT_BASE_MS * 2 ** lockoutCount, LOGIN_LOCKOUT_MAX_MS);
+    const lockedUntil = new Date(now.getTime() + lockMs);
+
+    // Only the request that reached the threshold applies the lock
+    const locked = await User.updateOne(
+      { _id: user._id, failedLoginAttempts: updated.failedLoginAttempts },
+      {
+        $set: { failedLoginAttempts: 0, lockedUntil },
+        $inc: { lockoutCount: 1 },
+      }
+    );
+
+    if (locked.modifiedCount === 0) {
+      return null;
+    }
+
+    logger.warn(`Account ${user.email} locked for ${lockMs}ms after repeated failed logins`);
+
+    return lockedUntil;
+  }
+
+  /**
+   * Clear failure state on the document; saved with the caller's update
+   * @param user - User who logged in or reset their password
+   */
+  static clearFailures(user: IUser): void {
+    if (user.failedLoginAttempts || user.lockoutCount || user.lockedUntil) {
+      user.failedLoginAttempts = 0;
+      user.lockoutCount = 0;
+      user.lockedUntil = undefined;
+      user.lastFailedLoginAt = undefined;
+    }
+  }
+}
+
+export default LoginThrottleService;
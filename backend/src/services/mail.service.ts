@@ -0,0 +1,82 @@
+import { IUser } from '../models/user.models';
+import { createMailTransport, MailTransport } from '../config/mail.transport';
+import logger from '../utils/logger';
+
+export class MailService {
+  private readonly from = process.env.MAIL_FROM || 'Spin Wheel <no-reply@spinwheel.local>';
+  private readonly appUrl = process.env.APP_URL || 'http://localhost:4000';
+
+  constructor(private readonly transport: MailTransport = createMailTransport()) {}
+
+  /**
+   * Send the email verification link
+   * @param user - Recipient
+   * @param token - Verification token
+   */
+  public async sendVerificationEmail(user: IUser, token: string): Promise<void> {
+    const link = `${this.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send(
+      user.email,
+      'Verify your email address',
+      `Hi ${user.name},\n\nConfirm your email address to start joining spin wheels:\n${link}\n\nIf you did not create an account, ignore this email.`
+    );
+  }
+
+  /**
+   * Send the password reset link
+   * @param user - Recipient
+   * @param token - Reset token
+   */
+  public async sendPasswordResetEmail(user: IUser, token: string): Promise<void> {
+    const link = `${this.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send(
+      user.email,
+      'Reset your password',
+      `Hi ${user.name},\n\nUse this link to choose a new password:\n${link}\n\nIf you did not request a reset, ignore this email.`
+    );
+  }
+
+  /**
+   * Send a role invitation to an address without an account
+   * @param email - Recipient
+   * @param role - Role granted on registration
+   * @param invitedBy - Name of the inviting admin
+   * @param token - Invitation token
+   */
+  public async sendInvitationEmail(
+    email: string,
+    role: string,
+    invitedBy: string,
+    token: string
+  ): Promise<void> {
+    const link = `${this.appUrl}/register?invitation=${encodeURIComponent(token)}`;
+
+    await this.send(
+      email,
+      'You have been invited to Spin Wheel',
+      `Hi,\n\n${invitedBy} invited you to join Spin Wheel as ${role}. Register with this email address using the link below:\n${link}\n\nIf you were not expecting this invitation, ignore this email.`
+    );
+  }
+
+  /**
+   * Helper: Hand a message to the transport
+   */
+  private async send(to: string, subject: string, text: string): Promise<void> {
+    await this.transport.send({ to, from: this.from, subject, text });
+    logger.info(`Mail sent to ${to}: ${subject}`);
+  }
+}
+
+// Singleton instance
+let mailService: MailService | null = null;
+
+export const getMailService = (): MailService => {
+  if (!mailService) {
+    mailService = new MailService();
+  }
+  return mailService;
+};
+
+export default { getMailService };
@@ -0,0 +1,155 @@
+import SpinWheel, { SpinWheelStatus } from '../models/spin_wheels.models';
+import User from '../models/user.models';
+import { getSocketServer, isSocketServerInitialized } from '../config/socket.config';
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../utils/metrics';
+import { AppError } from '../utils/apiResponse';
+import { ErrorCodeEnum } from '../enums/error-code.enum';
+import logger from '../utils/logger';
+
+const ACTIVE_STATUSES = [SpinWheelStatus.WAITING, SpinWheelStatus.IN_PROGRESS];
+
+const registry = new MetricsRegistry();
+
+// ----- Event metrics, updated as things happen -----
+
+const httpRequestDuration = registry.register(
+  new Histogram('http_request_duration_seconds', 'HTTP request latency by route', [
+    0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5,
+  ])
+);
+
+const joinsTotal = registry.register(
+  new Counter('spin_wheel_joins_total', 'Spin wheel join attempts by result and error code')
+);
+
+const eliminationLag = registry.register(
+  new Histogram(
+    'spin_wheel_elimination_lag_seconds',
+    'How late an elimination step ran compared to its eliminationInterval',
+    [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60]
+  )
+);
+
+const transactionsTotal = registry.register(
+  new Counter('mongo_transactions_total', 'MongoDB transactions by operation and outcome')
+);
+
+const transactionRetries = registry.register(
+  new Counter('mongo_transaction_retries_total', 'Extra MongoDB transaction attempts made by the driver')
+);
+
+// ----- Snapshot metrics, refreshed on every scrape -----
+
+const wheelsByStatus = registry.register(new Gauge('spin_wheels', 'Spin wheels by status'));
+
+const coinsInCirculation = registry.register(
+  new Gauge('coins_in_circulation', 'Sum of all user wallet balances')
+);
+
+const poolTotals = registry.register(
+  new Gauge('spin_wheel_pool_coins', 'Coins held in the pools of active spin wheels')
+);
+
+const connectedSockets = registry.register(
+  new Gauge('socket_connected_users', 'Users with at least one connected socket, across instances')
+);
+
+registry.addCollector(async () => {
+  const counts = await SpinWheel.aggregate<{ _id: SpinWheelStatus; count: number }>([
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+
+  Object.values(SpinWheelStatus).forEach((status) => {
+    wheelsByStatus.set({ status }, counts.find((row) => row._id === status)?.count || 0);
+  });
+});
+
+registry.addCollector(async () => {
+  const [totals] = await User.aggregate<{ coins: number }>([
+    { $group: { _id: null, coins: { $sum: '$coins' } } },
+  ]);
+
+  coinsInCirculation.set({}, totals?.coins || 0);
+});
+
+registry.addCollector(async () => {
+  const totals = await SpinWheel.aggregate<{ _id: SpinWheelStatus; winner: number; admin: number; app: number }>([
+    { $match: { status: { $in: ACTIVE_STATUSES } } },
+    {
+      $group: {
+        _id: '$status',
+        winner: { $sum: '$winnerPool' },
+        admin: { $sum: '$adminPool' },
+        app: { $sum: '$appPool' },
+      },
+    },
+  ]);
+
+  ACTIVE_STATUSES.forEach((status) => {
+    const row = totals.find((total) => total._id === status);
+    poolTotals.set({ pool: 'winner', status }, row?.winner || 0);
+    poolTotals.set({ pool: 'admin', status }, row?.admin || 0);
+    poolTotals.set({ pool: 'app', status }, row?.app || 0);
+  });
+});
+
+registry.addCollector(async () => {
+  if (!isSocketServerInitialized()) {
+    // e.g. scripts; report nothing rather than a false zero
+    connectedSockets.reset();
+    return;
+  }
+
+  connectedSockets.set({}, await getSocketServer().getConnectedUsersCount());
+});
+
+export class MetricsService {
+  /**
+   * Record the latency of a finished HTTP request
+   * @param route - Route pattern (e.g. /api/spin-wheels/:spinWheelId), never the raw URL
+   */
+  static observeHttpRequest(method: string, route: string, statusCode: number, durationSeconds: number): void {
+    httpRequestDuration.observe({ method, route, status: statusCode }, durationSeconds);
+  }
+
+  /**
+   * Count a join attempt; failures are labelled with their error code
+   */
+  static recordJoin(error?: unknown): void {
+    if (!error) {
+      joinsTotal.inc({ result: 'success', code: 'NONE' });
+      return;
+    }
+
+    const code =
+      (error instanceof AppError && error.errorCode) || ErrorCodeEnum.INTERNAL_SERVER_ERROR;
+    joinsTotal.inc({ result: 'failure', code });
+  }
+
+  /**
+   * Record how far past its due time an elimination step started
+   */
+  static observeEliminationLag(lagMs: number): void {
+    eliminationLag.observe({}, Math.max(0, lagMs) / 1000);
+  }
+
+  /**
+   * Record a finished transaction and how many attempts it took
+   */
+  static recordTransaction(operation: string, attempts: number, committed: boolean): void {
+    transactionsTotal.inc({ operation, outcome: committed ? 'committed' : 'aborted' });
+
+    if (attempts > 1) {
+      transactionRetries.inc({ operation }, attempts - 1);
+    }
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   */
+  static async render(): Promise<string> {
+    return registry.render((error) => logger.error('Metrics collector failed:', error));
+  }
+}
+
+export default MetricsService;
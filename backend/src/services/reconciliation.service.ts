@@ -0,0 +1,75 @@
+import { LedgerService, ReconciliationReport } from './ledger.service';
+import { loggers } from '../utils/logger';
+import { generateJobId, runWithContext } from '../utils/requestContext';
+
+export class LedgerReconciliationJob {
+  private interval: NodeJS.Timeout | null = null;
+  private lastReport: ReconciliationReport | null = null;
+
+  /**
+   * Start periodic reconciliation
+   */
+  public initialize(): void {
+    const intervalMs = parseInt(process.env.LEDGER_RECONCILIATION_INTERVAL || '3600000');
+
+    this.interval = setInterval(() => {
+      runWithContext({ requestId: generateJobId('reconciliation'), source: 'job' }, () =>
+        this.run().catch((error) => {
+          loggers.transaction('Ledger reconciliation failed', '', 0, { error: error.message });
+        })
+      );
+    }, intervalMs);
+
+    loggers.transaction('Ledger reconciliation job initialized', '', 0, { intervalMs });
+  }
+
+  /**
+   * Run reconciliation now
+   * @returns Reconciliation report
+   */
+  public async run(): Promise<ReconciliationReport> {
+    const report = await LedgerService.reconcile();
+    this.lastReport = report;
+
+    if (report.discrepancies.length > 0 || !report.balanced) {
+      loggers.transaction('Ledger discrepancies detected', '', 0, {
+        flaggedUsers: report.discrepancies.map((d) => ({
+          userId: d.userId.toString(),
+          difference: d.difference,
+        })),
+        balanced: report.balanced,
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Stop periodic reconciliation
+   */
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Get last reconciliation report
+   */
+  public getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+}
+
+// Singleton instance
+let reconciliationJob: LedgerReconciliationJob | null = null;
+
+export const getReconciliationJob = (): LedgerReconciliationJob => {
+  if (!reconciliationJob) {
+    reconciliationJob = new LedgerReconciliationJob();
+  }
+  return reconciliationJob;
+};
+
+export default { getReconciliationJob };
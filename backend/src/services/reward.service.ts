@@ -0,0 +1,235 @@
+import mongoose, { Types } from 'mongoose';
+import User, { IUser } from '../models/user.models';
+import Transaction, { ITransaction, TransactionType } from '../models/transaction.models';
+import RewardClaim, { IRewardClaim } from '../models/reward_claim.models';
+import { CONFIG_DEFINITIONS, getConfigService } from './config.service';
+import { LedgerService, SystemAccount } from './ledger.service';
+import { AuthorizationError, NotFoundError } from '../utils/apiResponse';
+import { isCoinAmount, roundCoins } from '../utils/coins';
+import logger, { loggers } from '../utils/logger';
+import { runTransaction } from '../utils/db';
+
+export interface DailyRewardTable {
+  baseAmount: number;           // Coins on the first day of a streak
+  streakMultipliers: number[];  // Multiplier per streak day; the last one applies from then on
+  maxAmount: number;            // Cap on a single claim
+}
+
+export interface DailyRewardStatus {
+  day: string;
+  timeZone: string;
+  claimedToday: boolean;
+  streak: number;       // Current streak (0 once a day was missed)
+  nextStreak: number;   // Streak the next claim will have
+  nextAmount: number;   // Coins the next claim will pay
+  lastClaimedDay?: string;
+}
+
+export interface DailyRewardClaim {
+  claim: IRewardClaim;
+  alreadyClaimed: boolean;
+  transaction?: ITransaction;
+  user?: IUser;
+}
+
+const DEFAULT_TABLE: DailyRewardTable = CONFIG_DEFINITIONS.DAILY_REWARD_TABLE.default;
+
+export class RewardService {
+  /**
+   * Calendar day of a moment in a time zone
+   * @param date - Moment
+   * @param timeZone - IANA time zone
+   * @returns Day as YYYY-MM-DD
+   */
+  static dayKey(date: Date, timeZone: string): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(date);
+  }
+
+  /**
+   * Calendar day before a day
+   * @param day - Day as YYYY-MM-DD
+   * @returns Day as YYYY-MM-DD
+   */
+  static previousDay(day: string): string {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() - 1);
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Coins paid for a claim on a given streak day
+   * @param streak - Streak length including this claim (1 = first day)
+   * @param table - Reward table
+   * @returns Whole coins
+   */
+  static rewardFor(streak: number, table: DailyRewardTable): number {
+    const multipliers = table.streakMultipliers.length > 0 ? table.streakMultipliers : [1];
+    const multiplier = multipliers[Math.min(streak, multipliers.length) - 1];
+
+    return Math.max(0, Math.min(table.maxAmount, roundCoins(table.baseAmount * multiplier)));
+  }
+
+  /**
+   * Where the user stands today
+   * @param userId - User ID
+   * @returns Daily reward status
+   */
+  static async getStatus(userId: string | Types.ObjectId): Promise<DailyRewardStatus> {
+    const { table, timeZone } = await this.loadSettings();
+    const day = this.dayKey(new Date(), timeZone);
+    const last = await RewardClaim.findOne({ userId }).sort({ day: -1 });
+
+    const claimedToday = last?.day === day;
+    const streakAlive = claimedToday || last?.day === this.previousDay(day);
+    const streak = last && streakAlive ? last.streak : 0;
+    // Today's claim if not made yet, otherwise tomorrow's
+    const nextStreak = streak + 1;
+
+    return {
+      day,
+      timeZone,
+      claimedToday,
+      streak,
+      nextStreak,
+      nextAmount: this.rewardFor(nextStreak, table),
+      lastClaimedDay: last?.day,
+    };
+  }
+
+  /**
+   * Claim today's reward. Claiming again on the same day returns the
+   * existing claim and pays nothing.
+   * @param user - Authenticated user
+   * @returns The claim and, when coins were paid, the transaction
+   */
+  static async claimDaily(user: IUser): Promise<DailyRewardClaim> {
+    if (user.isEmailVerified === false) {
+      throw new AuthorizationError('Please verify your email address before claiming rewards');
+    }
+
+    const { table, timeZone } = await this.loadSettings();
+    const day = this.dayKey(new Date(), timeZone);
+
+    const existing = await RewardClaim.findOne({ userId: user._id, day });
+    if (existing) {
+      return { claim: existing, alreadyClaimed: true };
+    }
+
+    const session = await mongoose.startSession();
+    try {
+      const result = await runTransaction(session, 'rewards.daily', async () => {
+        const last = await RewardClaim.findOne({ userId: user._id }).sort({ day: -1 }).session(session);
+        const streak = last?.day === this.previousDay(day) ? last.streak + 1 : 1;
+        const amount = this.rewardFor(streak, table);
+
+        // The unique (userId, day) index makes a concurrent second claim fail here
+        const [claim] = await RewardClaim.create(
+          [{ userId: user._id, day, timeZone, streak, amount }],
+          { session }
+        );
+
+        if (amount === 0) {
+          return { claim, alreadyClaimed: false };
+        }
+
+        const credited = await User.findOneAndUpdate(
+          { _id: user._id },
+          { $inc: { coins: amount } },
+          { new: true, session }
+        );
+
+        if (!credited) {
+          throw new NotFoundError('User');
+        }
+
+        const balanceBefore = credited.coins - amount;
+        await LedgerService.ensureUserAccount(credited._id, balanceBefore, session);
+
+        const transaction = new Transaction({
+          userId: credited._id,
+          name: credited.name,
+          type: TransactionType.DAILY_REWARD,
+          amount,
+          balanceBefore,
+          balanceAfter: credited.coins,
+          description: `Daily reward (day ${streak} streak)`,
+          metadata: { reason: 'Daily login reward', rewardDay: day, streak },
+        });
+
+        await transaction.save({ session });
+
+        await LedgerService.post(
+          {
+            from: LedgerService.systemAccount(SystemAccount.REWARDS),
+            to: LedgerService.userAccount(credited._id),
+            amount,
+            transactionId: transaction._id,
+            description: 'Daily reward',
+          },
+          session
+        );
+
+        claim.transactionId = transaction._id;
+        await claim.save({ session });
+
+        return { claim, alreadyClaimed: false, transaction, user: credited };
+      });
+
+      loggers.transaction('Daily reward claimed', user._id.toString(), result.claim.amount, {
+        day,
+        streak: result.claim.streak,
+        newBalance: result.user?.coins,
+      });
+
+      return result;
+    } catch (error: any) {
+      // Lost a race with a concurrent claim for the same day
+      if (error?.code === 11000) {
+        const claim = await RewardClaim.findOne({ userId: user._id, day });
+        if (claim) {
+          return { claim, alreadyClaimed: true };
+        }
+      }
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Helper: Read the reward table and time zone, falling back to the
+   * defaults for anything an admin stored in the wrong shape
+   */
+  private static async loadSettings(): Promise<{ table: DailyRewardTable; timeZone: string }> {
+    const config = await getConfigService().getMany(['DAILY_REWARD_TABLE', 'DAILY_REWARD_TIMEZONE']);
+    const stored = config.DAILY_REWARD_TABLE || {};
+
+    const table: DailyRewardTable = {
+      baseAmount: isCoinAmount(stored.baseAmount) && stored.baseAmount >= 0 ? stored.baseAmount : DEFAULT_TABLE.baseAmount,
+      streakMultipliers:
+        Array.isArray(stored.streakMultipliers) &&
+        stored.streakMultipliers.every((value: unknown) => typeof value === 'number' && value >= 0)
+          ? stored.streakMultipliers
+          : DEFAULT_TABLE.streakMultipliers,
+      maxAmount: isCoinAmount(stored.maxAmount) && stored.maxAmount >= 0 ? stored.maxAmount : DEFAULT_TABLE.maxAmount,
+    };
+
+    let timeZone: string = config.DAILY_REWARD_TIMEZONE;
+    try {
+      this.dayKey(new Date(), timeZone);
+    } catch {
+      logger.warn(`Invalid DAILY_REWARD_TIMEZONE "${timeZone}", using UTC`);
+      timeZone = 'UTC';
+    }
+
+    return { table, timeZone };
+  }
+}
+
+export default RewardService;
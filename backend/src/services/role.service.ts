@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import mongoose, { ClientSession } from 'mongoose';
+import User, { IUser } from '../models/user.models';
+import RoleInvitation, { IRoleInvitation } from '../models/role_invitation.models';
+import { AuditAction } from '../models/audit_log.models';
+import { AuditService } from './audit.service';
+import { getMailService } from './mail.service';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/apiResponse';
+import logger from '../utils/logger';
+import { runTransaction } from '../utils/db';
+
+type UserRole = IUser['role'];
+
+const ROLE_INVITATION_TTL_MS = parseInt(process.env.ROLE_INVITATION_TTL || '604800000');
+
+export class RoleService {
+  /**
+   * Invite an email address to register with a role. Earlier pending
+   * invitations for the same address stop working.
+   * @param actor - Admin sending the invitation
+   * @param email - Address to invite
+   * @param role - Role granted on registration
+   * @param ipAddress - Optional client IP for the audit record
+   * @returns Invitation
+   */
+  static async inviteUser(
+    actor: IUser,
+    email: string,
+    role: UserRole,
+    ipAddress?: string
+  ): Promise<IRoleInvitation> {
+    const normalizedEmail = email.toLowerCase();
+
+    const existingUser = await User.findOne({ email: normalizedEmail });
+    if (existingUser) {
+      throw new ConflictError('A user with this email already exists, change their role instead');
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const invitation = new RoleInvitation({
+      email: normalizedEmail,
+      role,
+      tokenHash: this.hashToken(token),
+      invitedBy: actor._id,
+      expiresAt: new Date(Date.now() + ROLE_INVITATION_TTL_MS),
+    });
+
+    const session = await mongoose.startSession();
+    try {
+      await runTransaction(session, 'role.invite', async () => {
+        await RoleInvitation.updateMany(
+          { email: normalizedEmail, acceptedAt: { $exists: false }, revokedAt: { $exists: false } },
+          { $set: { revokedAt: new Date() } },
+          { session }
+        );
+        await invitation.save({ session });
+        await AuditService.record(
+          {
+            action: AuditAction.ROLE_INVITED,
+            actorId: actor._id,
+            actorName: actor.name,
+            targetEmail: normalizedEmail,
+            newRole: role,
+            metadata: { invitationId: invitation._id },
+            ipAddress,
+          },
+          session
+        );
+      });
+    } finally {
+      session.endSession();
+    }
+
+    await getMailService().sendInvitationEmail(normalizedEmail, role, actor.name, token);
+
+    logger.info(`Admin ${actor._id} invited ${normalizedEmail} as ${role}`);
+
+    return invitation;
+  }
+
+  /**
+   * Mark a pending invitation as used. Call inside the registration
+   * transaction, before the user is saved.
+   * @param token - Invitation token from the email
+   * @param email - Email the new account registers with
+   * @param session - Registration transaction
+   * @returns Claimed invitation
+   */
+  static async claimInvitation(
+    token: string,
+    email: string,
+    session: ClientSession
+  ): Promise<IRoleInvitation> {
+    const invitation = await RoleInvitation.findOneAndUpdate(
+      {
+        tokenHash: this.hashToken(token),
+        email: email.toLowerCase(),
+        acceptedAt: { $exists: false },
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { $set: { acceptedAt: new Date() } },
+      { new: true, session }
+    );
+
+    if (!invitation) {
+      throw new ValidationError('Invitation is invalid, expired or was issued for a different email');
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Link a claimed invitation to the account it created and audit it
+   * @param invitation - Invitation returned by claimInvitation
+   * @param user - Newly registered user
+   * @param session - Registration transaction
+   */
+  static async completeInvitation(
+    invitation: IRoleInvitation,
+    user: IUser,
+    session: ClientSession
+  ): Promise<void> {
+    await RoleInvitation.updateOne(
+      { _id: invitation._id },
+      { $set: { acceptedBy: user._id } },
+      { session }
+    );
+
+    await AuditService.record(
+      {
+        action: AuditAction.ROLE_INVITATION_ACCEPTED,
+        actorId: user._id,
+        actorName: user.name,
+        targetUserId: user._id,
+        targetEmail: user.email,
+        newRole: invitation.role,
+        metadata: { invitationId: invitation._id, invitedBy: invitation.invitedBy },
+      },
+      session
+    );
+  }
+
+  /**
+   * List invitations that can still be accepted
+   */
+  static async listPendingInvitations(): Promise<IRoleInvitation[]> {
+    return RoleInvitation.find({
+      acceptedAt: { $exists: false },
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ createdAt: -1 })
+      .populate('invitedBy', 'name email');
+  }
+
+  /**
+   * Withdraw a pending invitation
+   * @param actor - Admin revoking the invitation
+   * @param invitationId - Invitation ID
+   * @param ipAddress - Optional client IP for the audit record
+   */
+  static async revokeInvitation(
+    actor: IUser,
+    invitationId: string,
+    ipAddress?: string
+  ): Promise<IRoleInvitation> {
+    if (!mongoose.isValidObjectId(invitationId)) {
+      throw new NotFoundError('Invitation');
+    }
+
+    const session = await mongoose.startSession();
+    try {
+      let invitation: IRoleInvitation | null = null;
+
+      await runTransaction(session, 'role.revokeInvitation', async () => {
+        invitation = await RoleInvitation.findOneAndUpdate(
+          { _id: invitationId, acceptedAt: { $exists: false }, revokedAt: { $exists: false } },
+          { $set: { revokedAt: new Date() } },
+          { new: true, session }
+        );
+
+        if (!invitation) {
+          throw new NotFoundError('Pending invitation');
+        }
+
+        await AuditService.record(
+          {
+            action: AuditAction.ROLE_INVITATION_REVOKED,
+            actorId: actor._id,
+            actorName: actor.name,
+            targetEmail: invitation.email,
+            newRole: invitation.role,
+            metadata: { invitationId: invitation._id },
+            ipAddress,
+          },
+          session
+        );
+      });
+
+      logger.info(`Admin ${actor._id} revoked invitation ${invitationId}`);
+
+      return invitation!;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Promote or demote an existing user. Saving the new role bumps the
+   * user's token version, so their current access tokens stop working.
+   * @param actor - Admin making the change
+   * @param userId - User whose role changes
+   * @param role - New role
+   * @param reason - Why the role changed
+   * @param ipAddress - Optional client IP for the audit record
+   * @returns Updated user and the role they had before
+   */
+  static async changeRole(
+    actor: IUser,
+    userId: string,
+    role: UserRole,
+    reason: string,
+    ipAddress?: string
+  ): Promise<{ user: IUser; previousRole: UserRole }> {
+    if (!mongoose.isValidObjectId(userId)) {
+      throw new NotFoundError('User');
+    }
+
+    // An admin demoting themselves could leave the system without one
+    if (actor._id.equals(userId)) {
+      throw new AuthorizationError('You cannot change your own role');
+    }
+
+    const session = await mongoose.startSession();
+    try {
+      let user: IUser | null = null;
+      let previousRole: UserRole = 'user';
+
+      await runTransaction(session, 'role.change', async () => {
+        user = await User.findById(userId).session(session);
+        if (!user) {
+          throw new NotFoundError('User');
+        }
+
+        previousRole = user.role;
+        if (previousRole === role) {
+          throw new ConflictError(`User already has the ${role} role`);
+        }
+
+        user.role = role;
+        await user.save({ session });
+
+        await AuditService.record(
+          {
+            action: AuditAction.ROLE_CHANGED,
+            actorId: actor._id,
+            actorName: actor.name,
+            targetUserId: user._id,
+            targetEmail: user.email,
+            previousRole,
+            newRole: role,
+            reason,
+            ipAddress,
+          },
+          session
+        );
+      });
+
+      logger.info(`Admin ${actor._id} changed role of ${userId} from ${previousRole} to ${role}`);
+
+      return { user: user!, previousRole };
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Helper: Invitation tokens are stored hashed
+   */
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export default RoleService;
@@ -1,353 +1,685 @@
+import os from 'os';
+import crypto from 'crypto';
 import SpinWheel, { SpinWheelStatus } from '../models/spin_wheels.models';
+import ScheduledJob, {
+  IScheduledJob,
+  ScheduledJobStatus,
+  ScheduledJobType,
+} from '../models/scheduled_job.models';
+import SchedulerLease from '../models/scheduler_lease.models';
 import { SpinWheelService } from './spinWheel.service';
 import { getSocketServer } from '../config/socket.config';
-import { loggers } from '../utils/logger';
+import { MetricsService } from './metrics.service';
+import logger, { loggers } from '../utils/logger';
+import { generateJobId, runWithContext } from '../utils/requestContext';
+
+const LEADER_LEASE_NAME = 'spin-wheel-scheduler';
+const MAX_JOB_ATTEMPTS = 5;
+const MAX_JOB_REVIVES = 3; // After this the wheel is aborted and refunded instead
 
 export class SpinWheelScheduler {
-  private autoStartTimers: Map<string, NodeJS.Timeout> = new Map();
-  private eliminationTimers: Map<string, NodeJS.Timeout> = new Map();
-  private checkInterval: NodeJS.Timeout | null = null;
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private readonly pollIntervalMs = parseInt(process.env.SCHEDULER_POLL_INTERVAL || '1000');
+  private readonly leaderLeaseMs = parseInt(process.env.SCHEDULER_LEADER_LEASE_MS || '15000');
+  private readonly jobLockMs = parseInt(process.env.SCHEDULER_JOB_LOCK_MS || '30000');
+  private readonly sweepIntervalMs = parseInt(process.env.SCHEDULER_SWEEP_INTERVAL || '10000');
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isLeader = false;
+  private isPolling = false;
+  private lastSweepAt = 0;
+  private runningJobs: Set<string> = new Set(); // jobKeys executing on this instance
 
   /**
    * Initialize scheduler
    */
   public initialize(): void {
-    // Check for pending spin wheels every 10 seconds
-    this.checkInterval = setInterval(() => {
-      this.checkPendingSpinWheels();
-      this.checkActiveSpinWheels();
-    }, 10000);
-
-    // Initial check
-    this.checkPendingSpinWheels();
-    this.checkActiveSpinWheels();
-
-    loggers.spinWheel('Scheduler initialized', "", {
-      checkInterval: '10 seconds',
+    this.pollTimer = setInterval(() => {
+      this.pollInContext();
+    }, this.pollIntervalMs);
+
+    // Initial poll
+    this.pollInContext();
+
+    loggers.spinWheel('Scheduler initialized', '', {
+      instanceId: this.instanceId,
+      pollIntervalMs: this.pollIntervalMs,
     });
   }
 
   /**
-   * Check for spin wheels that need to be auto-started
+   * Helper: Each tick gets its own job ID so its logs and broadcasts can be traced
+   */
+  private pollInContext(): void {
+    runWithContext({ requestId: generateJobId('scheduler'), source: 'scheduler' }, () => this.poll());
+  }
+
+  /**
+   * One scheduler tick: renew leadership, run leader duties, claim due jobs
    */
-  private async checkPendingSpinWheels(): Promise<void> {
+  private async poll(): Promise<void> {
+    // Skip the tick if the previous one is still running
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+
     try {
-      const pendingSpinWheels = await SpinWheel.find({
-        status: SpinWheelStatus.WAITING,
-        autoStartAt: { $lte: new Date() },
-      });
+      await this.renewLeadership();
 
-      for (const spinWheel of pendingSpinWheels) {
-        await this.autoStartSpinWheel(spinWheel._id.toString());
+      if (this.isLeader) {
+        if (Date.now() - this.lastSweepAt >= this.sweepIntervalMs) {
+          this.lastSweepAt = Date.now();
+          await this.recoverSpinWheels();
+        }
+        await this.emitCountdowns();
       }
+
+      await this.claimDueJobs();
     } catch (error: any) {
-      loggers.spinWheel('Error checking pending spin wheels', "", {
+      loggers.spinWheel('Error in scheduler poll', '', {
         error: error.message,
       });
+    } finally {
+      this.isPolling = false;
     }
   }
 
   /**
-   * Check for active spin wheels that need elimination processing
+   * Acquire or renew the leader lease
    */
-  private async checkActiveSpinWheels(): Promise<void> {
-    try {
-      const activeSpinWheels = await SpinWheel.find({
-        status: SpinWheelStatus.IN_PROGRESS,
-      });
+  private async renewLeadership(): Promise<void> {
+    const now = new Date();
 
-      for (const spinWheel of activeSpinWheels) {
-        const spinWheelId = spinWheel._id.toString();
+    try {
+      const lease = await SchedulerLease.findOneAndUpdate(
+        {
+          name: LEADER_LEASE_NAME,
+          $or: [{ holder: this.instanceId }, { expiresAt: { $lt: now } }],
+        },
+        {
+          $set: {
+            holder: this.instanceId,
+            expiresAt: new Date(now.getTime() + this.leaderLeaseMs),
+          },
+        },
+        { new: true, upsert: true }
+      );
 
-        // Check if elimination timer is already running
-        if (!this.eliminationTimers.has(spinWheelId)) {
-          // Start elimination process if not already running
-          this.startEliminationProcess(spinWheelId);
-        }
+      if (!this.isLeader && lease?.holder === this.instanceId) {
+        loggers.spinWheel('Scheduler leadership acquired', '', { instanceId: this.instanceId });
       }
+      this.isLeader = lease?.holder === this.instanceId;
     } catch (error: any) {
-      loggers.spinWheel('Error checking active spin wheels', "", {
-        error: error.message,
+      // Duplicate key: another instance holds an unexpired lease
+      if (error.code === 11000) {
+        if (this.isLeader) {
+          loggers.spinWheel('Scheduler leadership lost', '', { instanceId: this.instanceId });
+        }
+        this.isLeader = false;
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Leader duty: make sure every active wheel has a job for its next step.
+   * After a crash this resumes eliminations from currentEliminationIndex.
+   */
+  private async recoverSpinWheels(): Promise<void> {
+    const activeSpinWheels = await SpinWheel.find({
+      status: { $in: [SpinWheelStatus.WAITING, SpinWheelStatus.IN_PROGRESS] },
+    });
+
+    for (const spinWheel of activeSpinWheels) {
+      const spinWheelId = spinWheel._id.toString();
+
+      if (spinWheel.status === SpinWheelStatus.WAITING && spinWheel.autoStartAt) {
+        await this.recoverStep(ScheduledJobType.AUTO_START, spinWheelId, spinWheel.autoStartAt);
+      } else if (
+        spinWheel.status === SpinWheelStatus.IN_PROGRESS &&
+        spinWheel.currentEliminationIndex < spinWheel.eliminationSequence.length
+      ) {
+        await this.recoverStep(
+          ScheduledJobType.ELIMINATION,
+          spinWheelId,
+          new Date(),
+          spinWheel.currentEliminationIndex
+        );
+      }
+    }
+  }
+
+  /**
+   * Leader duty: emit countdown updates every second for last 10 seconds
+   */
+  private async emitCountdowns(): Promise<void> {
+    const now = Date.now();
+    const upcomingStarts = await ScheduledJob.find({
+      type: ScheduledJobType.AUTO_START,
+      status: ScheduledJobStatus.PENDING,
+      runAt: { $gt: new Date(now), $lte: new Date(now + 10000) },
+    });
+
+    const socketServer = getSocketServer();
+
+    for (const job of upcomingStarts) {
+      const spinWheelId = job.spinWheelId.toString();
+      const remainingSeconds = Math.ceil((job.runAt.getTime() - now) / 1000);
+
+      socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:countdown', {
+        spinWheelId,
+        remainingSeconds,
+        message: `Starting in ${remainingSeconds} seconds...`,
       });
     }
   }
 
   /**
-   * Schedule auto-start for a spin wheel
+   * Claim and run due jobs. The lease makes each step run on exactly one instance;
+   * jobs whose lease expired (crashed worker) are picked up again.
    */
-  public scheduleAutoStart(spinWheelId: string, autoStartAt: Date): void {
-    // Clear existing timer if any
-    this.clearAutoStartTimer(spinWheelId);
+  private async claimDueJobs(): Promise<void> {
+    const claimedJobs: Promise<void>[] = [];
+
+    // Stop claiming as soon as stopAll() runs; already claimed jobs still finish
+    for (let job = await this.claimNextJob(); job; job = this.pollTimer ? await this.claimNextJob() : null) {
+      // Each wheel's step runs independently of the others
+      claimedJobs.push(this.runJob(job));
+    }
 
+    await Promise.allSettled(claimedJobs);
+  }
+
+  /**
+   * Atomically lease the next due job
+   */
+  private async claimNextJob(): Promise<IScheduledJob | null> {
     const now = new Date();
-    const delay = autoStartAt.getTime() - now.getTime();
 
-    if (delay <= 0) {
-      // Should start immediately
-      this.autoStartSpinWheel(spinWheelId);
-      return;
+    return ScheduledJob.findOneAndUpdate(
+      {
+        jobKey: { $nin: Array.from(this.runningJobs) },
+        $or: [
+          { status: ScheduledJobStatus.PENDING, runAt: { $lte: now } },
+          { status: ScheduledJobStatus.RUNNING, lockedUntil: { $lt: now } },
+        ],
+      },
+      {
+        $set: {
+          status: ScheduledJobStatus.RUNNING,
+          lockedBy: this.instanceId,
+          lockedUntil: new Date(now.getTime() + this.jobLockMs),
+        },
+        $inc: { attempts: 1 },
+      },
+      { new: true, sort: { runAt: 1 } }
+    );
+  }
+
+  /**
+   * Run a leased job in its own context
+   */
+  private async runJob(job: IScheduledJob): Promise<void> {
+    // Wheel steps get their own job ID; transactions and broadcasts from the step carry it
+    return runWithContext(
+      { requestId: generateJobId(job.type), source: 'scheduler', jobKey: job.jobKey },
+      () => this.executeJob(job)
+    );
+  }
+
+  /**
+   * Helper: Run a leased job and record its outcome
+   */
+  private async executeJob(job: IScheduledJob): Promise<void> {
+    this.runningJobs.add(job.jobKey);
+
+    // runAt is the previous step plus eliminationInterval; later retries are delayed on purpose
+    if (job.type === ScheduledJobType.ELIMINATION && job.attempts === 1) {
+      MetricsService.observeEliminationLag(Date.now() - job.runAt.getTime());
     }
 
-    // Schedule auto-start
-    const timer = setTimeout(() => {
-      this.autoStartSpinWheel(spinWheelId);
-    }, delay);
+    try {
+      if (job.type === ScheduledJobType.AUTO_START) {
+        await this.autoStartSpinWheel(job.spinWheelId.toString());
+      } else {
+        await this.runElimination(job.spinWheelId.toString(), job.eliminationIndex!);
+      }
 
-    this.autoStartTimers.set(spinWheelId, timer);
+      await ScheduledJob.updateOne(
+        { _id: job._id, lockedBy: this.instanceId },
+        {
+          $set: { status: ScheduledJobStatus.COMPLETED, completedAt: new Date() },
+          $unset: { lockedBy: '', lockedUntil: '' },
+        }
+      );
+    } catch (error: any) {
+      const failed = job.attempts >= MAX_JOB_ATTEMPTS;
+
+      await ScheduledJob.updateOne(
+        { _id: job._id, lockedBy: this.instanceId },
+        {
+          $set: {
+            status: failed ? ScheduledJobStatus.FAILED : ScheduledJobStatus.PENDING,
+            runAt: new Date(Date.now() + 1000 * 2 ** job.attempts),
+            lastError: error.message,
+          },
+          $unset: { lockedBy: '', lockedUntil: '' },
+        }
+      );
 
-    loggers.spinWheel('Auto-start scheduled',
-      spinWheelId,
-     { autoStartAt: autoStartAt.toISOString(),
-      delayMs: delay,
-    });
+      loggers.spinWheel('Scheduled job failed', job.spinWheelId.toString(), {
+        jobKey: job.jobKey,
+        attempts: job.attempts,
+        willRetry: !failed,
+        error: error.message,
+      });
 
-    // Emit countdown updates every second for last 10 seconds
-    if (delay <= 10000) {
-      this.startCountdown(spinWheelId, delay);
+      if (failed) {
+        // The recovery sweep revives the step a few times, then aborts the wheel
+        logger.error('[SpinWheel] Scheduled job gave up', {
+          domain: 'spinWheel',
+          spinWheelId: job.spinWheelId.toString(),
+          jobKey: job.jobKey,
+          attempts: job.attempts,
+          error: error.message,
+        });
+      }
+    } finally {
+      this.runningJobs.delete(job.jobKey);
     }
   }
 
   /**
-   * Start countdown for last 10 seconds
+   * Helper: Make sure a step the wheel still needs will run. A step whose job
+   * finished or gave up is restarted a bounded number of times; after that the
+   * wheel is aborted and refunded rather than retried forever.
    */
-  private startCountdown(spinWheelId: string, initialDelay: number): void {
-    let remainingSeconds = Math.ceil(initialDelay / 1000);
-    const socketServer = getSocketServer();
+  private async recoverStep(
+    type: ScheduledJobType,
+    spinWheelId: string,
+    runAt: Date,
+    eliminationIndex?: number
+  ): Promise<void> {
+    const jobKey = this.jobKey(type, spinWheelId, eliminationIndex);
+    const job = await ScheduledJob.findOne({ jobKey });
+
+    if (!job || (job.status !== ScheduledJobStatus.FAILED && job.status !== ScheduledJobStatus.COMPLETED)) {
+      await this.enqueueJob(type, spinWheelId, runAt, eliminationIndex);
+      return;
+    }
 
-    const countdownInterval = setInterval(() => {
-      remainingSeconds--;
+    if ((job.revives || 0) >= MAX_JOB_REVIVES) {
+      await this.abortStuckSpinWheel(spinWheelId, job);
+      return;
+    }
 
-      if (remainingSeconds <= 0) {
-        clearInterval(countdownInterval);
-        return;
-      }
+    const revived = await ScheduledJob.findOneAndUpdate(
+      { _id: job._id, status: job.status, revives: job.revives || 0 },
+      {
+        $set: { status: ScheduledJobStatus.PENDING, runAt, attempts: 0 },
+        $inc: { revives: 1 },
+        $unset: { completedAt: '' },
+      },
+      { new: true }
+    );
 
-      socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:countdown', {
+    if (revived) {
+      logger.error('[SpinWheel] Revived scheduled job for a stuck wheel', {
+        domain: 'spinWheel',
         spinWheelId,
-        remainingSeconds,
-        message: `Starting in ${remainingSeconds} seconds...`,
+        jobKey,
+        previousStatus: job.status,
+        revives: revived.revives,
+        lastError: job.lastError,
       });
-    }, 1000);
+    }
   }
 
   /**
-   * Auto-start a spin wheel
+   * Helper: Abort a wheel whose step keeps failing and refund its participants
    */
-  private async autoStartSpinWheel(spinWheelId: string): Promise<void> {
+  private async abortStuckSpinWheel(spinWheelId: string, job: IScheduledJob): Promise<void> {
+    const reason = 'Spin wheel aborted - scheduled step kept failing';
+
     try {
-      const spinWheel = await SpinWheel.findById(spinWheelId);
+      const spinWheel = await SpinWheelService.abortSpinWheel(spinWheelId, reason, true);
+      this.cancelJobs(spinWheelId, ScheduledJobType.AUTO_START);
+      this.cancelJobs(spinWheelId, ScheduledJobType.ELIMINATION);
 
-      if (!spinWheel || spinWheel.status !== SpinWheelStatus.WAITING) {
-        this.clearAutoStartTimer(spinWheelId);
-        return;
-      }
+      logger.error('[SpinWheel] Aborted stuck spin wheel', {
+        domain: 'spinWheel',
+        spinWheelId,
+        jobKey: job.jobKey,
+        revives: job.revives,
+        lastError: job.lastError,
+      });
 
-      // Check if minimum participants met
-      if (spinWheel.participants.length < spinWheel.minParticipants) {
-        loggers.spinWheel('Auto-start aborted - insufficient participants',
-          spinWheelId,
-          { participants: spinWheel.participants.length,
-          minRequired: spinWheel.minParticipants,
-        });
+      getSocketServer().emitToSpinWheel(spinWheelId, 'spinwheel:aborted', {
+        spinWheelId,
+        reason,
+        participantsRefunded: spinWheel.participants.length,
+      });
+    } catch (error: any) {
+      logger.error('[SpinWheel] Could not abort stuck spin wheel', {
+        domain: 'spinWheel',
+        spinWheelId,
+        jobKey: job.jobKey,
+        error: error.message,
+      });
+    }
+  }
 
-        // Abort and refund
-        await SpinWheelService.abortSpinWheel(spinWheelId);
+  /**
+   * Helper: Unique key of a wheel step
+   */
+  private jobKey(type: ScheduledJobType, spinWheelId: string, eliminationIndex?: number): string {
+    return type === ScheduledJobType.ELIMINATION
+      ? `${type}:${spinWheelId}:${eliminationIndex}`
+      : `${type}:${spinWheelId}`;
+  }
 
-        // Emit abort event
-        const socketServer = getSocketServer();
-        socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:aborted', {
+  /**
+   * Persist a job for a wheel step (no-op if the step is already scheduled)
+   */
+  private async enqueueJob(
+    type: ScheduledJobType,
+    spinWheelId: string,
+    runAt: Date,
+    eliminationIndex?: number
+  ): Promise<void> {
+    const jobKey = this.jobKey(type, spinWheelId, eliminationIndex);
+
+    await ScheduledJob.updateOne(
+      { jobKey },
+      {
+        $setOnInsert: {
+          jobKey,
+          type,
           spinWheelId,
-          reason: 'Insufficient participants',
-          participantsRefunded: spinWheel.participants.length,
+          eliminationIndex,
+          runAt,
+          status: ScheduledJobStatus.PENDING,
+          attempts: 0,
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Schedule auto-start for a spin wheel
+   */
+  public scheduleAutoStart(spinWheelId: string, autoStartAt: Date): void {
+    this.enqueueJob(ScheduledJobType.AUTO_START, spinWheelId, autoStartAt)
+      .then(() => {
+        loggers.spinWheel('Auto-start scheduled',
+          spinWheelId,
+          { autoStartAt: autoStartAt.toISOString(),
+            delayMs: autoStartAt.getTime() - Date.now(),
+          });
+      })
+      .catch((error) => {
+        loggers.spinWheel('Error scheduling auto-start', spinWheelId, {
+          error: error.message,
         });
+      });
+  }
 
-        this.clearAutoStartTimer(spinWheelId);
-        return;
-      }
+  /**
+   * Auto-start a spin wheel
+   */
+  private async autoStartSpinWheel(spinWheelId: string): Promise<void> {
+    const spinWheel = await SpinWheel.findById(spinWheelId);
 
-      // Start the spin wheel
-      const startedSpinWheel = await SpinWheelService.startSpinWheel(spinWheelId);
+    if (!spinWheel || spinWheel.status !== SpinWheelStatus.WAITING) {
+      return;
+    }
 
-      loggers.spinWheel('Auto-started spin wheel',
-        spinWheelId, 
-        { participants: startedSpinWheel.participants.length },
-      );
+    // Check if minimum participants met
+    if (spinWheel.participants.length < spinWheel.minParticipants) {
+      loggers.spinWheel('Auto-start aborted - insufficient participants',
+        spinWheelId,
+        { participants: spinWheel.participants.length,
+        minRequired: spinWheel.minParticipants,
+      });
 
-      // Emit start event
+      // Abort and refund
+      await SpinWheelService.abortSpinWheel(spinWheelId);
+
+      // Emit abort event
       const socketServer = getSocketServer();
-      socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:started', {
+      socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:aborted', {
         spinWheelId,
-        status: startedSpinWheel.status,
-        participants: startedSpinWheel.participants.length,
-        eliminationSequence: startedSpinWheel.eliminationSequence,
-        startedAt: startedSpinWheel.startedAt,
+        reason: 'Insufficient participants',
+        participantsRefunded: spinWheel.participants.length,
       });
+      return;
+    }
 
-      // Clear auto-start timer
-      this.clearAutoStartTimer(spinWheelId);
+    // Start the spin wheel
+    const startedSpinWheel = await SpinWheelService.startSpinWheel(spinWheelId);
 
-      // Start elimination process
-      this.startEliminationProcess(spinWheelId);
-    } catch (error: any) {
-      loggers.spinWheel('Error auto-starting spin wheel',
-        spinWheelId, 
-        { error: error.message },
-      );
-    }
+    loggers.spinWheel('Auto-started spin wheel',
+      spinWheelId,
+      { participants: startedSpinWheel.participants.length },
+    );
+
+    // Emit start event
+    const socketServer = getSocketServer();
+    socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:started', {
+      spinWheelId,
+      status: startedSpinWheel.status,
+      participants: startedSpinWheel.participants.length,
+      eliminationSequence: startedSpinWheel.eliminationSequence,
+      startedAt: startedSpinWheel.startedAt,
+    });
+
+    // Start elimination process
+    this.startEliminationProcess(spinWheelId);
   }
 
   /**
-   * Start elimination process for a spin wheel
+   * Start elimination process for a spin wheel, paced by its own eliminationInterval
    */
   public startEliminationProcess(spinWheelId: string): void {
-    // Clear existing timer if any
-    this.clearEliminationTimer(spinWheelId);
-
-    const eliminationInterval = parseInt(process.env.ELIMINATION_INTERVAL || '7000');
-
-    const timer = setInterval(async () => {
-      try {
-        const spinWheel = await SpinWheel.findById(spinWheelId);
-
+    SpinWheel.findById(spinWheelId)
+      .then(async (spinWheel) => {
         if (!spinWheel || spinWheel.status !== SpinWheelStatus.IN_PROGRESS) {
-          this.clearEliminationTimer(spinWheelId);
-          return;
-        }
-
-        // Check if all eliminations are complete
-        if (spinWheel.currentEliminationIndex >= spinWheel.eliminationSequence.length) {
-          this.clearEliminationTimer(spinWheelId);
           return;
         }
 
-        // Eliminate next participant
-        const updatedSpinWheel = await SpinWheelService.eliminateNext(spinWheelId);
+        const eliminationInterval = spinWheel.eliminationInterval;
 
-        // Emit elimination event
-        const socketServer = getSocketServer();
-        const eliminatedUserId = spinWheel.eliminationSequence[spinWheel.currentEliminationIndex];
-        const eliminatedParticipant = spinWheel.participants.find(
-          (p) => p.userId.toString() === eliminatedUserId.toString()
+        await this.enqueueJob(
+          ScheduledJobType.ELIMINATION,
+          spinWheelId,
+          new Date(Date.now() + eliminationInterval),
+          spinWheel.currentEliminationIndex
         );
 
-        socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:elimination', {
+        loggers.spinWheel('Elimination process started',
           spinWheelId,
-          eliminatedUserId: eliminatedUserId.toString(),
-          eliminatedUsername: eliminatedParticipant?.name,
-          eliminationOrder: spinWheel.currentEliminationIndex + 1,
-          remainingParticipants: updatedSpinWheel.participants.filter((p) => !p.isEliminated).length,
+          { intervalMs: eliminationInterval,
+            fromIndex: spinWheel.currentEliminationIndex },
+        );
+      })
+      .catch((error) => {
+        loggers.spinWheel('Error starting elimination process', spinWheelId, {
+          error: error.message,
         });
+      });
+  }
 
-        // Check if game is completed
-        if (updatedSpinWheel.status === SpinWheelStatus.COMPLETED) {
-          this.clearEliminationTimer(spinWheelId);
-
-          // Emit completion event
-          socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:completed', {
-            spinWheelId,
-            winnerId: updatedSpinWheel.winnerId?.toString(),
-            winnerName: updatedSpinWheel.winnerName,
-            winnerPrize: updatedSpinWheel.winnerPool,
-            adminCommission: updatedSpinWheel.adminPool,
-            appFee: updatedSpinWheel.appPool,
-            totalParticipants: updatedSpinWheel.participants.length,
-            completedAt: updatedSpinWheel.completedAt,
-          });
+  /**
+   * Run a single elimination step and schedule the next one
+   */
+  private async runElimination(spinWheelId: string, eliminationIndex: number): Promise<void> {
+    const spinWheel = await SpinWheel.findById(spinWheelId);
+
+    // Step is stale: wheel finished or another worker already ran it
+    if (
+      !spinWheel ||
+      spinWheel.status !== SpinWheelStatus.IN_PROGRESS ||
+      spinWheel.currentEliminationIndex !== eliminationIndex ||
+      spinWheel.currentEliminationIndex >= spinWheel.eliminationSequence.length
+    ) {
+      return;
+    }
 
-          // Notify winner specifically
-          if (updatedSpinWheel.winnerId) {
-            socketServer.emitToUser(updatedSpinWheel.winnerId.toString(), 'user:won', {
-              spinWheelId,
-              prizeAmount: updatedSpinWheel.winnerPool,
-              message: `Congratulations! You won ${updatedSpinWheel.winnerPool} coins!`,
-            });
-          }
-
-          loggers.spinWheel('Spin wheel completed',
-            spinWheelId,
-            { winnerId: updatedSpinWheel.winnerId?.toString(),
-              winnerPrize: updatedSpinWheel.winnerPool },
-          );
-        }
-      } catch (error: any) {
-        loggers.spinWheel('Error in elimination process',
-          spinWheelId, {
-            error: error.message,
-          });
-      }
-    }, eliminationInterval);
+    // Eliminate next participant
+    const updatedSpinWheel = await SpinWheelService.eliminateNext(spinWheelId, eliminationIndex);
+
+    // Emit elimination event
+    const socketServer = getSocketServer();
+    const eliminatedUserId = spinWheel.eliminationSequence[eliminationIndex];
+    const eliminatedParticipant = spinWheel.participants.find(
+      (p) => p.userId.toString() === eliminatedUserId.toString()
+    );
+
+    socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:elimination', {
+      spinWheelId,
+      eliminatedUserId: eliminatedUserId.toString(),
+      eliminatedUsername: eliminatedParticipant?.name,
+      eliminationOrder: eliminationIndex + 1,
+      remainingParticipants: updatedSpinWheel.participants.filter((p) => !p.isEliminated).length,
+    });
+
+    // Check if game is completed
+    if (updatedSpinWheel.status === SpinWheelStatus.COMPLETED) {
+      // Emit completion event
+      socketServer.emitToSpinWheel(spinWheelId, 'spinwheel:completed', {
+        spinWheelId,
+        winnerId: updatedSpinWheel.winnerId?.toString(),
+        winnerName: updatedSpinWheel.winnerName,
+        winnerPrize: updatedSpinWheel.winners[0]?.prize ?? updatedSpinWheel.winnerPool,
+        winners: updatedSpinWheel.winners.map((w) => ({
+          userId: w.userId.toString(),
+          name: w.name,
+          position: w.position,
+          prize: w.prize,
+        })),
+        adminCommission: updatedSpinWheel.adminPool,
+        appFee: updatedSpinWheel.appPool,
+        totalParticipants: updatedSpinWheel.participants.length,
+        completedAt: updatedSpinWheel.completedAt,
+      });
 
-    this.eliminationTimers.set(spinWheelId, timer);
+      // Notify every paid position
+      updatedSpinWheel.winners.forEach((w) => {
+        socketServer.emitToUser(w.userId.toString(), 'user:won', {
+          spinWheelId,
+          position: w.position,
+          prizeAmount: w.prize,
+          message: `Congratulations! You finished #${w.position} and won ${w.prize} coins!`,
+        });
+      });
 
-    loggers.spinWheel('Elimination process started', 
+      loggers.spinWheel('Spin wheel completed',
+        spinWheelId,
+        { winnerId: updatedSpinWheel.winnerId?.toString(),
+          winners: updatedSpinWheel.winners.length,
+          winnerPrize: updatedSpinWheel.winnerPool },
+      );
+      return;
+    }
+
+    // Schedule the next step
+    await this.enqueueJob(
+      ScheduledJobType.ELIMINATION,
       spinWheelId,
-      { intervalMs: eliminationInterval },
+      new Date(Date.now() + updatedSpinWheel.eliminationInterval),
+      updatedSpinWheel.currentEliminationIndex
     );
   }
 
   /**
-   * Clear auto-start timer
+   * Cancel pending auto-start job
    */
   public clearAutoStartTimer(spinWheelId: string): void {
-    const timer = this.autoStartTimers.get(spinWheelId);
-    if (timer) {
-      clearTimeout(timer);
-      this.autoStartTimers.delete(spinWheelId);
-      loggers.spinWheel('Auto-start timer cleared', "", spinWheelId);
-    }
+    this.cancelJobs(spinWheelId, ScheduledJobType.AUTO_START);
   }
 
   /**
-   * Clear elimination timer
+   * Cancel pending elimination jobs
    */
   public clearEliminationTimer(spinWheelId: string): void {
-    const timer = this.eliminationTimers.get(spinWheelId);
-    if (timer) {
-      clearInterval(timer);
-      this.eliminationTimers.delete(spinWheelId);
-      loggers.spinWheel('Elimination timer cleared', "", spinWheelId);
-    }
+    this.cancelJobs(spinWheelId, ScheduledJobType.ELIMINATION);
   }
 
   /**
-   * Stop all timers
+   * Helper: Cancel pending jobs of a type for a wheel
    */
-  public stopAll(): void {
-    // Clear all auto-start timers
-    this.autoStartTimers.forEach((timer, spinWheelId) => {
-      clearTimeout(timer);
-      loggers.spinWheel('Auto-start timer stopped', "", spinWheelId);
-    });
-    this.autoStartTimers.clear();
+  private cancelJobs(spinWheelId: string, type: ScheduledJobType): void {
+    ScheduledJob.updateMany(
+      { spinWheelId, type, status: ScheduledJobStatus.PENDING },
+      { $set: { status: ScheduledJobStatus.CANCELLED } }
+    )
+      .then((result) => {
+        if (result.modifiedCount > 0) {
+          loggers.spinWheel('Scheduled jobs cancelled', spinWheelId, { type });
+        }
+      })
+      .catch((error) => {
+        loggers.spinWheel('Error cancelling scheduled jobs', spinWheelId, {
+          type,
+          error: error.message,
+        });
+      });
+  }
 
-    // Clear all elimination timers
-    this.eliminationTimers.forEach((timer, spinWheelId) => {
-      clearInterval(timer);
-      loggers.spinWheel('Elimination timer stopped', "", spinWheelId);
-    });
-    this.eliminationTimers.clear();
+  /**
+   * Stop polling, let running steps finish, then give up leadership.
+   * Every finished step is already checkpointed (currentEliminationIndex, job status),
+   * and persisted jobs stay in place so another instance (or a restart) picks them up.
+   * Steps still running after drainTimeoutMs are handed off once their job lease expires.
+   * @param drainTimeoutMs - How long to wait for running steps
+   */
+  public async stopAll(drainTimeoutMs: number = this.jobLockMs): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
 
-    // Clear check interval
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
+    // Running steps may be inside a payout transaction (completeSpinWheel)
+    const deadline = Date.now() + drainTimeoutMs;
+    while ((this.isPolling || this.runningJobs.size > 0) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    if (this.runningJobs.size > 0) {
+      loggers.spinWheel('Scheduler stopped with steps still running', '', {
+        instanceId: this.instanceId,
+        jobKeys: Array.from(this.runningJobs),
+      });
+    }
+
+    if (this.isLeader) {
+      await SchedulerLease.updateOne(
+        { name: LEADER_LEASE_NAME, holder: this.instanceId },
+        { $set: { expiresAt: new Date(0) } }
+      );
+      this.isLeader = false;
     }
 
-    loggers.spinWheel('All scheduler timers stopped', "");
+    loggers.spinWheel('Scheduler stopped', '', { instanceId: this.instanceId });
   }
 
   /**
    * Get scheduler status
    */
   public getStatus(): {
-    activeAutoStartTimers: number;
-    activeEliminationTimers: number;
+    instanceId: string;
+    isLeader: boolean;
+    runningJobs: number;
     isRunning: boolean;
   } {
     return {
-      activeAutoStartTimers: this.autoStartTimers.size,
-      activeEliminationTimers: this.eliminationTimers.size,
-      isRunning: this.checkInterval !== null,
+      instanceId: this.instanceId,
+      isLeader: this.isLeader,
+      runningJobs: this.runningJobs.size,
+      isRunning: this.pollTimer !== null,
     };
   }
 }
@@ -362,4 +694,4 @@ export const getScheduler = (): SpinWheelScheduler => {
   return schedulerInstance;
 };
 
-export default { getScheduler };
\ No newline at end of file
+export default { getScheduler };
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import AuthSession, { IAuthSession } from '../models/auth_session.models';
+import User, { IUser } from '../models/user.models';
+import { AuthenticationError, NotFoundError } from '../utils/apiResponse';
+import { generateRefreshToken, verifyRefreshToken, REFRESH_TOKEN_TTL_MS } from '../utils/jwt';
+import logger from '../utils/logger';
+
+export interface SessionContext {
+  device?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export class SessionService {
+  /**
+   * Open a new session (token family) for a user
+   * @param userId - User ID
+   * @param context - Device, IP and user agent of the client
+   * @returns Session and its first refresh token
+   */
+  static async createSession(
+    userId: mongoose.Types.ObjectId,
+    context: SessionContext
+  ): Promise<{ session: IAuthSession; refreshToken: string }> {
+    const session = new AuthSession({
+      userId,
+      device: context.device || this.describeDevice(context.userAgent),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+
+    const refreshToken = generateRefreshToken(userId, session._id);
+    session.refreshTokenHash = this.hashToken(refreshToken);
+    await session.save();
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Presenting a token that has
+   * already been rotated revokes the whole session.
+   * @param refreshToken - Refresh token presented by the client
+   * @param context - Device, IP and user agent of the client
+   * @returns User, session and the rotated refresh token
+   */
+  static async rotate(
+    refreshToken: string,
+    context: SessionContext
+  ): Promise<{ user: IUser; session: IAuthSession; refreshToken: string }> {
+    let payload: ReturnType<typeof verifyRefreshToken>;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const { userId, sessionId } = payload;
+
+    if (!sessionId) {
+      throw new AuthenticationError('Refresh token is no longer supported, please log in again');
+    }
+
+    const session = await AuthSession.findOne({ _id: sessionId, userId });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
+    const presentedHash = this.hashToken(refreshToken);
+    const nextToken = generateRefreshToken(session.userId, session._id);
+
+    // Only the holder of the current token wins the rotation
+    const rotated = await AuthSession.findOneAndUpdate(
+      { _id: session._id, refreshTokenHash: presentedHash, revokedAt: { $exists: false } },
+      {
+        $set: {
+          refreshTokenHash: this.hashToken(nextToken),
+          lastUsedAt: new Date(),
+          ipAddress: context.ipAddress ?? session.ipAddress,
+          userAgent: context.userAgent ?? session.userAgent,
+        },
+        $inc: { rotationCount: 1 },
+      },
+      { new: true }
+    );
+
+    if (!rotated) {
+      await this.revokeSession(session.userId.toString(), session._id.toString(), 'Refresh token reuse detected');
+      logger.warn(`Refresh token reuse detected for session ${session._id} of user ${session.userId}`);
+      throw new AuthenticationError('Refresh token reuse detected, session revoked');
+    }
+
+    const user = await User.findById(session.userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (!user.isActive) {
+      throw new AuthenticationError('User account is deactivated');
+    }
+
+    return { user, session: rotated, refreshToken: nextToken };
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   * @param userId - User ID
+   * @returns Active sessions
+   */
+  static async listSessions(userId: string): Promise<IAuthSession[]> {
+    return AuthSession.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   * @param userId - Owner of the session
+   * @param sessionId - Session ID
+   * @param reason - Reason stored with the revocation
+   * @returns Revoked session
+   */
+  static async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: string = 'Revoked by user'
+  ): Promise<IAuthSession> {
+    if (!mongoose.isValidObjectId(sessionId)) {
+      throw new NotFoundError('Session');
+    }
+
+    const session = await AuthSession.findOne({ _id: sessionId, userId });
+
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+
+    if (!session.revokedAt) {
+      session.revokedAt = new Date();
+      session.revokedReason = reason;
+      await session.save();
+    }
+
+    return session;
+  }
+
+  /**
+   * Revoke every active session of a user
+   * @param userId - User ID
+   * @param reason - Reason stored with the revocation
+   * @returns Number of sessions revoked
+   */
+  static async revokeAllSessions(userId: string, reason: string): Promise<number> {
+    const result = await AuthSession.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Check whether a session is still usable
+   * @param sessionId - Session ID
+   */
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await AuthSession.exists({
+      _id: sessionId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+
+    return session !== null;
+  }
+
+  /**
+   * Helper: Hash a refresh token for storage
+   */
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Helper: Rough device label from a user agent
+   */
+  private static describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const platform =
+      /iphone|ipad|ios/i.test(userAgent) ? 'iOS' :
+      /android/i.test(userAgent) ? 'Android' :
+      /windows/i.test(userAgent) ? 'Windows' :
+      /mac os/i.test(userAgent) ? 'macOS' :
+      /linux/i.test(userAgent) ? 'Linux' :
+      'Unknown OS';
+
+    const browser =
+      /edg\//i.test(userAgent) ? 'Edge' :
+      /chrome\//i.test(userAgent) ? 'Chrome' :
+      /firefox\//i.test(userAgent) ? 'Firefox' :
+      /safari\//i.test(userAgent) ? 'Safari' :
+      'Unknown client';
+
+    return `${browser} on ${platform}`;
+  }
+}
+
+export default SessionService;
@@ -0,0 +1,70 @@
+import logger from '../utils/logger';
+
+export interface ShutdownStep {
+  name: string;
+  run: () => Promise<void> | void;
+}
+
+export class ShutdownManager {
+  private draining = false;
+  private steps: ShutdownStep[] = [];
+  private shutdownPromise: Promise<void> | null = null;
+
+  /**
+   * Register a step; steps run one after another in registration order
+   */
+  public addStep(name: string, run: ShutdownStep['run']): void {
+    this.steps.push({ name, run });
+  }
+
+  /**
+   * True once shutdown started: readiness fails and new joins are refused
+   */
+  public isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Run every step once. A failing step is logged and the rest still run,
+   * so one stuck dependency cannot keep the others open.
+   * @param signal - What triggered the shutdown (for the logs)
+   */
+  public shutdown(signal: string): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.draining = true;
+      this.shutdownPromise = this.runSteps(signal);
+    }
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Helper: Run the registered steps in order
+   */
+  private async runSteps(signal: string): Promise<void> {
+    logger.info(`Shutdown started (${signal})`);
+
+    for (const step of this.steps) {
+      const startedAt = Date.now();
+      try {
+        await step.run();
+        logger.info(`Shutdown step completed: ${step.name}`, { durationMs: Date.now() - startedAt });
+      } catch (error) {
+        logger.error(`Shutdown step failed: ${step.name}`, error);
+      }
+    }
+
+    logger.info('Shutdown complete');
+  }
+}
+
+// Singleton instance
+let shutdownManager: ShutdownManager | null = null;
+
+export const getShutdownManager = (): ShutdownManager => {
+  if (!shutdownManager) {
+    shutdownManager = new ShutdownManager();
+  }
+  return shutdownManager;
+};
+
+export default { getShutdownManager };
@@ -1,14 +1,46 @@
 import mongoose from 'mongoose';
-import SpinWheel, { ISpinWheel, SpinWheelStatus } from '../models/spin_wheels.models';
+import SpinWheel, { IParticipant, ISpinWheel, SpinWheelStatus } from '../models/spin_wheels.models';
 import User from '../models/user.models';
 import Transaction, { TransactionType } from '../models/transaction.models';
+import SpinWheelLock from '../models/spin_wheel_lock.models';
 import {
   SpinWheelError,
   NotFoundError,
-  InsufficientCoinsError,
   ConflictError,
+  ConcurrencyError,
+  ValidationError,
+  AuthorizationError,
 } from '../utils/apiResponse';
 import { loggers } from '../utils/logger';
+import { FairnessService } from './fairness.service';
+import { LedgerService, SystemAccount } from './ledger.service';
+import { getConfigService } from './config.service';
+import { MetricsService } from './metrics.service';
+import { WalletService } from './wallet.service';
+import { allocateProportionally } from '../utils/coins';
+import { runTransaction } from '../utils/db';
+
+export interface SpinWheelOptions {
+  templateId?: string;
+  minParticipants?: number;
+  winnerPoolPercentage?: number;
+  adminPoolPercentage?: number;
+  appPoolPercentage?: number;
+  autoStartTime?: number;
+  eliminationInterval?: number;
+  winnerCount?: number;
+  prizeTable?: number[];
+}
+
+export interface ActiveSpinWheelFilters {
+  status?: SpinWheelStatus.WAITING | SpinWheelStatus.IN_PROGRESS;
+  adminId?: string;
+  minEntryFee?: number;
+  maxEntryFee?: number;
+  joinable?: boolean;
+}
+
+const ACTIVE_STATUSES = [SpinWheelStatus.WAITING, SpinWheelStatus.IN_PROGRESS];
 
 export class SpinWheelService {
   /**
@@ -16,52 +48,130 @@ export class SpinWheelService {
    * @param adminId - Admin user ID
    * @param adminName - Admin name
    * @param entryFee - Entry fee in coins
+   * @param maxParticipants - Maximum participants
+   * @param options - Per-wheel overrides of the runtime config defaults
    * @returns Created spin wheel
    */
   static async createSpinWheel(
     adminId: string,
     adminName: string,
     entryFee: number,
-    maxParticipants: number
+    maxParticipants: number,
+    options: SpinWheelOptions = {}
   ): Promise<ISpinWheel> {
-    // Check if there's already an active spin wheel
-    const activeWheel = await SpinWheel.findOne({
-      status: { $in: [SpinWheelStatus.WAITING, SpinWheelStatus.IN_PROGRESS] }
-    });
+    const config = await getConfigService().getMany([
+      'MAX_ACTIVE_SPIN_WHEELS',
+      'MAX_ACTIVE_SPIN_WHEELS_PER_ADMIN',
+      'WINNER_POOL_PERCENTAGE',
+      'ADMIN_POOL_PERCENTAGE',
+      'APP_POOL_PERCENTAGE',
+      'AUTO_START_TIMEOUT',
+      'ELIMINATION_INTERVAL',
+      'MIN_PARTICIPANTS',
+    ]);
 
-    if (activeWheel) {
-      throw new ConflictError('There is already an active spin wheel');
-    }
+    await this.assertOptionsWithinBounds(options, maxParticipants);
+
+    // Concurrent wheel limits (global and per admin) are checked inside the create transaction
+    const maxActiveWheels: number = config.MAX_ACTIVE_SPIN_WHEELS;
+    const maxActiveWheelsPerAdmin: number = config.MAX_ACTIVE_SPIN_WHEELS_PER_ADMIN;
 
-    // Get distribution config from env
-    const winnerPoolPercentage = parseInt(process.env.WINNER_POOL_PERCENTAGE || '70');
-    const adminPoolPercentage = parseInt(process.env.ADMIN_POOL_PERCENTAGE || '20');
-    const appPoolPercentage = parseInt(process.env.APP_POOL_PERCENTAGE || '10');
+    // Distribution: per-wheel split if supplied, otherwise runtime config
+    const winnerPoolPercentage: number = options.winnerPoolPercentage ?? config.WINNER_POOL_PERCENTAGE;
+    const adminPoolPercentage: number = options.adminPoolPercentage ?? config.ADMIN_POOL_PERCENTAGE;
+    const appPoolPercentage: number = options.appPoolPercentage ?? config.APP_POOL_PERCENTAGE;
 
     // Validate percentages sum to 100
-    if (winnerPoolPercentage + adminPoolPercentage + appPoolPercentage !== 100) {
+    if (Math.abs(winnerPoolPercentage + adminPoolPercentage + appPoolPercentage - 100) > 0.01) {
       throw new SpinWheelError('Distribution percentages must sum to 100');
     }
 
-    const spinWheel = new SpinWheel({
+    // Payout structure: top-N survivors, paid equally or by prize table
+    const prizeTable = options.prizeTable ?? [];
+    const winnerCount = options.winnerCount ?? (prizeTable.length || 1);
+    const minParticipants: number = options.minParticipants ?? config.MIN_PARTICIPANTS;
+
+    if (prizeTable.length > 0 && prizeTable.length !== winnerCount) {
+      throw new SpinWheelError('Prize table must have one entry per winner');
+    }
+
+    if (prizeTable.length > 0 && Math.abs(prizeTable.reduce((sum, share) => sum + share, 0) - 100) > 0.01) {
+      throw new SpinWheelError('Prize table must sum to 100');
+    }
+
+    if (winnerCount >= minParticipants) {
+      throw new SpinWheelError('Number of winners must be less than the minimum participants');
+    }
+
+    // Commit to the server seed before anyone can join
+    const serverSeed = FairnessService.generateServerSeed();
+
+    const wheelData = {
       adminId: new mongoose.Types.ObjectId(adminId),
       adminName,
       entryFee,
       winnerPoolPercentage,
       adminPoolPercentage,
       appPoolPercentage,
-      autoStartTime: parseInt(process.env.AUTO_START_TIMEOUT || '180000'),
-      eliminationInterval: parseInt(process.env.ELIMINATION_INTERVAL || '7000'),
-      minParticipants: parseInt(process.env.MIN_PARTICIPANTS || '3'),
+      autoStartTime: options.autoStartTime ?? config.AUTO_START_TIMEOUT,
+      eliminationInterval: options.eliminationInterval ?? config.ELIMINATION_INTERVAL,
+      minParticipants,
       maxParticipants,
-    });
+      winnerCount,
+      prizeTable,
+      templateId: options.templateId && new mongoose.Types.ObjectId(options.templateId),
+      serverSeed,
+      serverSeedHash: FairnessService.hashSeed(serverSeed),
+    };
 
-    await spinWheel.save();
+    let spinWheel: ISpinWheel;
+    const session = await mongoose.startSession();
+    try {
+      spinWheel = await runTransaction(session, 'spinWheel.create', async () => {
+        // Every create writes the same lock document, so concurrent creates
+        // conflict and are retried with a snapshot that includes the winner
+        await SpinWheelLock.updateOne(
+          { key: 'create' },
+          { $inc: { version: 1 } },
+          { upsert: true, session }
+        );
+
+        // Sequential: operations on one session cannot run in parallel inside a transaction
+        const activeWheels = await SpinWheel.countDocuments({
+          status: { $in: ACTIVE_STATUSES }
+        }).session(session);
+        const adminActiveWheels = await SpinWheel.countDocuments({
+          adminId: new mongoose.Types.ObjectId(adminId),
+          status: { $in: ACTIVE_STATUSES }
+        }).session(session);
+
+        if (activeWheels >= maxActiveWheels) {
+          throw new ConflictError(`Maximum of ${maxActiveWheels} active spin wheels reached`);
+        }
+
+        if (adminActiveWheels >= maxActiveWheelsPerAdmin) {
+          throw new ConflictError(
+            `You already have ${adminActiveWheels} active spin wheels (limit ${maxActiveWheelsPerAdmin})`
+          );
+        }
+
+        // Built per attempt so a retried transaction inserts again
+        const created = new SpinWheel(wheelData);
+        await created.save({ session });
+        return created;
+      });
+    } finally {
+      session.endSession();
+    }
 
     loggers.spinWheel('Created', spinWheel._id.toString(), {
       adminId,
       adminName,
       entryFee,
+      templateId: options.templateId,
+      serverSeedHash: spinWheel.serverSeedHash,
+      winnerCount,
+      prizeTable,
       distribution: {
         winner: winnerPoolPercentage,
         admin: adminPoolPercentage,
@@ -73,252 +183,324 @@ export class SpinWheelService {
   }
 
   /**
-   * Join spin wheel
+   * Join spin wheel. The entry fee is held on the user's wallet and only
+   * charged when the wheel starts.
    * @param spinWheelId - Spin wheel ID
    * @param userId - User ID
    * @param name - name
+   * @param clientSeed - Optional client entropy for the provably-fair shuffle
    * @returns Updated spin wheel
    */
   static async joinSpinWheel(
     spinWheelId: string,
     userId: string,
-    name: string
+    name: string,
+    clientSeed?: string
   ): Promise<ISpinWheel> {
     const session = await mongoose.startSession();
-    session.startTransaction();
 
     try {
-      // Get spin wheel with lock
-      const spinWheel = await SpinWheel.findOne({
-        _id: spinWheelId,
-        status: SpinWheelStatus.WAITING
-      }).session(session);
-
-      if (!spinWheel) {
-        throw new NotFoundError('Spin wheel not found or already started');
-      }
+      const { spinWheel, hold } = await runTransaction(session, 'spinWheel.join', async () => {
+        // Get spin wheel with lock
+        const spinWheel = await SpinWheel.findOne({
+          _id: spinWheelId,
+          status: SpinWheelStatus.WAITING
+        }).session(session);
+
+        if (!spinWheel) {
+          throw new NotFoundError('Spin wheel not found or already started');
+        }
 
-      // Check if user is admin
-      if (spinWheel.adminId.toString() === userId) {
-        throw new SpinWheelError('Admin cannot join their own spin wheel');
-      }
+        // Check if user is admin
+        if (spinWheel.adminId.toString() === userId) {
+          throw new SpinWheelError('Admin cannot join their own spin wheel');
+        }
 
-      // Check if user already joined
-      const alreadyJoined = spinWheel.participants.some(
-        (p) => p.userId.toString() === userId
-      );
+        // Check if user already joined
+        const alreadyJoined = spinWheel.participants.some(
+          (p) => p.userId.toString() === userId
+        );
 
-      if (alreadyJoined) {
-        throw new ConflictError('You have already joined this spin wheel');
-      }
+        if (alreadyJoined) {
+          throw new ConflictError('You have already joined this spin wheel');
+        }
 
-      // Check max participants
-      if (spinWheel.participants.length >= spinWheel.maxParticipants) {
-        throw new SpinWheelError('Spin wheel is full');
-      }
+        // Check max participants
+        if (spinWheel.participants.length >= spinWheel.maxParticipants) {
+          throw new SpinWheelError('Spin wheel is full');
+        }
 
-      // Get user with lock
-      const user = await User.findById(userId).session(session);
+        // Get user with lock
+        const user = await User.findById(userId).session(session);
 
-      if (!user) {
-        throw new NotFoundError('User not found');
-      }
+        if (!user) {
+          throw new NotFoundError('User not found');
+        }
 
-      // Check sufficient balance
-      if (user.coins < spinWheel.entryFee) {
-        throw new InsufficientCoinsError(spinWheel.entryFee, user.coins);
-      }
+        if (user.isEmailVerified === false) {
+          throw new AuthorizationError('Please verify your email address before joining a spin wheel');
+        }
+
+        // Reserve the entry fee; fails if the available balance is too low
+        const hold = await WalletService.placeHold(userId, spinWheel._id, spinWheel.entryFee, session);
 
+        // Pools show the pot the wheel will have once the holds are captured
+        const { winnerAmount, adminAmount, appAmount } = this.splitEntryFee(
+          spinWheel.entryFee,
+          spinWheel
+        );
 
-      // Calculate distribution
-      const winnerAmount = (spinWheel.entryFee * spinWheel.winnerPoolPercentage) / 100;
-      const adminAmount = (spinWheel.entryFee * spinWheel.adminPoolPercentage) / 100;
-      const appAmount = (spinWheel.entryFee * spinWheel.appPoolPercentage) / 100;
+        spinWheel.winnerPool += winnerAmount;
+        spinWheel.adminPool += adminAmount;
+        spinWheel.appPool += appAmount;
+
+        // Add participant
+        spinWheel.participants.push({
+          userId: new mongoose.Types.ObjectId(userId),
+          name,
+          joinedAt: new Date(),
+          entryFeePaid: spinWheel.entryFee,
+          isEliminated: false,
+          clientSeed: clientSeed || FairnessService.generateClientSeed(),
+          holdId: hold._id
+        });
 
-      // Update pools
-      spinWheel.winnerPool += winnerAmount;
-      spinWheel.adminPool += adminAmount;
-      spinWheel.appPool += appAmount;
+        await spinWheel.save({ session });
 
-      // Add participant
-      spinWheel.participants.push({
-        userId: new mongoose.Types.ObjectId(userId),
-        name,
-        joinedAt: new Date(),
-        entryFeePaid: spinWheel.entryFee,
-        isEliminated: false
+        return { spinWheel, hold };
       });
+      MetricsService.recordJoin();
 
-      await spinWheel.save({ session });
+      loggers.spinWheel('Participant joined', spinWheel._id.toString(), {
+        userId,
+        holdId: hold._id.toString(),
+        entryFee: spinWheel.entryFee,
+        totalParticipants: spinWheel.participants.length
+      });
 
-    
+      return spinWheel;
+    } catch (error) {
+      MetricsService.recordJoin(error);
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
 
-      // Deduct coins from user
-      const balanceBefore = Number(user.coins);
-      user.coins -= spinWheel.entryFee;
-      await user.save({ session });
+  /**
+   * Leave a waiting spin wheel and release (or refund) the entry fee
+   * @param spinWheelId - Spin wheel ID
+   * @param userId - User ID
+   * @returns Updated spin wheel and the user's new available balance
+   */
+  static async leaveSpinWheel(
+    spinWheelId: string,
+    userId: string
+  ): Promise<{ spinWheel: ISpinWheel; refundAmount: number; userBalance: number }> {
+    const cutoffWindow: number = await getConfigService().get('LEAVE_CUTOFF_WINDOW');
 
-      // Create transaction record
-      const transaction = new Transaction({
-        userId: new mongoose.Types.ObjectId(userId),
-        name,
-        spinWheelId: spinWheel._id,
-        type: TransactionType.ENTRY_FEE,
-        amount: -spinWheel.entryFee,
-        balanceBefore,
-        balanceAfter: user.coins,
-        metadata: {
-          adminId: spinWheel.adminId,
-          adminName: spinWheel.adminName,
-          entryFee: spinWheel.entryFee,
-          distributionBreakdown: {
-            winnerPool: winnerAmount,
-            adminPool: adminAmount,
-            appPool: appAmount
-          }
+    const session = await mongoose.startSession();
+
+    try {
+      const { spinWheel, participant, user } = await runTransaction(session, 'spinWheel.leave', async () => {
+        const spinWheel = await SpinWheel.findOne({
+          _id: spinWheelId,
+          status: SpinWheelStatus.WAITING
+        }).session(session);
+
+        if (!spinWheel) {
+          throw new NotFoundError('Spin wheel not found or already started');
         }
-      });
 
-      await transaction.save({ session });
+        if (spinWheel.autoStartAt && Date.now() >= spinWheel.autoStartAt.getTime() - cutoffWindow) {
+          throw new SpinWheelError(
+            `Cannot leave within ${Math.round(cutoffWindow / 1000)} seconds of the spin wheel starting`
+          );
+        }
 
-      await session.commitTransaction();
+        const participantIndex = spinWheel.participants.findIndex(
+          (p) => p.userId.toString() === userId
+        );
 
-      loggers.transaction(
-        'Entry fee paid',
-        userId,
-        -spinWheel.entryFee,
-        {
-          spinWheelId: spinWheel._id.toString(),
-          newBalance: user.coins,
-          totalParticipants: spinWheel.participants.length
+        if (participantIndex === -1) {
+          throw new SpinWheelError('You have not joined this spin wheel');
         }
-      );
 
-      return spinWheel;
-    } catch (error) {
-      await session.abortTransaction();
-      throw error;
+        const [participant] = spinWheel.participants.splice(participantIndex, 1);
+
+        // Unwind the participant's share from each pool
+        const { winnerAmount, adminAmount, appAmount } = this.splitEntryFee(
+          participant.entryFeePaid,
+          spinWheel
+        );
+        spinWheel.winnerPool -= winnerAmount;
+        spinWheel.adminPool -= adminAmount;
+        spinWheel.appPool -= appAmount;
+
+        await spinWheel.save({ session });
+
+        if (participant.holdId) {
+          await WalletService.releaseHold(participant.holdId, 'Participant left before start', session);
+        } else {
+          await this.refundEntryFee(spinWheel, participant, 'Participant left before start', session);
+        }
+
+        const user = await User.findById(userId).session(session);
+
+        if (!user) {
+          throw new NotFoundError('User not found');
+        }
+
+        return { spinWheel, participant, user };
+      });
+
+      loggers.spinWheel('Participant left', spinWheel._id.toString(), {
+        userId,
+        released: participant.entryFeePaid,
+        totalParticipants: spinWheel.participants.length
+      });
+
+      return {
+        spinWheel,
+        refundAmount: participant.entryFeePaid,
+        userBalance: WalletService.getBalance(user).available
+      };
     } finally {
       session.endSession();
     }
   }
 
   /**
-   * Start spin wheel
+   * Start spin wheel. Captures every participant's hold, so entry fees
+   * leave the wallets only once the wheel is actually running.
    * @param spinWheelId - Spin wheel ID
    * @returns Updated spin wheel
    */
   static async startSpinWheel(spinWheelId: string): Promise<ISpinWheel> {
-    const spinWheel = await SpinWheel.findById(spinWheelId);
+    const session = await mongoose.startSession();
 
-    if (!spinWheel) {
-      throw new NotFoundError('Spin wheel not found');
-    }
+    try {
+      const spinWheel = await runTransaction(session, 'spinWheel.start', async () => {
+        const spinWheel = await SpinWheel.findById(spinWheelId).select('+serverSeed').session(session);
 
-    if (spinWheel.status !== SpinWheelStatus.WAITING) {
-      throw new SpinWheelError('Spin wheel is not in waiting state');
-    }
+        if (!spinWheel) {
+          throw new NotFoundError('Spin wheel not found');
+        }
 
-    if (spinWheel.participants.length < spinWheel.minParticipants) {
-      throw new SpinWheelError(
-        `Minimum ${spinWheel.minParticipants} participants required. Current: ${spinWheel.participants.length}`
-      );
-    }
+        if (spinWheel.status !== SpinWheelStatus.WAITING) {
+          throw new SpinWheelError('Spin wheel is not in waiting state');
+        }
 
-    // Generate random elimination sequence
-    const participantIds = spinWheel.participants.map((p) => p.userId);
-    const shuffled = this.shuffleArray([...participantIds]);
+        if (spinWheel.participants.length < spinWheel.minParticipants) {
+          throw new SpinWheelError(
+            `Minimum ${spinWheel.minParticipants} participants required. Current: ${spinWheel.participants.length}`
+          );
+        }
 
-    spinWheel.eliminationSequence = shuffled;
-    spinWheel.currentEliminationIndex = 0;
-    spinWheel.status = SpinWheelStatus.IN_PROGRESS;
-    spinWheel.startedAt = new Date();
+        if (spinWheel.participants.length <= spinWheel.winnerCount) {
+          throw new SpinWheelError(
+            `More than ${spinWheel.winnerCount} participants required for ${spinWheel.winnerCount} winners`
+          );
+        }
 
-    await spinWheel.save();
+        // Settle the holds; legacy participants already paid on join
+        for (const participant of spinWheel.participants) {
+          if (participant.holdId) {
+            await this.chargeEntryFee(spinWheel, participant, session);
+          }
+        }
 
-    loggers.spinWheel('Started', spinWheel._id.toString(), {
-      participants: spinWheel.participants.length,
-      totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool,
-      eliminationSequence: spinWheel.eliminationSequence.map(id => id.toString())
-    });
+        // Wheels created before provably-fair mode have no committed seed
+        if (!spinWheel.serverSeed) {
+          spinWheel.serverSeed = FairnessService.generateServerSeed();
+          spinWheel.serverSeedHash = FairnessService.hashSeed(spinWheel.serverSeed);
+        }
 
-    return spinWheel;
+        // Derive elimination sequence from server seed and participant client seeds
+        const participantIds = spinWheel.participants.map((p) => p.userId);
+        const clientSeedHash = FairnessService.combineClientSeeds(spinWheel.participants);
+        const shuffled = FairnessService.shuffle(participantIds, spinWheel.serverSeed, clientSeedHash);
+
+        spinWheel.clientSeedHash = clientSeedHash;
+        spinWheel.eliminationSequence = shuffled;
+        spinWheel.currentEliminationIndex = 0;
+        spinWheel.status = SpinWheelStatus.IN_PROGRESS;
+        spinWheel.startedAt = new Date();
+
+        await spinWheel.save({ session });
+
+        return spinWheel;
+      });
+
+      loggers.spinWheel('Started', spinWheel._id.toString(), {
+        participants: spinWheel.participants.length,
+        totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool,
+        clientSeedHash: spinWheel.clientSeedHash,
+        eliminationSequence: spinWheel.eliminationSequence.map(id => id.toString())
+      });
+
+      return spinWheel;
+    } finally {
+      session.endSession();
+    }
   }
 
   /**
-   * Abort spin wheel and refund all participants
+   * Abort spin wheel and release (or refund) every participant's entry fee
    * @param spinWheelId - Spin wheel ID
+   * @param reason - Recorded on released holds and refunds
+   * @param allowInProgress - Also abort a running wheel whose steps keep failing;
+   *                          its fees were already charged, so everyone is refunded
    * @returns Updated spin wheel
    */
-  static async abortSpinWheel(spinWheelId: string): Promise<ISpinWheel> {
+  static async abortSpinWheel(
+    spinWheelId: string,
+    reason: string = 'Spin wheel aborted - insufficient participants',
+    allowInProgress: boolean = false
+  ): Promise<ISpinWheel> {
     const session = await mongoose.startSession();
-    session.startTransaction();
 
     try {
-      const spinWheel = await SpinWheel.findById(spinWheelId).session(session);
-
-      if (!spinWheel) {
-        throw new NotFoundError('Spin wheel not found');
-      }
-
-      if (spinWheel.status !== SpinWheelStatus.WAITING) {
-        throw new SpinWheelError('Can only abort waiting spin wheels');
-      }
+      const spinWheel = await runTransaction(session, 'spinWheel.abort', async () => {
+        const spinWheel = await SpinWheel.findById(spinWheelId).session(session);
 
-      // Refund all participants
-      for (const participant of spinWheel.participants) {
-        const user = await User.findById(participant.userId).session(session);
+        if (!spinWheel) {
+          throw new NotFoundError('Spin wheel not found');
+        }
 
-        if (user) {
-          const balanceBefore = user.coins;
-          user.coins += participant.entryFeePaid;
-          await user.save({ session });
+        const inProgress = allowInProgress && spinWheel.status === SpinWheelStatus.IN_PROGRESS;
 
-          // Create refund transaction
-          const transaction = new Transaction({
-            userId: participant.userId,
-            name: participant.name,
-            spinWheelId: spinWheel._id,
-            type: TransactionType.REFUND,
-            amount: participant.entryFeePaid,
-            balanceBefore,
-            balanceAfter: user.coins,
-            metadata: {
-              reason: 'Spin wheel aborted - insufficient participants',
-              originalEntryFee: participant.entryFeePaid
-            }
-          });
-
-          await transaction.save({ session });
+        if (spinWheel.status !== SpinWheelStatus.WAITING && !inProgress) {
+          throw new SpinWheelError('Can only abort waiting spin wheels');
+        }
 
-          loggers.transaction(
-            'Refund issued',
-            participant.userId.toString(),
-            participant.entryFeePaid,
-            { spinWheelId: spinWheel._id.toString() }
-          );
+        for (const participant of spinWheel.participants) {
+          // Holds are captured when the wheel starts
+          if (participant.holdId && !inProgress) {
+            await WalletService.releaseHold(participant.holdId, reason, session);
+          } else {
+            await this.refundEntryFee(spinWheel, participant, reason, session);
+          }
         }
-      }
 
-      // Reset pools to zero
-      spinWheel.winnerPool = 0;
-      spinWheel.adminPool = 0;
-      spinWheel.appPool = 0;
-      spinWheel.status = SpinWheelStatus.ABORTED;
-      spinWheel.completedAt = new Date();
-      await spinWheel.save({ session });
+        // Reset pools to zero
+        spinWheel.winnerPool = 0;
+        spinWheel.adminPool = 0;
+        spinWheel.appPool = 0;
+        spinWheel.status = SpinWheelStatus.ABORTED;
+        spinWheel.completedAt = new Date();
+        await spinWheel.save({ session });
 
-      await session.commitTransaction();
+        return spinWheel;
+      });
 
       loggers.spinWheel('Aborted and refunded', spinWheel._id.toString(), {
+        reason,
         participantsRefunded: spinWheel.participants.length,
         totalRefunded: spinWheel.participants.reduce((sum, p) => sum + p.entryFeePaid, 0)
       });
 
       return spinWheel;
-    } catch (error) {
-      await session.abortTransaction();
-      throw error;
     } finally {
       session.endSession();
     }
@@ -327,9 +509,11 @@ export class SpinWheelService {
   /**
    * Eliminate next participant
    * @param spinWheelId - Spin wheel ID
+   * @param expectedIndex - Elimination index the caller is executing; the write
+   *                        is rejected if another worker already advanced it
    * @returns Updated spin wheel
    */
-  static async eliminateNext(spinWheelId: string): Promise<ISpinWheel> {
+  static async eliminateNext(spinWheelId: string, expectedIndex?: number): Promise<ISpinWheel> {
     const spinWheel = await SpinWheel.findById(spinWheelId);
 
     if (!spinWheel) {
@@ -344,6 +528,16 @@ export class SpinWheelService {
       throw new SpinWheelError('All eliminations completed');
     }
 
+    if (expectedIndex !== undefined) {
+      if (spinWheel.currentEliminationIndex !== expectedIndex) {
+        throw new ConcurrencyError(
+          `Elimination ${expectedIndex} already processed (current index ${spinWheel.currentEliminationIndex})`
+        );
+      }
+      // Only save if no other worker has advanced the wheel in the meantime
+      spinWheel.$where = { currentEliminationIndex: expectedIndex };
+    }
+
     // Get next user to eliminate
     const eliminatedUserId = spinWheel.eliminationSequence[spinWheel.currentEliminationIndex];
 
@@ -356,15 +550,16 @@ export class SpinWheelService {
       participant.isEliminated = true;
       participant.eliminatedAt = new Date();
       participant.eliminationOrder = spinWheel.currentEliminationIndex + 1;
+      participant.position = spinWheel.eliminationSequence.length - spinWheel.currentEliminationIndex;
     }
 
     spinWheel.currentEliminationIndex++;
 
-    // Check if this was the last elimination
+    // Check if only the paid positions remain
     const remainingCount = spinWheel.participants.filter((p) => !p.isEliminated).length;
 
-    if (remainingCount === 1) {
-      // We have a winner!
+    if (remainingCount <= spinWheel.winnerCount) {
+      // We have our winners!
       await this.completeSpinWheel(spinWheel);
     } else {
       await spinWheel.save();
@@ -385,141 +580,248 @@ export class SpinWheelService {
    */
   private static async completeSpinWheel(spinWheel: ISpinWheel): Promise<void> {
     const session = await mongoose.startSession();
-    session.startTransaction();
 
     try {
-      // Find winner
-      const winner = spinWheel.participants.find((p) => !p.isEliminated);
-
-      if (!winner) {
-        throw new SpinWheelError('No winner found');
-      }
+      const winner = await runTransaction(session, 'spinWheel.complete', async () => {
+        // An aborted attempt's save clears change tracking; make a retry write everything again
+        [
+          'participants',
+          'currentEliminationIndex',
+          'winners',
+          'winnerId',
+          'winnerName',
+          'status',
+          'completedAt',
+          'serverSeedRevealedAt',
+        ].forEach((path) => spinWheel.markModified(path));
+
+        // Rank survivors by their place in the elimination sequence (last = 1st)
+        const survivors = spinWheel.participants.filter((p) => !p.isEliminated);
+
+        if (survivors.length === 0) {
+          throw new SpinWheelError('No winner found');
+        }
 
-      spinWheel.winnerId = winner.userId;
-      spinWheel.winnerName = winner.name;
-      spinWheel.status = SpinWheelStatus.COMPLETED;
-      spinWheel.completedAt = new Date();
-
-      // Credit winner
-      const winnerUser = await User.findById(winner.userId).session(session);
-      if (winnerUser) {
-        const winnerBalanceBefore = winnerUser.coins;
-        winnerUser.coins += spinWheel.winnerPool;
-        await winnerUser.save({ session });
-
-        const winnerTransaction = new Transaction({
-          userId: winner.userId,
-          name: winner.name,
-          spinWheelId: spinWheel._id,
-          type: TransactionType.PRIZE_WIN,
-          amount: spinWheel.winnerPool,
-          balanceBefore: winnerBalanceBefore,
-          balanceAfter: winnerUser.coins,
-          metadata: {
-            adminId: spinWheel.adminId,
-            participants: spinWheel.participants.length,
-            totalPrizePool: spinWheel.winnerPool,
-            entryFee: spinWheel.entryFee
-          }
+        const sequence = spinWheel.eliminationSequence.map((id) => id.toString());
+        survivors.forEach((p) => {
+          p.position = sequence.length - sequence.indexOf(p.userId.toString());
         });
+        survivors.sort((a, b) => (a.position as number) - (b.position as number));
+
+        const prizes = this.splitWinnerPool(spinWheel, survivors.length);
+        const winner = survivors[0];
+
+        spinWheel.winners = survivors.map((p, index) => ({
+          userId: p.userId,
+          name: p.name,
+          position: p.position as number,
+          prize: prizes[index],
+        }));
+        spinWheel.winnerId = winner.userId;
+        spinWheel.winnerName = winner.name;
+        spinWheel.status = SpinWheelStatus.COMPLETED;
+        spinWheel.completedAt = new Date();
+        spinWheel.serverSeedRevealedAt = spinWheel.completedAt;
+
+        // Credit each paid position
+        for (const paid of spinWheel.winners) {
+          const winnerUser = await User.findById(paid.userId).session(session);
+          if (!winnerUser || paid.prize <= 0) {
+            continue;
+          }
 
-        await winnerTransaction.save({ session });
+          const winnerBalanceBefore = winnerUser.coins;
+          await LedgerService.ensureUserAccount(winnerUser._id, winnerBalanceBefore, session);
+          winnerUser.coins += paid.prize;
+          await winnerUser.save({ session });
 
-        loggers.transaction(
-          'Prize won',
-          winner.userId.toString(),
-          spinWheel.winnerPool,
-          { 
-            spinWheelId: spinWheel._id.toString(),
-            prizeAmount: spinWheel.winnerPool 
-          }
-        );
-      }
+          const winnerTransaction = new Transaction({
+            userId: paid.userId,
+            name: paid.name,
+            spinWheelId: spinWheel._id,
+            type: TransactionType.PRIZE_WIN,
+            amount: paid.prize,
+            balanceBefore: winnerBalanceBefore,
+            balanceAfter: winnerUser.coins,
+            metadata: {
+              adminId: spinWheel.adminId,
+              participants: spinWheel.participants.length,
+              position: paid.position,
+              totalPrizePool: spinWheel.winnerPool,
+              entryFee: spinWheel.entryFee
+            }
+          });
 
-      // Credit admin
-      const adminUser = await User.findById(spinWheel.adminId).session(session);
-      if (adminUser) {
-        const adminBalanceBefore = adminUser.coins;
-        adminUser.coins += spinWheel.adminPool;
-        await adminUser.save({ session });
+          await winnerTransaction.save({ session });
+
+          await LedgerService.post(
+            {
+              from: LedgerService.systemAccount(SystemAccount.WINNER_POOL),
+              to: LedgerService.userAccount(paid.userId),
+              amount: paid.prize,
+              transactionId: winnerTransaction._id,
+              spinWheelId: spinWheel._id,
+              description: `Prize win (position ${paid.position})`,
+            },
+            session
+          );
+        }
+
+        // Credit admin
+        const adminUser = await User.findById(spinWheel.adminId).session(session);
+        if (adminUser) {
+          const adminBalanceBefore = adminUser.coins;
+          await LedgerService.ensureUserAccount(adminUser._id, adminBalanceBefore, session);
+          adminUser.coins += spinWheel.adminPool;
+          await adminUser.save({ session });
+
+          const adminTransaction = new Transaction({
+            userId: spinWheel.adminId,
+            name: spinWheel.adminName,
+            spinWheelId: spinWheel._id,
+            type: TransactionType.ADMIN_COMMISSION,
+            amount: spinWheel.adminPool,
+            balanceBefore: adminBalanceBefore,
+            balanceAfter: adminUser.coins,
+            metadata: {
+              winnerId: winner.userId,
+              winnerName: winner.name,
+              participants: spinWheel.participants.length,
+              commissionAmount: spinWheel.adminPool
+            }
+          });
+
+          await adminTransaction.save({ session });
+
+          await LedgerService.post(
+            {
+              from: LedgerService.systemAccount(SystemAccount.ADMIN_POOL),
+              to: LedgerService.userAccount(spinWheel.adminId),
+              amount: spinWheel.adminPool,
+              transactionId: adminTransaction._id,
+              spinWheelId: spinWheel._id,
+              description: 'Admin commission',
+            },
+            session
+          );
+        }
 
-        const adminTransaction = new Transaction({
-          userId: spinWheel.adminId,
-          name: spinWheel.adminName,
+        // App pool is kept (already held in the app treasury ledger account)
+        // Create transaction record for app fee
+        const appTransaction = new Transaction({
+          userId: spinWheel.adminId, // Using admin as reference
+          name: 'SYSTEM',
           spinWheelId: spinWheel._id,
-          type: TransactionType.ADMIN_COMMISSION,
-          amount: spinWheel.adminPool,
-          balanceBefore: adminBalanceBefore,
-          balanceAfter: adminUser.coins,
+          type: TransactionType.APP_FEE,
+          amount: spinWheel.appPool,
+          balanceBefore: 0,
+          balanceAfter: 0,
           metadata: {
-            winnerId: winner.userId,
-            winnerName: winner.name,
+            appFeeAmount: spinWheel.appPool,
             participants: spinWheel.participants.length,
-            commissionAmount: spinWheel.adminPool
+            winnerId: winner.userId,
+            winnerName: winner.name
           }
         });
 
-        await adminTransaction.save({ session });
+        await appTransaction.save({ session });
 
-        loggers.transaction(
-          'Admin commission',
-          spinWheel.adminId.toString(),
-          spinWheel.adminPool,
-          { 
-            spinWheelId: spinWheel._id.toString(),
-            commissionAmount: spinWheel.adminPool 
-          }
-        );
-      }
+        await spinWheel.save({ session });
 
-      // App pool is kept (not distributed to any user)
-      // Create transaction record for app fee
-      const appTransaction = new Transaction({
-        userId: spinWheel.adminId, // Using admin as reference
-        name: 'SYSTEM',
-        spinWheelId: spinWheel._id,
-        type: TransactionType.APP_FEE,
-        amount: spinWheel.appPool,
-        balanceBefore: 0,
-        balanceAfter: 0,
-        metadata: {
-          appFeeAmount: spinWheel.appPool,
-          participants: spinWheel.participants.length,
-          winnerId: winner.userId,
-          winnerName: winner.name
-        }
+        return winner;
       });
 
-      await appTransaction.save({ session });
+      spinWheel.winners
+        .filter((paid) => paid.prize > 0)
+        .forEach((paid) => {
+          loggers.transaction('Prize won', paid.userId.toString(), paid.prize, {
+            spinWheelId: spinWheel._id.toString(),
+            position: paid.position,
+            prizeAmount: paid.prize
+          });
+        });
 
-      await spinWheel.save({ session });
-      await session.commitTransaction();
+      loggers.transaction('Admin commission', spinWheel.adminId.toString(), spinWheel.adminPool, {
+        spinWheelId: spinWheel._id.toString(),
+        commissionAmount: spinWheel.adminPool
+      });
 
       loggers.spinWheel('Completed', spinWheel._id.toString(), {
         winnerId: winner.userId.toString(),
         winnerName: winner.name,
+        winners: spinWheel.winners.map((w) => ({
+          userId: w.userId.toString(),
+          position: w.position,
+          prize: w.prize,
+        })),
         winnerPrize: spinWheel.winnerPool,
         adminCommission: spinWheel.adminPool,
         appFee: spinWheel.appPool,
         totalParticipants: spinWheel.participants.length,
         totalPool: spinWheel.winnerPool + spinWheel.adminPool + spinWheel.appPool
       });
-    } catch (error) {
-      await session.abortTransaction();
-      throw error;
     } finally {
       session.endSession();
     }
   }
 
   /**
-   * Get active spin wheel
-   * @returns Active spin wheel or null
+   * Get active spin wheels (lobby list) with pagination
+   * @param page - Page number
+   * @param limit - Items per page
+   * @param filters - Optional lobby filters
+   * @returns Paginated active spin wheels
    */
-  static async getActiveSpinWheel(): Promise<ISpinWheel | null> {
-    return SpinWheel.findOne({
-      status: { $in: [SpinWheelStatus.WAITING, SpinWheelStatus.IN_PROGRESS] }
-    }).sort({ createdAt: -1 });
+  static async getActiveSpinWheels(
+    page: number = 1,
+    limit: number = 10,
+    filters: ActiveSpinWheelFilters = {}
+  ) {
+    const skip = (page - 1) * limit;
+    const query: any = {
+      status: filters.status || { $in: ACTIVE_STATUSES }
+    };
+
+    if (filters.adminId) {
+      query.adminId = new mongoose.Types.ObjectId(filters.adminId);
+    }
+
+    if (filters.minEntryFee !== undefined || filters.maxEntryFee !== undefined) {
+      query.entryFee = {};
+      if (filters.minEntryFee !== undefined) {
+        query.entryFee.$gte = filters.minEntryFee;
+      }
+      if (filters.maxEntryFee !== undefined) {
+        query.entryFee.$lte = filters.maxEntryFee;
+      }
+    }
+
+    if (filters.joinable) {
+      // Only waiting wheels can be joined
+      if (filters.status === SpinWheelStatus.IN_PROGRESS) {
+        throw new ValidationError('joinable cannot be combined with status in_progress');
+      }
+      query.status = SpinWheelStatus.WAITING;
+      query.$expr = { $lt: [{ $size: '$participants' }, '$maxParticipants'] };
+    }
+
+    const [spinWheels, total] = await Promise.all([
+      SpinWheel.find(query)
+        .sort({ autoStartAt: 1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      SpinWheel.countDocuments(query)
+    ]);
+
+    return {
+      spinWheels,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
   }
 
   /**
@@ -608,17 +910,273 @@ export class SpinWheelService {
   }
 
   /**
-   * Helper: Shuffle array (Fisher-Yates algorithm)
-   * @param array - Array to shuffle
-   * @returns Shuffled array
+   * Verify a completed spin wheel's elimination sequence against its revealed seed
+   * @param spinWheelId - Spin wheel ID
+   * @returns Verification result
+   */
+  static async verifySpinWheel(spinWheelId: string) {
+    const spinWheel = await SpinWheel.findById(spinWheelId).select('+serverSeed');
+
+    if (!spinWheel) {
+      throw new NotFoundError('Spin wheel not found');
+    }
+
+    if (spinWheel.status !== SpinWheelStatus.COMPLETED || !spinWheel.serverSeed) {
+      throw new SpinWheelError('Server seed is revealed only after the spin wheel is completed');
+    }
+
+    const clientSeedHash = FairnessService.combineClientSeeds(spinWheel.participants);
+    const participantIds = spinWheel.participants.map((p) => p.userId.toString());
+    const computedSequence = FairnessService.shuffle(participantIds, spinWheel.serverSeed, clientSeedHash);
+    const storedSequence = spinWheel.eliminationSequence.map((id) => id.toString());
+
+    const seedHashMatches = FairnessService.hashSeed(spinWheel.serverSeed) === spinWheel.serverSeedHash;
+    const clientSeedHashMatches = clientSeedHash === spinWheel.clientSeedHash;
+    const sequenceMatches =
+      computedSequence.length === storedSequence.length &&
+      computedSequence.every((id, index) => id === storedSequence[index]);
+
+    return {
+      spinWheelId: spinWheel._id,
+      serverSeed: spinWheel.serverSeed,
+      serverSeedHash: spinWheel.serverSeedHash,
+      serverSeedRevealedAt: spinWheel.serverSeedRevealedAt,
+      clientSeedHash,
+      clientSeeds: spinWheel.participants.map((p) => ({
+        userId: p.userId,
+        name: p.name,
+        clientSeed: p.clientSeed,
+      })),
+      computedSequence,
+      storedSequence,
+      seedHashMatches,
+      clientSeedHashMatches,
+      sequenceMatches,
+      verified: seedHashMatches && clientSeedHashMatches && sequenceMatches,
+    };
+  }
+
+  /**
+   * Helper: Validate per-wheel overrides against the admin-configurable bounds
+   */
+  private static async assertOptionsWithinBounds(
+    options: SpinWheelOptions,
+    maxParticipants: number
+  ): Promise<void> {
+    const bounds = await getConfigService().getMany([
+      'WINNER_POOL_PERCENTAGE_MIN',
+      'ADMIN_POOL_PERCENTAGE_MAX',
+      'APP_POOL_PERCENTAGE_MIN',
+      'AUTO_START_TIMEOUT_MIN',
+      'AUTO_START_TIMEOUT_MAX',
+      'ELIMINATION_INTERVAL_MIN',
+      'ELIMINATION_INTERVAL_MAX',
+      'MIN_PARTICIPANTS_FLOOR',
+    ]);
+
+    const checkRange = (label: string, value: number | undefined, min?: number, max?: number) => {
+      if (value === undefined) {
+        return;
+      }
+      if (min !== undefined && value < min) {
+        throw new ValidationError(`${label} must be at least ${min}`);
+      }
+      if (max !== undefined && value > max) {
+        throw new ValidationError(`${label} cannot exceed ${max}`);
+      }
+    };
+
+    checkRange('Winner pool percentage', options.winnerPoolPercentage, bounds.WINNER_POOL_PERCENTAGE_MIN, 100);
+    checkRange('Admin pool percentage', options.adminPoolPercentage, 0, bounds.ADMIN_POOL_PERCENTAGE_MAX);
+    checkRange('App pool percentage', options.appPoolPercentage, bounds.APP_POOL_PERCENTAGE_MIN, 100);
+    checkRange('Auto start time', options.autoStartTime, bounds.AUTO_START_TIMEOUT_MIN, bounds.AUTO_START_TIMEOUT_MAX);
+    checkRange(
+      'Elimination interval',
+      options.eliminationInterval,
+      bounds.ELIMINATION_INTERVAL_MIN,
+      bounds.ELIMINATION_INTERVAL_MAX
+    );
+    checkRange('Minimum participants', options.minParticipants, bounds.MIN_PARTICIPANTS_FLOOR, maxParticipants);
+  }
+
+  /**
+   * Helper: Split the winner pool across paid positions (1st first).
+   * Uses the prize table if set, otherwise an equal split. Prizes are whole
+   * coins that add up to the pool; leftover coins from rounding go to the
+   * largest remainders, ties to the better position.
+   * @param spinWheel - Spin wheel holding the pool and prize table
+   * @param positions - Number of paid positions
+   * @returns Prize per position
+   */
+  private static splitWinnerPool(spinWheel: ISpinWheel, positions: number): number[] {
+    const shares = spinWheel.prizeTable.length === positions
+      ? spinWheel.prizeTable
+      : Array(positions).fill(1);
+
+    return allocateProportionally(spinWheel.winnerPool, shares);
+  }
+
+  /**
+   * Helper: Split an entry fee into winner/admin/app pool shares.
+   * Shares are whole coins that always sum to the fee, and the same fee
+   * always splits the same way, so a refund takes back exactly what the join added.
+   * @param amount - Entry fee amount
+   * @param spinWheel - Spin wheel holding the distribution percentages
+   * @returns Pool shares
+   */
+  static splitEntryFee(
+    amount: number,
+    spinWheel: Pick<ISpinWheel, 'winnerPoolPercentage' | 'adminPoolPercentage' | 'appPoolPercentage'>
+  ) {
+    const [winnerAmount, adminAmount, appAmount] = allocateProportionally(amount, [
+      spinWheel.winnerPoolPercentage,
+      spinWheel.adminPoolPercentage,
+      spinWheel.appPoolPercentage,
+    ]);
+
+    return { winnerAmount, adminAmount, appAmount };
+  }
+
+  /**
+   * Helper: Capture a participant's hold and move the fee into the pools
+   * @param spinWheel - Spin wheel being started
+   * @param participant - Participant with an open hold
+   * @param session - Mongo session
+   */
+  private static async chargeEntryFee(
+    spinWheel: ISpinWheel,
+    participant: IParticipant,
+    session: mongoose.ClientSession
+  ): Promise<void> {
+    const { hold, balanceBefore, balanceAfter } = await WalletService.captureHold(participant.holdId!, session);
+    await LedgerService.ensureUserAccount(participant.userId, balanceBefore, session);
+
+    const { winnerAmount, adminAmount, appAmount } = this.splitEntryFee(hold.amount, spinWheel);
+
+    const transaction = new Transaction({
+      userId: participant.userId,
+      name: participant.name,
+      spinWheelId: spinWheel._id,
+      type: TransactionType.ENTRY_FEE,
+      amount: -hold.amount,
+      balanceBefore,
+      balanceAfter,
+      metadata: {
+        adminId: spinWheel.adminId,
+        adminName: spinWheel.adminName,
+        entryFee: hold.amount,
+        holdId: hold._id,
+        distributionBreakdown: {
+          winnerPool: winnerAmount,
+          adminPool: adminAmount,
+          appPool: appAmount
+        }
+      }
+    });
+
+    await transaction.save({ session });
+
+    hold.transactionId = transaction._id;
+    await hold.save({ session });
+
+    // Move the fee from the user's wallet into the pools
+    const userAccount = LedgerService.userAccount(participant.userId);
+    await LedgerService.postMany(
+      [
+        { from: userAccount, to: LedgerService.systemAccount(SystemAccount.WINNER_POOL), amount: winnerAmount },
+        { from: userAccount, to: LedgerService.systemAccount(SystemAccount.ADMIN_POOL), amount: adminAmount },
+        { from: userAccount, to: LedgerService.systemAccount(SystemAccount.APP_TREASURY), amount: appAmount },
+      ].map((posting) => ({
+        ...posting,
+        transactionId: transaction._id,
+        spinWheelId: spinWheel._id,
+        description: 'Entry fee',
+      })),
+      session
+    );
+
+    loggers.transaction(
+      'Entry fee paid',
+      participant.userId.toString(),
+      -hold.amount,
+      {
+        spinWheelId: spinWheel._id.toString(),
+        holdId: hold._id.toString(),
+        newBalance: balanceAfter
+      }
+    );
+  }
+
+  /**
+   * Helper: Refund a participant who paid on join (before wallet holds)
+   * @param spinWheel - Spin wheel the fee was paid into
+   * @param participant - Participant without a hold
+   * @param reason - Refund reason kept on the transaction
+   * @param session - Mongo session
    */
-  private static shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  private static async refundEntryFee(
+    spinWheel: ISpinWheel,
+    participant: IParticipant,
+    reason: string,
+    session: mongoose.ClientSession
+  ): Promise<void> {
+    const user = await User.findById(participant.userId).session(session);
+
+    if (!user) {
+      return;
     }
-    return shuffled;
+
+    const balanceBefore = user.coins;
+    await LedgerService.ensureUserAccount(user._id, balanceBefore, session);
+    user.coins += participant.entryFeePaid;
+    await user.save({ session });
+
+    const transaction = new Transaction({
+      userId: participant.userId,
+      name: participant.name,
+      spinWheelId: spinWheel._id,
+      type: TransactionType.REFUND,
+      amount: participant.entryFeePaid,
+      balanceBefore,
+      balanceAfter: user.coins,
+      metadata: {
+        reason,
+        originalEntryFee: participant.entryFeePaid
+      }
+    });
+
+    await transaction.save({ session });
+
+    // Unwind the participant's share from each pool
+    const { winnerAmount, adminAmount, appAmount } = this.splitEntryFee(
+      participant.entryFeePaid,
+      spinWheel
+    );
+    const userAccount = LedgerService.userAccount(participant.userId);
+    await LedgerService.postMany(
+      [
+        { from: LedgerService.systemAccount(SystemAccount.WINNER_POOL), to: userAccount, amount: winnerAmount },
+        { from: LedgerService.systemAccount(SystemAccount.ADMIN_POOL), to: userAccount, amount: adminAmount },
+        { from: LedgerService.systemAccount(SystemAccount.APP_TREASURY), to: userAccount, amount: appAmount },
+      ].map((posting) => ({
+        ...posting,
+        transactionId: transaction._id,
+        spinWheelId: spinWheel._id,
+        description: 'Refund',
+      })),
+      session
+    );
+
+    loggers.transaction(
+      'Refund issued',
+      participant.userId.toString(),
+      participant.entryFeePaid,
+      {
+        spinWheelId: spinWheel._id.toString(),
+        reason,
+        newBalance: user.coins
+      }
+    );
   }
 
   /**
@@ -684,6 +1242,9 @@ export class SpinWheelService {
         userId: spinWheel.winnerId,
         name: spinWheel.winnerName
       } : null,
+      winnerCount: spinWheel.winnerCount,
+      prizeTable: spinWheel.prizeTable,
+      winners: spinWheel.winners,
       createdAt: spinWheel.createdAt,
       startedAt: spinWheel.startedAt,
       completedAt: spinWheel.completedAt
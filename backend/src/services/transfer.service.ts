@@ -0,0 +1,339 @@
+import mongoose, { ClientSession, Types } from 'mongoose';
+import User, { IUser } from '../models/user.models';
+import Transaction, { ITransaction, TransactionType } from '../models/transaction.models';
+import { AuditAction } from '../models/audit_log.models';
+import { AuditService } from './audit.service';
+import { getConfigService } from './config.service';
+import { LedgerService } from './ledger.service';
+import { WalletService } from './wallet.service';
+import {
+  AuthorizationError,
+  InsufficientCoinsError,
+  NotFoundError,
+  TransferLimitError,
+  ValidationError,
+} from '../utils/apiResponse';
+import logger, { loggers } from '../utils/logger';
+import { runTransaction } from '../utils/db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export enum TransferFlag {
+  NEW_ACCOUNT = 'new_account',        // Sender registered very recently
+  DRAINS_BALANCE = 'drains_balance',  // Sends (nearly) everything the sender has
+  FAN_IN = 'fan_in',                  // Recipient is collecting from many senders
+  ROUND_TRIP = 'round_trip'           // Recipient recently sent coins to the sender
+}
+
+export interface TransferResult {
+  transferId: Types.ObjectId;
+  sender: IUser;
+  recipient: IUser;
+  amount: number;
+  note?: string;
+  senderTransaction: ITransaction;
+  recipientTransaction: ITransaction;
+  flags: TransferFlag[];
+}
+
+export interface TransferLimits {
+  maxAmount: number;
+  dailyLimit: number;
+  dailyCount: number;
+  sentToday: number;
+  transfersToday: number;
+  remainingToday: number;
+}
+
+export class TransferService {
+  /**
+   * Send coins from one user's available balance to another user
+   * @param sender - Authenticated sender
+   * @param recipientRef - Recipient user ID or email
+   * @param amount - Whole coins to send
+   * @param note - Optional message shown to the recipient
+   * @param ipAddress - Optional client IP for the audit record
+   * @returns Both transactions and any suspicious patterns found
+   */
+  static async transfer(
+    sender: IUser,
+    recipientRef: string,
+    amount: number,
+    note?: string,
+    ipAddress?: string
+  ): Promise<TransferResult> {
+    if (sender.isEmailVerified === false) {
+      throw new AuthorizationError('Please verify your email address before sending coins');
+    }
+
+    const recipient = await this.findRecipient(recipientRef);
+
+    if (recipient._id.equals(sender._id)) {
+      throw new ValidationError('You cannot send coins to yourself');
+    }
+
+    const config = await getConfigService().getMany([
+      'TRANSFER_MAX_AMOUNT',
+      'TRANSFER_DAILY_LIMIT',
+      'TRANSFER_DAILY_COUNT',
+      'TRANSFER_FLAG_BALANCE_SHARE',
+      'TRANSFER_FLAG_FAN_IN',
+      'TRANSFER_FLAG_ACCOUNT_AGE',
+    ]);
+
+    if (amount > config.TRANSFER_MAX_AMOUNT) {
+      throw new TransferLimitError(`A single transfer cannot exceed ${config.TRANSFER_MAX_AMOUNT} coins`);
+    }
+
+    const transferId = new mongoose.Types.ObjectId();
+    const session = await mongoose.startSession();
+
+    try {
+      // Limits and flags are read inside the transaction; a concurrent transfer
+      // from the same sender conflicts on the wallet write and is retried
+      const result = await runTransaction(session, 'wallet.transfer', async () => {
+        const sent = await this.sentInLastDay(sender._id, session);
+
+        if (sent.count >= config.TRANSFER_DAILY_COUNT) {
+          throw new TransferLimitError(`You can send at most ${config.TRANSFER_DAILY_COUNT} transfers per day`);
+        }
+
+        if (sent.total + amount > config.TRANSFER_DAILY_LIMIT) {
+          throw new TransferLimitError(
+            `Daily transfer limit is ${config.TRANSFER_DAILY_LIMIT} coins. Remaining today: ${Math.max(0, config.TRANSFER_DAILY_LIMIT - sent.total)}`
+          );
+        }
+
+        // Debit only what is not held by open spin wheel entries
+        const debited = await User.findOneAndUpdate(
+          {
+            _id: sender._id,
+            $expr: { $gte: [{ $subtract: ['$coins', { $ifNull: ['$heldCoins', 0] }] }, amount] },
+          },
+          { $inc: { coins: -amount } },
+          { new: true, session }
+        );
+
+        if (!debited) {
+          const current = await User.findById(sender._id).session(session);
+          throw new InsufficientCoinsError(amount, current ? WalletService.getBalance(current).available : 0);
+        }
+
+        const credited = await User.findOneAndUpdate(
+          { _id: recipient._id, isActive: true },
+          { $inc: { coins: amount } },
+          { new: true, session }
+        );
+
+        if (!credited) {
+          throw new NotFoundError('Recipient not found');
+        }
+
+        const senderBalanceBefore = debited.coins + amount;
+        const recipientBalanceBefore = credited.coins - amount;
+        await LedgerService.ensureUserAccount(debited._id, senderBalanceBefore, session);
+        await LedgerService.ensureUserAccount(credited._id, recipientBalanceBefore, session);
+
+        const flags = await this.detectFlags(debited, credited, amount, senderBalanceBefore, config, session);
+        const shared = { transferId, note, flags: flags.length > 0 ? flags : undefined };
+
+        const [senderTransaction, recipientTransaction] = await Transaction.create(
+          [
+            {
+              userId: debited._id,
+              name: debited.name,
+              type: TransactionType.TRANSFER_OUT,
+              amount: -amount,
+              balanceBefore: senderBalanceBefore,
+              balanceAfter: debited.coins,
+              description: `Transfer to ${credited.name}`,
+              metadata: { ...shared, counterpartyId: credited._id, counterpartyName: credited.name },
+            },
+            {
+              userId: credited._id,
+              name: credited.name,
+              type: TransactionType.TRANSFER_IN,
+              amount,
+              balanceBefore: recipientBalanceBefore,
+              balanceAfter: credited.coins,
+              description: `Transfer from ${debited.name}`,
+              metadata: { ...shared, counterpartyId: debited._id, counterpartyName: debited.name },
+            },
+          ],
+          { session, ordered: true }
+        );
+
+        await LedgerService.post(
+          {
+            from: LedgerService.userAccount(debited._id),
+            to: LedgerService.userAccount(credited._id),
+            amount,
+            transactionId: senderTransaction._id,
+            description: 'Transfer',
+          },
+          session
+        );
+
+        if (flags.length > 0) {
+          await AuditService.record(
+            {
+              action: AuditAction.TRANSFER_FLAGGED,
+              actorId: debited._id,
+              actorName: debited.name,
+              targetUserId: credited._id,
+              targetEmail: credited.email,
+              reason: flags.join(', '),
+              metadata: { transferId, amount, flags },
+              ipAddress,
+            },
+            session
+          );
+        }
+
+        return {
+          transferId,
+          sender: debited,
+          recipient: credited,
+          amount,
+          note,
+          senderTransaction,
+          recipientTransaction,
+          flags,
+        };
+      });
+
+      loggers.transaction('Transfer sent', sender._id.toString(), -amount, {
+        transferId: transferId.toString(),
+        recipientId: recipient._id.toString(),
+        newBalance: result.sender.coins,
+      });
+
+      if (result.flags.length > 0) {
+        logger.warn('[Transaction] Transfer flagged for review', {
+          domain: 'transaction',
+          userId: sender._id.toString(),
+          amount: -amount,
+          transferId: transferId.toString(),
+          recipientId: recipient._id.toString(),
+          flags: result.flags,
+        });
+      }
+
+      return result;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Current limits and how much of them the user has used
+   * @param userId - User ID
+   * @returns Transfer limits
+   */
+  static async getLimits(userId: Types.ObjectId): Promise<TransferLimits> {
+    const config = await getConfigService().getMany([
+      'TRANSFER_MAX_AMOUNT',
+      'TRANSFER_DAILY_LIMIT',
+      'TRANSFER_DAILY_COUNT',
+    ]);
+    const sent = await this.sentInLastDay(userId);
+
+    return {
+      maxAmount: config.TRANSFER_MAX_AMOUNT,
+      dailyLimit: config.TRANSFER_DAILY_LIMIT,
+      dailyCount: config.TRANSFER_DAILY_COUNT,
+      sentToday: sent.total,
+      transfersToday: sent.count,
+      remainingToday: Math.max(0, config.TRANSFER_DAILY_LIMIT - sent.total),
+    };
+  }
+
+  /**
+   * Helper: Find an active recipient by user ID or email
+   */
+  private static async findRecipient(recipientRef: string): Promise<IUser> {
+    const query = mongoose.isValidObjectId(recipientRef)
+      ? { _id: recipientRef }
+      : { email: recipientRef.trim().toLowerCase() };
+
+    const recipient = await User.findOne({ ...query, isActive: true });
+
+    if (!recipient) {
+      throw new NotFoundError('Recipient not found');
+    }
+
+    return recipient;
+  }
+
+  /**
+   * Helper: Coins and number of transfers a user sent in the last 24 hours
+   */
+  private static async sentInLastDay(
+    userId: Types.ObjectId,
+    session?: ClientSession
+  ): Promise<{ total: number; count: number }> {
+    const [row] = await Transaction.aggregate<{ total: number; count: number }>([
+      {
+        $match: {
+          userId,
+          type: TransactionType.TRANSFER_OUT,
+          createdAt: { $gte: new Date(Date.now() - DAY_MS) },
+        },
+      },
+      { $group: { _id: null, total: { $sum: { $abs: '$amount' } }, count: { $sum: 1 } } },
+    ]).session(session ?? null);
+
+    return { total: row?.total || 0, count: row?.count || 0 };
+  }
+
+  /**
+   * Helper: Patterns that suggest account farming or laundering.
+   * Flags never block a transfer; they mark it for admin review.
+   */
+  private static async detectFlags(
+    sender: IUser,
+    recipient: IUser,
+    amount: number,
+    senderBalanceBefore: number,
+    config: Record<string, any>,
+    session: ClientSession
+  ): Promise<TransferFlag[]> {
+    const flags: TransferFlag[] = [];
+    const since = new Date(Date.now() - DAY_MS);
+
+    if (Date.now() - sender.createdAt.getTime() < config.TRANSFER_FLAG_ACCOUNT_AGE) {
+      flags.push(TransferFlag.NEW_ACCOUNT);
+    }
+
+    const availableBefore = senderBalanceBefore - (sender.heldCoins || 0);
+    if (amount * 100 >= availableBefore * config.TRANSFER_FLAG_BALANCE_SHARE) {
+      flags.push(TransferFlag.DRAINS_BALANCE);
+    }
+
+    const senders: Types.ObjectId[] = await Transaction.distinct('metadata.counterpartyId', {
+      userId: recipient._id,
+      type: TransactionType.TRANSFER_IN,
+      createdAt: { $gte: since },
+    }).session(session);
+
+    const distinctSenders = new Set([...senders.map(String), sender._id.toString()]);
+    if (distinctSenders.size >= config.TRANSFER_FLAG_FAN_IN) {
+      flags.push(TransferFlag.FAN_IN);
+    }
+
+    const returned = await Transaction.exists({
+      userId: recipient._id,
+      type: TransactionType.TRANSFER_OUT,
+      'metadata.counterpartyId': sender._id,
+      createdAt: { $gte: since },
+    }).session(session);
+
+    if (returned) {
+      flags.push(TransferFlag.ROUND_TRIP);
+    }
+
+    return flags;
+  }
+}
+
+export default TransferService;
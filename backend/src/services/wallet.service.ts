@@ -0,0 +1,148 @@
+import { ClientSession, Types } from 'mongoose';
+import User, { IUser } from '../models/user.models';
+import WalletHold, { IWalletHold, WalletHoldStatus } from '../models/wallet_hold.models';
+import { ConflictError, InsufficientCoinsError, NotFoundError } from '../utils/apiResponse';
+import { loggers } from '../utils/logger';
+
+export interface WalletBalance {
+  total: number;      // Everything the user owns
+  held: number;       // Reserved by open holds
+  available: number;  // What the user can spend or reserve now
+}
+
+export interface CapturedHold {
+  hold: IWalletHold;
+  balanceBefore: number;
+  balanceAfter: number;
+}
+
+export class WalletService {
+  /**
+   * Split a user's coins into held and available
+   * @param user - User document (or the balance fields of one)
+   * @returns Wallet balance
+   */
+  static getBalance(user: Pick<IUser, 'coins' | 'heldCoins'>): WalletBalance {
+    const held = user.heldCoins || 0;
+    return { total: user.coins, held, available: user.coins - held };
+  }
+
+  /**
+   * Reserve coins on a user's available balance. Nothing moves until the
+   * hold is captured; a released hold gives the coins back untouched.
+   * @param userId - User ID
+   * @param spinWheelId - Wheel the coins are reserved for
+   * @param amount - Coins to reserve
+   * @param session - Mongo session
+   * @returns The open hold
+   */
+  static async placeHold(
+    userId: string | Types.ObjectId,
+    spinWheelId: Types.ObjectId,
+    amount: number,
+    session: ClientSession
+  ): Promise<IWalletHold> {
+    // Check and reserve in one write so concurrent holds cannot overdraw
+    const user = await User.findOneAndUpdate(
+      {
+        _id: userId,
+        $expr: { $gte: [{ $subtract: ['$coins', { $ifNull: ['$heldCoins', 0] }] }, amount] },
+      },
+      { $inc: { heldCoins: amount } },
+      { new: true, session }
+    );
+
+    if (!user) {
+      const current = await User.findById(userId).session(session);
+      if (!current) {
+        throw new NotFoundError('User not found');
+      }
+      throw new InsufficientCoinsError(amount, this.getBalance(current).available);
+    }
+
+    const [hold] = await WalletHold.create([{ userId, spinWheelId, amount }], { session });
+
+    loggers.transaction('Hold placed', userId.toString(), amount, {
+      spinWheelId: spinWheelId.toString(),
+      holdId: hold._id.toString(),
+      heldCoins: user.heldCoins,
+    });
+
+    return hold;
+  }
+
+  /**
+   * Give held coins back to the available balance
+   * @param holdId - Hold ID
+   * @param reason - Why the hold was released (kept on the hold)
+   * @param session - Mongo session
+   * @returns The released hold, or null if it was already settled
+   */
+  static async releaseHold(
+    holdId: Types.ObjectId,
+    reason: string,
+    session: ClientSession
+  ): Promise<IWalletHold | null> {
+    const hold = await WalletHold.findOneAndUpdate(
+      { _id: holdId, status: WalletHoldStatus.HELD },
+      { $set: { status: WalletHoldStatus.RELEASED, releasedAt: new Date(), releaseReason: reason } },
+      { new: true, session }
+    );
+
+    if (!hold) {
+      return null;
+    }
+
+    await User.updateOne({ _id: hold.userId }, { $inc: { heldCoins: -hold.amount } }, { session });
+
+    loggers.transaction('Hold released', hold.userId.toString(), hold.amount, {
+      spinWheelId: hold.spinWheelId.toString(),
+      holdId: hold._id.toString(),
+      reason,
+    });
+
+    return hold;
+  }
+
+  /**
+   * Turn a hold into a debit: the held coins leave the user's wallet.
+   * The caller records the matching transaction and ledger postings.
+   * @param holdId - Hold ID
+   * @param session - Mongo session
+   * @returns The captured hold and the user's balance around the debit
+   */
+  static async captureHold(holdId: Types.ObjectId, session: ClientSession): Promise<CapturedHold> {
+    const hold = await WalletHold.findOneAndUpdate(
+      { _id: holdId, status: WalletHoldStatus.HELD },
+      { $set: { status: WalletHoldStatus.CAPTURED, capturedAt: new Date() } },
+      { new: true, session }
+    );
+
+    if (!hold) {
+      throw new ConflictError('Wallet hold is no longer open');
+    }
+
+    const user = await User.findOneAndUpdate(
+      { _id: hold.userId, coins: { $gte: hold.amount }, heldCoins: { $gte: hold.amount } },
+      { $inc: { coins: -hold.amount, heldCoins: -hold.amount } },
+      { new: true, session }
+    );
+
+    if (!user) {
+      throw new ConflictError('Held coins are missing from the wallet');
+    }
+
+    return { hold, balanceBefore: user.coins + hold.amount, balanceAfter: user.coins };
+  }
+
+  /**
+   * Open holds of a user, newest first
+   * @param userId - User ID
+   * @returns Open holds
+   */
+  static async getOpenHolds(userId: string | Types.ObjectId): Promise<IWalletHold[]> {
+    return WalletHold.find({ userId, status: WalletHoldStatus.HELD }).sort({ createdAt: -1 });
+  }
+}
+
+export default WalletService;
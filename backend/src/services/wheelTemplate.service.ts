@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import WheelTemplate, { IWheelTemplate } from '../models/wheel_template.models';
+import { ISpinWheel } from '../models/spin_wheels.models';
+import { NotFoundError, ConflictError, SpinWheelError, ValidationError } from '../utils/apiResponse';
+import { SpinWheelService } from './spinWheel.service';
+import { loggers } from '../utils/logger';
+
+export type WheelTemplateInput = Partial<
+  Pick<
+    IWheelTemplate,
+    | 'name'
+    | 'description'
+    | 'entryFee'
+    | 'maxParticipants'
+    | 'minParticipants'
+    | 'winnerPoolPercentage'
+    | 'adminPoolPercentage'
+    | 'appPoolPercentage'
+    | 'autoStartTime'
+    | 'eliminationInterval'
+    | 'winnerCount'
+    | 'prizeTable'
+    | 'isActive'
+  >
+>;
+
+export class WheelTemplateService {
+  /**
+   * Create a wheel template
+   * @param adminId - Admin creating the template
+   * @param input - Template fields
+   * @returns Created template
+   */
+  static async createTemplate(adminId: string, input: WheelTemplateInput): Promise<IWheelTemplate> {
+    const existing = await WheelTemplate.findOne({ name: input.name });
+
+    if (existing) {
+      throw new ConflictError(`Template '${input.name}' already exists`);
+    }
+
+    const template = new WheelTemplate({
+      ...input,
+      createdBy: new mongoose.Types.ObjectId(adminId),
+    });
+
+    await template.save();
+
+    loggers.spinWheel('Template created', '', {
+      templateId: template._id.toString(),
+      name: template.name,
+      adminId,
+    });
+
+    return template;
+  }
+
+  /**
+   * Update a wheel template
+   * @param templateId - Template ID
+   * @param input - Fields to update
+   * @returns Updated template
+   */
+  static async updateTemplate(templateId: string, input: WheelTemplateInput): Promise<IWheelTemplate> {
+    const template = await this.getTemplate(templateId);
+
+    if (input.name && input.name !== template.name) {
+      const existing = await WheelTemplate.findOne({ name: input.name });
+      if (existing) {
+        throw new ConflictError(`Template '${input.name}' already exists`);
+      }
+    }
+
+    template.set(input);
+    await template.save();
+
+    loggers.spinWheel('Template updated', '', {
+      templateId,
+      fields: Object.keys(input),
+    });
+
+    return template;
+  }
+
+  /**
+   * Get template by ID
+   * @param templateId - Template ID
+   * @returns Template
+   */
+  static async getTemplate(templateId: string): Promise<IWheelTemplate> {
+    if (!mongoose.isValidObjectId(templateId)) {
+      throw new ValidationError('Invalid template ID format');
+    }
+
+    const template = await WheelTemplate.findById(templateId);
+
+    if (!template) {
+      throw new NotFoundError('Wheel template');
+    }
+
+    return template;
+  }
+
+  /**
+   * List templates
+   * @param includeInactive - Include deactivated templates
+   * @returns Templates sorted by name
+   */
+  static async listTemplates(includeInactive: boolean = false): Promise<IWheelTemplate[]> {
+    const query = includeInactive ? {} : { isActive: true };
+    return WheelTemplate.find(query).sort({ name: 1 });
+  }
+
+  /**
+   * Deactivate a template
+   * @param templateId - Template ID
+   * @returns Deactivated template
+   */
+  static async deactivateTemplate(templateId: string): Promise<IWheelTemplate> {
+    return this.updateTemplate(templateId, { isActive: false });
+  }
+
+  /**
+   * Launch a spin wheel from a template
+   * @param templateId - Template ID
+   * @param adminId - Admin launching the wheel
+   * @param adminName - Admin name
+   * @returns Created spin wheel
+   */
+  static async launchFromTemplate(
+    templateId: string,
+    adminId: string,
+    adminName: string
+  ): Promise<ISpinWheel> {
+    const template = await this.getTemplate(templateId);
+
+    if (!template.isActive) {
+      throw new SpinWheelError('Wheel template is not active');
+    }
+
+    return SpinWheelService.createSpinWheel(
+      adminId,
+      adminName,
+      template.entryFee,
+      template.maxParticipants,
+      {
+        templateId,
+        minParticipants: template.minParticipants,
+        winnerPoolPercentage: template.winnerPoolPercentage,
+        adminPoolPercentage: template.adminPoolPercentage,
+        appPoolPercentage: template.appPoolPercentage,
+        autoStartTime: template.autoStartTime,
+        eliminationInterval: template.eliminationInterval,
+        winnerCount: template.winnerCount,
+        prizeTable: template.prizeTable,
+      }
+    );
+  }
+}
@@ -5,15 +5,18 @@ import { http } from 'winston';
 export class AppError extends Error {
   public statusCode: HttpStatusCodeType;
   public errorCode?: ErrorCodeEnumType;
+  public details?: unknown;   // Extra context returned to the client (e.g. field errors)
 
   constructor(
     message: string,
     statusCode = HTTPSTATUS.INTERNAL_SERVER_ERROR,
     errorCode?: ErrorCodeEnumType,
+    details?: unknown,
   ) {
     super(message);
     this.statusCode = statusCode;
     this.errorCode = errorCode;
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -61,9 +64,14 @@ export class BadRequestException extends AppError {
   }
 }
 
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
 export class ValidationError extends AppError {
-  constructor(message: string) {
-    super(message, HTTPSTATUS.BAD_REQUEST, ErrorCodeEnum.VALIDATION_ERROR);
+  constructor(message: string, details?: FieldError[]) {
+    super(message, HTTPSTATUS.BAD_REQUEST, ErrorCodeEnum.VALIDATION_ERROR, details);
   }
 }
 
@@ -102,14 +110,63 @@ export class InsufficientCoinsError extends AppError {
   }
 }
 
+export class TransferLimitError extends AppError {
+  constructor(message: string) {
+    super(message, HTTPSTATUS.BAD_REQUEST, ErrorCodeEnum.TRANSFER_LIMIT_EXCEEDED);
+  }
+}
+
 export class SpinWheelError extends AppError {
   constructor(message: string) {
     super(message, HTTPSTATUS.BAD_REQUEST, ErrorCodeEnum.SPIN_WHEEL_ERROR);
   }
 }
 
+export class IdempotencyKeyReusedError extends AppError {
+  constructor(message: string = 'Idempotency key was already used with a different request') {
+    super(message, HTTPSTATUS.UNPROCESSABLE_ENTITY, ErrorCodeEnum.IDEMPOTENCY_KEY_REUSED);
+  }
+}
+
+export class IdempotencyKeyInProgressError extends AppError {
+  constructor(message: string = 'A request with this idempotency key is still being processed') {
+    super(message, HTTPSTATUS.CONFLICT, ErrorCodeEnum.IDEMPOTENCY_KEY_IN_PROGRESS);
+  }
+}
+
 export class ConcurrencyError extends AppError {
   constructor(message: string = 'Concurrent operation conflict') {
     super(message, HTTPSTATUS.CONFLICT, ErrorCodeEnum.CONCURRENCY_ERROR);
   }
-}
\ No newline at end of file
+}
+
+export class RateLimitError extends AppError {
+  public retryAfter: number; // Seconds until the client may retry
+
+  constructor(retryAfter: number, message: string = 'Too many requests, please try again later') {
+    super(message, HTTPSTATUS.TOO_MANY_REQUESTS, ErrorCodeEnum.RATE_LIMIT_EXCEEDED);
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  public retryAfter?: number; // Seconds until another instance should be serving
+
+  constructor(message: string = 'Service temporarily unavailable', retryAfter?: number) {
+    super(message, HTTPSTATUS.SERVICE_UNAVAILABLE, ErrorCodeEnum.SERVICE_UNAVAILABLE);
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class AccountLockedError extends AppError {
+  public retryAfter: number; // Seconds until the lockout ends
+
+  constructor(retryAfter: number) {
+    super(
+      `Too many failed login attempts. Try again in ${retryAfter} seconds`,
+      HTTPSTATUS.TOO_MANY_REQUESTS,
+      ErrorCodeEnum.AUTH_ACCOUNT_LOCKED
+    );
+    this.retryAfter = retryAfter;
+  }
+}
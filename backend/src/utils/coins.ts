@@ -0,0 +1,62 @@
+/**
+ * Coins are whole numbers: 1 coin is the smallest unit, and every amount
+ * stored on a wallet, pool or transaction is an integer.
+ */
+
+// Percentages are weighted in basis points so 33.33% stays exact
+const BASIS_POINTS = 100;
+
+export const isCoinAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isSafeInteger(value);
+
+// Mongoose validator for coin fields
+export const coinAmountValidator = {
+  validator: (value: number) => value === undefined || value === null || isCoinAmount(value),
+  message: '{PATH} must be a whole number of coins',
+};
+
+/**
+ * Split an integer amount in proportion to weights using the largest-remainder
+ * method. Every share is an integer and the shares always sum to the amount.
+ * Leftover coins go to the largest fractional remainders; ties go to the
+ * earlier weight, so the same input always gives the same split.
+ * @param amount - Whole number of coins to split
+ * @param weights - Non-negative weights (e.g. percentages); at least one must be positive
+ * @returns One share per weight
+ */
+export const allocateProportionally = (amount: number, weights: number[]): number[] => {
+  if (!isCoinAmount(amount)) {
+    throw new Error(`Cannot allocate a non-integer coin amount: ${amount}`);
+  }
+
+  const scaled = weights.map((weight) => Math.round(weight * BASIS_POINTS));
+  const total = scaled.reduce((sum, weight) => sum + weight, 0);
+
+  if (scaled.some((weight) => weight < 0) || total <= 0) {
+    throw new Error('Allocation weights must be non-negative and not all zero');
+  }
+
+  // Integer arithmetic only: quota = numerator / total, split into whole part and remainder
+  const sign = amount < 0 ? -1 : 1;
+  const magnitude = Math.abs(amount);
+  const remainders = scaled.map((weight, index) => ({ index, remainder: (magnitude * weight) % total }));
+  const shares = scaled.map((weight, index) => (magnitude * weight - remainders[index].remainder) / total);
+
+  let leftover = magnitude - shares.reduce((sum, share) => sum + share, 0);
+  remainders
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        shares[index]++;
+        leftover--;
+      }
+    });
+
+  return shares.map((share) => share * sign || 0);
+};
+
+/**
+ * Helper: Round a legacy (possibly fractional) amount to whole coins, half away from zero
+ */
+export const roundCoins = (value: number): number =>
+  (value < 0 ? -1 : 1) * Math.round(Math.abs(value)) || 0;
@@ -1,8 +1,36 @@
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
+import { MetricsService } from '../services/metrics.service';
 
 
 export async function connectDB() {
 const uri = process.env.MONGO_URI as string;
 await mongoose.connect(uri);
 console.log('MongoDB connected');
-}
\ No newline at end of file
+}
+
+/**
+ * Run session.withTransaction and record its outcome and the number of
+ * times the driver retried it after a transient error
+ * @param session - Session to run the transaction on
+ * @param operation - Metric label, e.g. "auth.register"
+ * @param fn - Transaction body; may run more than once
+ */
+export async function runTransaction<T>(
+  session: ClientSession,
+  operation: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  let attempts = 0;
+
+  try {
+    const result = await session.withTransaction(async () => {
+      attempts++;
+      return fn();
+    });
+    MetricsService.recordTransaction(operation, attempts, true);
+    return result;
+  } catch (error) {
+    MetricsService.recordTransaction(operation, attempts, false);
+    throw error;
+  }
+}
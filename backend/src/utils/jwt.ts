@@ -1,34 +1,98 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { Types } from 'mongoose';
 
 
 interface TokenPayload {
     userId: string;
     role: string;
+    tokenVersion: number;
+    sessionId?: string;
 }
 
+interface RefreshTokenPayload {
+    userId: string;
+    sessionId?: string;
+    jti?: string;
+}
+
+// Refresh tokens (and their sessions) live for 30 days
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
-export const generateAccessToken = (userId: Types.ObjectId, role: string): string => {
+
+export const generateAccessToken = (
+    userId: Types.ObjectId,
+    role: string,
+    tokenVersion: number,
+    sessionId?: Types.ObjectId
+): string => {
     const payload: TokenPayload = {
         userId: userId.toString(),
         role,
+        tokenVersion,
+        ...(sessionId && { sessionId: sessionId.toString() }),
     };
-    
+
     return jwt.sign(payload, process.env.JWT_SECRET as string, { expiresIn: '7d' });
 };
 
-export const generateRefreshToken = (userId: Types.ObjectId): string => {
-    return jwt.sign({ userId: userId.toString() }, process.env.JWT_REFRESH_SECRET as string, { expiresIn: '30d' });
+export const generateRefreshToken = (userId: Types.ObjectId, sessionId: Types.ObjectId): string => {
+    const payload: RefreshTokenPayload = {
+        userId: userId.toString(),
+        sessionId: sessionId.toString(),
+        jti: crypto.randomUUID(),
+    };
+
+    return jwt.sign(payload, process.env.JWT_REFRESH_SECRET as string, {
+        expiresIn: Math.floor(REFRESH_TOKEN_TTL_MS / 1000),
+    });
 };
 
 
-export const verifyRefreshToken = (token: string): string => {
+export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
     try {
-        const decoded = jwt.verify(token, 
+        const decoded = jwt.verify(token,
             process.env.JWT_REFRESH_SECRET as string
-        ) as { userId: string };
-        return decoded.userId;
+        ) as RefreshTokenPayload;
+        return decoded;
     } catch (error) {
         throw new Error('Invalid refresh token');
     }
-};
\ No newline at end of file
+};
+
+
+interface ActionTokenPayload {
+    userId: string;
+    jti: string;
+}
+
+// Per-purpose signing key so action tokens never verify as access tokens
+const actionTokenSecret = (purpose: string): string =>
+    crypto.createHmac('sha256', process.env.JWT_SECRET as string).update(purpose).digest('hex');
+
+/**
+ * Single-purpose token (email verification, password reset)
+ */
+export const generateActionToken = (
+    userId: Types.ObjectId,
+    purpose: string,
+    jti: string,
+    ttlMs: number
+): string => {
+    const payload: ActionTokenPayload = { userId: userId.toString(), jti };
+
+    return jwt.sign(payload, actionTokenSecret(purpose), {
+        audience: purpose,
+        expiresIn: Math.floor(ttlMs / 1000),
+    });
+};
+
+export const verifyActionToken = (token: string, purpose: string): ActionTokenPayload => {
+    try {
+        return jwt.verify(token, actionTokenSecret(purpose), {
+            audience: purpose,
+        }) as ActionTokenPayload;
+    } catch (error) {
+        throw new Error('Invalid or expired token');
+    }
+};
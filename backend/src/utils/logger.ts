@@ -1,5 +1,7 @@
 import winston from 'winston';
 import path from 'path';
+import { getRequestId } from './requestContext';
+import { getEnv } from './get-env';
 
 // Define log levels
 const levels = {
@@ -21,41 +23,198 @@ const colors = {
 
 winston.addColors(colors);
 
-// Define format
-const format = winston.format.combine(
-  winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss:ms' }),
-  winston.format.colorize({ all: true }),
-  winston.format.printf(
-    (info) => `${info.timestamp} ${info.level}: ${info.message}`,
-  ),
+export type LogLevel = keyof typeof levels;
+export const LOG_LEVELS = Object.keys(levels) as LogLevel[];
+
+// Domain loggers can be tuned separately from everything else ("default")
+export const LOG_DOMAINS = ['default', 'spinWheel', 'transaction', 'socket'] as const;
+export type LogDomain = (typeof LOG_DOMAINS)[number];
+
+export const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && value in levels;
+
+const envLevel = (key: string, fallback: LogLevel): LogLevel => {
+  const value = process.env[key]?.toLowerCase();
+  return isLogLevel(value) ? value : fallback;
+};
+
+// Same default as ENV.LOG_LEVEL, without requiring the rest of ENV at import time
+const configuredLevel = getEnv('LOG_LEVEL', 'info').toLowerCase();
+const defaultLevel: LogLevel = isLogLevel(configuredLevel) ? configuredLevel : 'info';
+
+const domainLevels: Record<LogDomain, LogLevel> = {
+  default: defaultLevel,
+  spinWheel: envLevel('LOG_LEVEL_SPINWHEEL', defaultLevel),
+  transaction: envLevel('LOG_LEVEL_TRANSACTION', defaultLevel),
+  socket: envLevel('LOG_LEVEL_SOCKET', defaultLevel),
+};
+
+/**
+ * Change the level of one domain, or of everything without a domain
+ */
+export const setLogLevel = (level: LogLevel, domain: LogDomain = 'default'): void => {
+  domainLevels[domain] = level;
+};
+
+export const getLogLevels = (): Record<LogDomain, LogLevel> => ({ ...domainLevels });
+
+/**
+ * Apply a stored level map; unknown domains and levels are ignored
+ */
+export const applyLogLevels = (value: unknown): void => {
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+
+  Object.entries(value as Record<string, unknown>).forEach(([domain, level]) => {
+    if ((LOG_DOMAINS as readonly string[]).includes(domain) && isLogLevel(level)) {
+      domainLevels[domain as LogDomain] = level;
+    }
+  });
+};
+
+// ----- Redaction -----
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY = /(password|token|secret|authorization|cookie)$/i;
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+const MAX_REDACT_DEPTH = 6;
+
+/**
+ * Helper: Mask emails (j***@example.com) and drop JWTs from free text
+ */
+const redactString = (value: string): string =>
+  value.replace(JWT_PATTERN, REDACTED).replace(EMAIL_PATTERN, '$1***@$2');
+
+/**
+ * Helper: Copy a value with sensitive keys removed and strings masked
+ */
+const redactValue = (value: any, depth: number, seen: WeakSet<object>): any => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack && { stack: redactString(value.stack) }),
+    };
+  }
+
+  if (seen.has(value) || depth >= MAX_REDACT_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  // Dates, ObjectIds and Mongoose documents
+  if (!Array.isArray(value) && typeof value.toJSON === 'function') {
+    return redactValue(value.toJSON(), depth + 1, seen);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1, seen));
+  }
+
+  const copy: Record<string, any> = {};
+  Object.keys(value).forEach((key) => {
+    copy[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactValue(value[key], depth + 1, seen);
+  });
+  return copy;
+};
+
+const redactFormat = winston.format((info) => {
+  const seen = new WeakSet<object>();
+
+  Object.keys(info).forEach((key) => {
+    if (key === 'level' || key === 'timestamp') {
+      return;
+    }
+    info[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactValue(info[key], 0, seen);
+  });
+
+  return info;
+});
+
+// ----- Formats -----
+
+// Drop entries below the level of their domain
+const levelFilterFormat = winston.format((info) => {
+  const domain = (info.domain as LogDomain) || 'default';
+  const threshold = domainLevels[domain] ?? domainLevels.default;
+
+  const level = (info[Symbol.for('level')] || info.level) as LogLevel;
+
+  return levels[level] <= levels[threshold] ? info : false;
+});
+
+// Tag every line with the request or job it belongs to
+const requestIdFormat = winston.format((info) => {
+  const requestId = getRequestId();
+  if (requestId && !info.requestId) {
+    info.requestId = requestId;
+  }
+  return info;
+});
+
+const baseFormat = winston.format.combine(
+  levelFilterFormat(),
+  winston.format.errors({ stack: true }),
+  requestIdFormat(),
+  redactFormat(),
+  winston.format.timestamp(),
+);
+
+// One JSON object per line for files and log pipelines
+const jsonFormat = winston.format.combine(baseFormat, winston.format.json());
+
+// Human-readable console output for local development
+const prettyFormat = winston.format.combine(
+  baseFormat,
+  winston.format.colorize(),
+  winston.format.printf(({ timestamp, level, message, requestId, ...metadata }) => {
+    const meta = Object.keys(metadata).length ? ` ${JSON.stringify(metadata)}` : '';
+    return `${timestamp} ${level}: ${requestId ? `[${requestId}] ` : ''}${message}${meta}`;
+  }),
 );
 
+const consoleFormat =
+  (process.env.LOG_FORMAT || (getEnv('NODE_ENV', 'development') === 'development' ? 'pretty' : 'json')) === 'pretty'
+    ? prettyFormat
+    : jsonFormat;
+
 // Define transports
 const transports = [
   // Console transport
-  new winston.transports.Console(),
-  
+  new winston.transports.Console({ format: consoleFormat }),
+
   // Error log file
   new winston.transports.File({
     filename: path.join('logs', 'error.log'),
     level: 'error',
+    format: jsonFormat,
     maxsize: 5242880, // 5MB
     maxFiles: 5,
   }),
-  
+
   // Combined log file
   new winston.transports.File({
     filename: path.join('logs', 'combined.log'),
+    format: jsonFormat,
     maxsize: 5242880, // 5MB
     maxFiles: 5,
   }),
 ];
 
-// Create logger
+// Create logger; levels are enforced per domain by levelFilterFormat
 const logger = winston.createLogger({
-  level: process.env.NODE_ENV === 'development' ? 'debug' : 'warn',
+  level: 'debug',
   levels,
-  format,
   transports,
 });
 
@@ -63,20 +222,25 @@ const logger = winston.createLogger({
 export const loggers = {
   spinWheel: (action: string, spinWheelId: string, metadata?: any) => {
     logger.info(`[SpinWheel] ${action}`, {
+      domain: 'spinWheel',
       spinWheelId,
       ...metadata,
     });
   },
   transaction: (action: string, userId: string, amount: number, metadata?: any) => {
     logger.info(`[Transaction] ${action}`, {
+      domain: 'transaction',
       userId,
       amount,
       ...metadata,
     });
   },
   socket: (event: string, metadata?: any) => {
-    logger.info(`[Socket] ${event}`, metadata);
+    logger.info(`[Socket] ${event}`, {
+      domain: 'socket',
+      ...metadata,
+    });
   },
 };
 
-export default logger;
\ No newline at end of file
+export default logger;
@@ -0,0 +1,170 @@
+/**
+ * Minimal Prometheus-style metrics registry (text exposition format 0.0.4).
+ * Metrics live in process memory, so every instance exposes its own series.
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// Seconds; same defaults as the Prometheus client libraries
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Helper: Escape a label value for the text format
+ */
+const escapeLabelValue = (value: string | number): string =>
+  String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+/**
+ * Helper: Stable series key, so {a,b} and {b,a} are the same series
+ */
+const labelKey = (labels: MetricLabels): string =>
+  Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name])}"`)
+    .join(',');
+
+const formatSeries = (name: string, key: string, value: number): string =>
+  `${name}${key ? `{${key}}` : ''} ${Number.isFinite(value) ? value : value > 0 ? '+Inf' : '-Inf'}`;
+
+abstract class Metric {
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly type: MetricType
+  ) {}
+
+  protected abstract renderSeries(): string[];
+
+  public render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  protected renderSeries(): string[] {
+    return Array.from(this.values, ([key, value]) => formatSeries(this.name, key, value));
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  public set(labels: MetricLabels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  /**
+   * Drop every series, e.g. before a collector writes a fresh snapshot
+   */
+  public reset(): void {
+    this.values.clear();
+  }
+
+  protected renderSeries(): string[] {
+    return Array.from(this.values, ([key, value]) => formatSeries(this.name, key, value));
+  }
+}
+
+interface HistogramSeries {
+  labels: string;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, HistogramSeries> = new Map();
+  private readonly buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(labels: MetricLabels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = { labels: key, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.bucketCounts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected renderSeries(): string[] {
+    const lines: string[] = [];
+
+    this.series.forEach(({ labels, bucketCounts, sum, count }) => {
+      const withLe = (le: string) => (labels ? `${labels},le="${le}"` : `le="${le}"`);
+
+      this.buckets.forEach((bound, index) => {
+        lines.push(formatSeries(`${this.name}_bucket`, withLe(String(bound)), bucketCounts[index]));
+      });
+      lines.push(formatSeries(`${this.name}_bucket`, withLe('+Inf'), count));
+      lines.push(formatSeries(`${this.name}_sum`, labels, sum));
+      lines.push(formatSeries(`${this.name}_count`, labels, count));
+    });
+
+    return lines;
+  }
+}
+
+// Refreshes point-in-time gauges right before a scrape
+export type MetricsCollector = () => Promise<void>;
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: MetricsCollector[] = [];
+
+  public register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  public addCollector(collector: MetricsCollector): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Run every collector, then render all metrics.
+   * A failing collector leaves its gauges at their last values.
+   */
+  public async render(onCollectorError?: (error: unknown) => void): Promise<string> {
+    const results = await Promise.allSettled(this.collectors.map((collector) => collector()));
+
+    results.forEach((result) => {
+      if (result.status === 'rejected') {
+        onCollectorError?.(result.reason);
+      }
+    });
+
+    return `${this.metrics.map((metric) => metric.render()).join('\n')}\n`;
+  }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
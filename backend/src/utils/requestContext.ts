@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+export interface RequestContext {
+  requestId: string;
+  source: 'http' | 'socket' | 'scheduler' | 'job';
+  userId?: string;
+  jobKey?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with a context that every awaited call inside it can read
+ */
+export const runWithContext = <T>(context: RequestContext, fn: () => T): T =>
+  storage.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+export const getRequestId = (): string | undefined => storage.getStore()?.requestId;
+
+/**
+ * Attach the authenticated user to the current context
+ */
+export const setContextUser = (userId: string): void => {
+  const context = storage.getStore();
+  if (context) {
+    context.userId = userId;
+  }
+};
+
+export const generateRequestId = (): string => crypto.randomUUID();
+
+/**
+ * ID for work that no client request started (scheduler ticks, background jobs)
+ */
+export const generateJobId = (prefix: string = 'job'): string => `${prefix}-${crypto.randomUUID()}`;
+
+/**
+ * Helper: Add the current request ID to an outbound payload
+ */
+export const withRequestId = <T>(data: T): T => {
+  const requestId = getRequestId();
+
+  if (!requestId || !data || typeof data !== 'object' || Array.isArray(data)) {
+    return data;
+  }
+
+  return { ...data, requestId };
+};
@@ -1,22 +1,56 @@
 import { z } from 'zod';
 
 const strongPasswordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*(),.?":{}|<>]).{8,}$/;
+const objectIdRegex = /^[0-9a-fA-F]{24}$/;
 
+const strongPassword = z
+  .string({ error: "Password is required" })
+  .regex(
+    strongPasswordRegex,
+    "Password must be at least 8 characters and include uppercase, lowercase, number, and special character"
+  );
+
+const email = z.string({ error: "Email is required" }).trim().toLowerCase().email("Please provide a valid email address");
+
+// Roles are never taken from registration input; only an admin invitation grants one
 export const registerUserSchema = z.object({
-  name: z.string().min(2, "Name must be at least 2 characters long"),
-  email: z.string().email("Please provide a valid email address"),
-  password: z
-    .string()
-    .regex(
-      strongPasswordRegex,
-      "Password must be at least 8 characters and include uppercase, lowercase, number, and special character"
-    ),
+  name: z.string({ error: "Name is required" }).trim().min(3, "Name must be at least 3 characters long").max(30, "Name cannot exceed 30 characters"),
+  email,
+  password: strongPassword,
+  invitationToken: z.string().min(1, "Invitation token cannot be empty").optional(),
 });
 
 export const loginUserSchema = z.object({
-  email: z.string().email("Please provide a valid email address"),
-  password: z.string().min(1, "Password is required"),
+  email,
+  password: z.string({ error: "Password is required" }).min(1, "Password is required"),
+});
+
+// The refresh token normally arrives in the cookie; the body is a fallback
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token cannot be empty").optional(),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string({ error: "Verification token is required" }).min(1, "Verification token is required"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string({ error: "Reset token is required" }).min(1, "Reset token is required"),
+  password: strongPassword,
+});
+
+export const updateProfileSchema = z.object({
+  email,
+});
+
+export const sessionIdParamsSchema = z.object({
+  sessionId: z.string().regex(objectIdRegex, "Invalid session ID"),
 });
 
 export type RegisterUserInput = z.infer<typeof registerUserSchema>;
-export type LoginUserInput = z.infer<typeof loginUserSchema>;
\ No newline at end of file
+export type LoginUserInput = z.infer<typeof loginUserSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
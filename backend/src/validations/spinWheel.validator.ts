@@ -1,5 +1,27 @@
 import Joi from 'joi';
 
+/**
+ * Prize table must have one share per winner and sum to 100
+ */
+export const checkPrizeTable = (value: { winnerCount?: number; prizeTable?: number[] }): string | null => {
+  const { winnerCount, prizeTable } = value;
+
+  if (!prizeTable) {
+    return null;
+  }
+
+  if (winnerCount !== undefined && prizeTable.length !== winnerCount) {
+    return 'Prize table must have one entry per winner';
+  }
+
+  const total = prizeTable.reduce((sum, share) => sum + share, 0);
+  if (Math.abs(total - 100) > 0.01) {
+    return 'Prize table must sum to 100';
+  }
+
+  return null;
+};
+
 export const createSpinWheelSchema = Joi.object({
   entryFee: Joi.number()
     .integer()
@@ -20,6 +42,15 @@ export const createSpinWheelSchema = Joi.object({
       'number.min': 'Maximum participants must be at least 3',
       'number.max': 'Maximum participants cannot exceed 1000',
     }),
+  minParticipants: Joi.number()
+    .integer()
+    .min(2)
+    .max(Joi.ref('maxParticipants'))
+    .messages({
+      'number.integer': 'Minimum participants must be an integer',
+      'number.min': 'Minimum participants must be at least 2',
+      'number.max': 'Minimum participants cannot exceed maximum participants',
+    }),
   winnerPoolPercentage: Joi.number()
     .min(0)
     .max(100)
@@ -41,17 +72,49 @@ export const createSpinWheelSchema = Joi.object({
       'number.min': 'Percentage cannot be negative',
       'number.max': 'Percentage cannot exceed 100',
     }),
-}).custom((value, helpers) => {
+  autoStartTime: Joi.number()
+    .integer()
+    .min(0)
+    .messages({
+      'number.integer': 'Auto start time must be an integer (ms)',
+      'number.min': 'Auto start time cannot be negative',
+    }),
+  eliminationInterval: Joi.number()
+    .integer()
+    .min(1000)
+    .messages({
+      'number.integer': 'Elimination interval must be an integer (ms)',
+      'number.min': 'Elimination interval must be at least 1 second',
+    }),
+  winnerCount: Joi.number()
+    .integer()
+    .min(1)
+    .messages({
+      'number.integer': 'Number of winners must be an integer',
+      'number.min': 'There must be at least one winner',
+    }),
+  prizeTable: Joi.array()
+    .items(Joi.number().min(0).max(100))
+    .min(1)
+    .messages({
+      'array.min': 'Prize table must have at least one entry',
+    }),
+})
+  .and('winnerPoolPercentage', 'adminPoolPercentage', 'appPoolPercentage')
+  .custom((value, helpers) => {
   const { winnerPoolPercentage, adminPoolPercentage, appPoolPercentage } = value;
   
   if (winnerPoolPercentage !== undefined && adminPoolPercentage !== undefined && appPoolPercentage !== undefined) {
     const total = winnerPoolPercentage + adminPoolPercentage + appPoolPercentage;
     if (Math.abs(total - 100) > 0.01) {
-      return helpers.error('any.custom', { 
-        message: 'Distribution percentages must sum to 100' 
-      });
+      return helpers.message({ custom: 'Distribution percentages must sum to 100' });
     }
   }
+
+  const prizeTableError = checkPrizeTable(value);
+  if (prizeTableError) {
+    return helpers.message({ custom: prizeTableError });
+  }
   
   return value;
 });
@@ -62,6 +125,12 @@ export const joinSpinWheelSchema = Joi.object({
     .messages({
       'any.required': 'Spin wheel ID is required',
     }),
+  clientSeed: Joi.string()
+    .trim()
+    .max(64)
+    .messages({
+      'string.max': 'Client seed cannot exceed 64 characters',
+    }),
 });
 
 export const spinWheelIdParamSchema = Joi.object({
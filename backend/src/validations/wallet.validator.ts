@@ -0,0 +1,28 @@
+import Joi from 'joi';
+
+export const transferSchema = Joi.object({
+  recipient: Joi.string()
+    .trim()
+    .required()
+    .messages({
+      'string.empty': 'Recipient is required',
+      'any.required': 'Recipient is required',
+    }),
+  amount: Joi.number()
+    .integer()
+    .min(1)
+    .required()
+    .messages({
+      'number.base': 'Amount must be a number',
+      'number.integer': 'Amount must be an integer',
+      'number.min': 'Amount must be at least 1 coin',
+      'any.required': 'Amount is required',
+    }),
+  note: Joi.string()
+    .trim()
+    .max(140)
+    .allow('')
+    .messages({
+      'string.max': 'Note cannot exceed 140 characters',
+    }),
+});
@@ -0,0 +1,64 @@
+import Joi from 'joi';
+import { checkPrizeTable } from './spinWheel.validator';
+
+const percentage = Joi.number()
+  .min(0)
+  .max(100)
+  .messages({
+    'number.min': 'Percentage cannot be negative',
+    'number.max': 'Percentage cannot exceed 100',
+  });
+
+const templateFields = {
+  name: Joi.string().trim().max(50).messages({
+    'string.max': 'Template name cannot exceed 50 characters',
+  }),
+  description: Joi.string().trim().max(200).allow(''),
+  entryFee: Joi.number().integer().min(1).messages({
+    'number.integer': 'Entry fee must be an integer',
+    'number.min': 'Entry fee must be at least 1 coin',
+  }),
+  maxParticipants: Joi.number().integer().min(3).max(1000),
+  minParticipants: Joi.number().integer().min(3).max(1000),
+  winnerPoolPercentage: percentage,
+  adminPoolPercentage: percentage,
+  appPoolPercentage: percentage,
+  autoStartTime: Joi.number().integer().min(0),
+  eliminationInterval: Joi.number().integer().min(1000),
+  winnerCount: Joi.number().integer().min(1),
+  prizeTable: Joi.array().items(Joi.number().min(0).max(100)).min(1),
+};
+
+const percentagesSumTo100 = (value: any, helpers: Joi.CustomHelpers) => {
+  const { winnerPoolPercentage, adminPoolPercentage, appPoolPercentage } = value;
+
+  if (winnerPoolPercentage !== undefined && adminPoolPercentage !== undefined && appPoolPercentage !== undefined) {
+    const total = winnerPoolPercentage + adminPoolPercentage + appPoolPercentage;
+    if (Math.abs(total - 100) > 0.01) {
+      return helpers.message({ custom: 'Distribution percentages must sum to 100' });
+    }
+  }
+
+  const prizeTableError = checkPrizeTable(value);
+  if (prizeTableError) {
+    return helpers.message({ custom: prizeTableError });
+  }
+
+  return value;
+};
+
+export const createWheelTemplateSchema = Joi.object({
+  ...templateFields,
+  name: templateFields.name.required(),
+  entryFee: templateFields.entryFee.required(),
+})
+  .and('winnerPoolPercentage', 'adminPoolPercentage', 'appPoolPercentage')
+  .custom(percentagesSumTo100);
+
+export const updateWheelTemplateSchema = Joi.object({
+  ...templateFields,
+  isActive: Joi.boolean(),
+})
+  .and('winnerPoolPercentage', 'adminPoolPercentage', 'appPoolPercentage')
+  .min(1)
+  .custom(percentagesSumTo100);
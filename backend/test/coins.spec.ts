@@ -0,0 +1,102 @@
+import { allocateProportionally, isCoinAmount, roundCoins } from '../src/utils/coins';
+import { SpinWheelService } from '../src/services/spinWheel.service';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('allocateProportionally', () => {
+  it('splits exactly when the weights divide the amount', () => {
+    expect(allocateProportionally(100, [70, 20, 10])).toEqual([70, 20, 10]);
+  });
+
+  it('gives leftover coins to the largest remainders', () => {
+    // 10 * 70% = 7, 10 * 25% = 2.5, 10 * 5% = 0.5
+    expect(allocateProportionally(10, [70, 25, 5])).toEqual([7, 3, 0]);
+  });
+
+  it('breaks remainder ties in favour of the earlier weight', () => {
+    expect(allocateProportionally(1, [1, 1, 1])).toEqual([1, 0, 0]);
+    expect(allocateProportionally(2, [1, 1, 1])).toEqual([1, 1, 0]);
+  });
+
+  it('keeps fractional percentages exact', () => {
+    expect(allocateProportionally(10000, [33.33, 33.33, 33.34])).toEqual([3333, 3333, 3334]);
+  });
+
+  it('always returns whole shares that sum to the amount', () => {
+    const weightSets = [[70, 20, 10], [33.33, 33.33, 33.34], [1, 1, 1, 1, 1, 1, 1], [99.99, 0.01], [50, 0, 50]];
+
+    for (const weights of weightSets) {
+      for (let amount = 0; amount <= 250; amount++) {
+        const shares = allocateProportionally(amount, weights);
+        expect(shares).toHaveLength(weights.length);
+        expect(shares.every(isCoinAmount)).toBe(true);
+        expect(shares.every((share) => share >= 0)).toBe(true);
+        expect(sum(shares)).toBe(amount);
+      }
+    }
+  });
+
+  it('never gives a share to a zero weight', () => {
+    expect(allocateProportionally(7, [50, 0, 50])).toEqual([4, 0, 3]);
+  });
+
+  it('mirrors the split of a negative amount', () => {
+    expect(allocateProportionally(-10, [70, 25, 5])).toEqual([-7, -3, 0]);
+  });
+
+  it('is deterministic for the same input', () => {
+    expect(allocateProportionally(37, [40, 35, 25])).toEqual(allocateProportionally(37, [40, 35, 25]));
+  });
+
+  it('rejects fractional amounts', () => {
+    expect(() => allocateProportionally(10.5, [50, 50])).toThrow('non-integer');
+  });
+
+  it('rejects negative or all-zero weights', () => {
+    expect(() => allocateProportionally(10, [0, 0])).toThrow('Allocation weights');
+    expect(() => allocateProportionally(10, [110, -10])).toThrow('Allocation weights');
+    expect(() => allocateProportionally(10, [])).toThrow('Allocation weights');
+  });
+});
+
+describe('roundCoins', () => {
+  it('rounds half away from zero', () => {
+    expect(roundCoins(2.5)).toBe(3);
+    expect(roundCoins(2.49)).toBe(2);
+    expect(roundCoins(-2.5)).toBe(-3);
+    expect(roundCoins(-2.49)).toBe(-2);
+  });
+
+  it('never returns negative zero', () => {
+    expect(Object.is(roundCoins(-0.2), 0)).toBe(true);
+  });
+});
+
+describe('SpinWheelService.splitEntryFee', () => {
+  const percentages = { winnerPoolPercentage: 70, adminPoolPercentage: 20, appPoolPercentage: 10 };
+
+  it('splits a fee into whole pool shares that add back up to the fee', () => {
+    for (let fee = 1; fee <= 100; fee++) {
+      const { winnerAmount, adminAmount, appAmount } = SpinWheelService.splitEntryFee(fee, percentages);
+      expect([winnerAmount, adminAmount, appAmount].every(isCoinAmount)).toBe(true);
+      expect(winnerAmount + adminAmount + appAmount).toBe(fee);
+    }
+  });
+
+  it('lets a refund take back exactly what the joins added', () => {
+    const fee = 7;
+    const pools = { winnerAmount: 0, adminAmount: 0, appAmount: 0 };
+
+    for (let join = 0; join < 3; join++) {
+      const shares = SpinWheelService.splitEntryFee(fee, percentages);
+      pools.winnerAmount += shares.winnerAmount;
+      pools.adminAmount += shares.adminAmount;
+      pools.appAmount += shares.appAmount;
+    }
+
+    const refund = SpinWheelService.splitEntryFee(fee, percentages);
+    expect(pools.winnerAmount - refund.winnerAmount).toBe(2 * refund.winnerAmount);
+    expect(pools.adminAmount - refund.adminAmount).toBe(2 * refund.adminAmount);
+    expect(pools.appAmount - refund.appAmount).toBe(2 * refund.appAmount);
+  });
+});
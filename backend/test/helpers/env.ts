@@ -0,0 +1,2 @@
+// Keep test output readable: only errors reach the console
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
@@ -0,0 +1,22 @@
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+
+/**
+ * Start a single-node replica set for the suites that need MongoDB.
+ * Transactions only work on a replica set, so a standalone server is not enough.
+ * Set MONGO_TEST_URI to use an existing replica set instead.
+ */
+export default async function globalSetup(): Promise<void> {
+  if (process.env.MONGO_TEST_URI) {
+    return;
+  }
+
+  try {
+    const replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+    (globalThis as { __MONGO_REPLSET__?: MongoMemoryReplSet }).__MONGO_REPLSET__ = replSet;
+    process.env.MONGO_TEST_URI = replSet.getUri();
+  } catch (error) {
+    console.warn(
+      `\nMongoDB could not be started, database suites will be skipped: ${(error as Error).message}\n`
+    );
+  }
+}
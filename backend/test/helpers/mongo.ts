@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+
+/**
+ * describe() for suites that need MongoDB; skipped when none could be started
+ */
+export const describeWithMongo = process.env.MONGO_TEST_URI ? describe : describe.skip;
+
+/**
+ * Connect, build indexes and clean up between tests
+ */
+export const useTestDatabase = (): void => {
+  beforeAll(async () => {
+    await mongoose.connect(process.env.MONGO_TEST_URI as string, { dbName: `test_${process.pid}` });
+    await Promise.all(Object.values(mongoose.models).map((model) => model.createCollection()));
+    await mongoose.syncIndexes();
+  });
+
+  afterEach(async () => {
+    const collections = await mongoose.connection.db!.collections();
+    await Promise.all(collections.map((collection) => collection.deleteMany({})));
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.disconnect();
+  });
+};
+
+/**
+ * Run fn with a fresh session and end it afterwards
+ */
+export const withSession = async <T>(fn: (session: mongoose.ClientSession) => Promise<T>): Promise<T> => {
+  const session = await mongoose.startSession();
+  try {
+    return await fn(session);
+  } finally {
+    await session.endSession();
+  }
+};
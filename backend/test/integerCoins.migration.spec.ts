@@ -0,0 +1,152 @@
+import { Types } from 'mongoose';
+import { CoinLedger, LedgerAccountType } from '../src/models/coin_ledger.models';
+import LedgerAccount from '../src/models/ledger_account.models';
+import SpinWheel, { SpinWheelStatus } from '../src/models/spin_wheels.models';
+import Transaction, { TransactionType } from '../src/models/transaction.models';
+import User from '../src/models/user.models';
+import { migrateToIntegerCoins } from '../src/migrations/integerCoins.migration';
+import { LedgerService, SystemAccount } from '../src/services/ledger.service';
+import { describeWithMongo, useTestDatabase } from './helpers/mongo';
+
+// Legacy documents are written straight to the collections: the models now reject fractional coins
+const insertUser = async (coins: number) => {
+  const _id = new Types.ObjectId();
+  await User.collection.insertOne({ _id, name: 'Legacy User', email: `legacy-${_id}@example.com`, password: 'x', coins, heldCoins: 0 });
+  return _id;
+};
+
+const participant = (entryFeePaid: number) => ({
+  userId: new Types.ObjectId(),
+  name: 'Player',
+  joinedAt: new Date(),
+  entryFeePaid,
+  isEliminated: false,
+});
+
+const insertSpinWheel = async (fields: Record<string, unknown>) => {
+  const _id = new Types.ObjectId();
+  await SpinWheel.collection.insertOne({
+    _id,
+    adminId: new Types.ObjectId(),
+    adminName: 'Admin',
+    winnerPoolPercentage: 70,
+    adminPoolPercentage: 20,
+    appPoolPercentage: 10,
+    winnerCount: 1,
+    prizeTable: [],
+    winners: [],
+    participants: [],
+    ...fields,
+  });
+  return _id;
+};
+
+describeWithMongo('migrateToIntegerCoins', () => {
+  useTestDatabase();
+
+  it('rounds user wallets half away from zero', async () => {
+    const roundedUp = await insertUser(10.5);
+    const roundedDown = await insertUser(3.2);
+    const untouched = await insertUser(42);
+
+    const report = await migrateToIntegerCoins();
+
+    expect(report.users).toBe(2);
+    expect((await User.findById(roundedUp))?.coins).toBe(11);
+    expect((await User.findById(roundedDown))?.coins).toBe(3);
+    expect((await User.findById(untouched))?.coins).toBe(42);
+  });
+
+  it('keeps balanceAfter - balanceBefore = amount on transactions', async () => {
+    const _id = new Types.ObjectId();
+    await Transaction.collection.insertOne({
+      _id,
+      userId: new Types.ObjectId(),
+      type: TransactionType.ADMIN_CREDIT,
+      amount: 4.8,
+      balanceBefore: 10.4,
+      balanceAfter: 15.2,
+      status: 'completed',
+    });
+
+    const report = await migrateToIntegerCoins();
+
+    expect(report.transactions).toBe(1);
+    const transaction = await Transaction.findById(_id);
+    expect(transaction).toMatchObject({ balanceBefore: 10, balanceAfter: 15, amount: 5 });
+  });
+
+  it('rebuilds the pools of an active wheel from its participants', async () => {
+    const _id = await insertSpinWheel({
+      status: SpinWheelStatus.WAITING,
+      entryFee: 10.4,
+      participants: [participant(10.4), participant(10.4), participant(10.4)],
+      winnerPool: 21.84,
+      adminPool: 6.24,
+      appPool: 3.12,
+    });
+
+    await migrateToIntegerCoins();
+
+    const spinWheel = await SpinWheel.findById(_id);
+    expect(spinWheel?.entryFee).toBe(10);
+    expect(spinWheel?.participants.map((p) => p.entryFeePaid)).toEqual([10, 10, 10]);
+    expect([spinWheel?.winnerPool, spinWheel?.adminPool, spinWheel?.appPool]).toEqual([21, 6, 3]);
+  });
+
+  it('keeps the rounded pool total of a finished wheel and pays it out in full', async () => {
+    const _id = await insertSpinWheel({
+      status: SpinWheelStatus.COMPLETED,
+      entryFee: 33.3,
+      participants: [participant(33.3), participant(33.3), participant(33.4)],
+      winnerPool: 70.5,
+      adminPool: 20.25,
+      appPool: 9.25,
+      winners: [{ userId: new Types.ObjectId(), name: 'Player', position: 1, prize: 70.5 }],
+    });
+
+    await migrateToIntegerCoins();
+
+    const spinWheel = await SpinWheel.findById(_id);
+    const pools = [spinWheel!.winnerPool, spinWheel!.adminPool, spinWheel!.appPool];
+    expect(pools).toEqual([71, 20, 9]);
+    expect(spinWheel?.winners[0].prize).toBe(71);
+  });
+
+  it('evens out fractional ledger balances against the rounding account', async () => {
+    const userId = new Types.ObjectId();
+    const code = LedgerService.userAccount(userId);
+    await LedgerAccount.collection.insertOne({ code, type: LedgerAccountType.USER, userId, balance: 2.4 });
+
+    const report = await migrateToIntegerCoins();
+
+    expect(report.ledgerAccounts).toBe(1);
+    expect(await LedgerService.getUserBalance(userId)).toBe(2);
+
+    const entries = await CoinLedger.find();
+    expect(entries).toHaveLength(2);
+    expect(entries.find((entry) => entry.account === code)?.debit).toBeCloseTo(0.4);
+    expect(entries.find((entry) => entry.account === LedgerService.systemAccount(SystemAccount.ROUNDING))?.credit).toBeCloseTo(0.4);
+  });
+
+  it('changes nothing when run a second time', async () => {
+    await insertUser(10.5);
+    await insertSpinWheel({
+      status: SpinWheelStatus.WAITING,
+      entryFee: 10.4,
+      participants: [participant(10.4)],
+      winnerPool: 7.28,
+      adminPool: 2.08,
+      appPool: 1.04,
+    });
+    const userId = new Types.ObjectId();
+    await LedgerAccount.collection.insertOne({ code: LedgerService.userAccount(userId), type: LedgerAccountType.USER, userId, balance: 2.5 });
+
+    await migrateToIntegerCoins();
+    const entries = await CoinLedger.countDocuments();
+    const second = await migrateToIntegerCoins();
+
+    expect(second).toEqual({ spinWheels: 0, transactions: 0, users: 0, ledgerAccounts: 0 });
+    expect(await CoinLedger.countDocuments()).toBe(entries);
+  });
+});
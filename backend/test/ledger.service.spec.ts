@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import { CoinLedger } from '../src/models/coin_ledger.models';
+import LedgerAccount from '../src/models/ledger_account.models';
+import User from '../src/models/user.models';
+import { LedgerService, SystemAccount } from '../src/services/ledger.service';
+import { runTransaction } from '../src/utils/db';
+import { describeWithMongo, useTestDatabase, withSession } from './helpers/mongo';
+
+const issuance = LedgerService.systemAccount(SystemAccount.COIN_ISSUANCE);
+const winnerPool = LedgerService.systemAccount(SystemAccount.WINNER_POOL);
+
+const createUser = (coins: number) =>
+  User.create({ name: 'Ledger User', email: `ledger-${new mongoose.Types.ObjectId()}@example.com`, password: 'password123', coins });
+
+const post = (from: string, to: string, amount: number) =>
+  withSession((session) =>
+    runTransaction(session, 'test.ledger', () => LedgerService.post({ from, to, amount }, session))
+  );
+
+describeWithMongo('LedgerService', () => {
+  useTestDatabase();
+
+  describe('post', () => {
+    it('writes a paired debit and credit and moves both running balances', async () => {
+      const user = await createUser(0);
+      const account = LedgerService.userAccount(user._id);
+
+      await post(issuance, account, 40);
+      await post(account, winnerPool, 15);
+
+      const entries = await CoinLedger.find().sort({ createdAt: 1, _id: 1 });
+      expect(entries).toHaveLength(4);
+
+      const journals = new Map<string, { debit: number; credit: number }>();
+      for (const entry of entries) {
+        const journal = journals.get(entry.journalId.toString()) ?? { debit: 0, credit: 0 };
+        journal.debit += entry.debit;
+        journal.credit += entry.credit;
+        journals.set(entry.journalId.toString(), journal);
+      }
+      expect(journals.size).toBe(2);
+      journals.forEach((journal) => expect(journal.debit).toBe(journal.credit));
+
+      expect(await LedgerService.getUserBalance(user._id)).toBe(25);
+      expect((await LedgerAccount.findOne({ code: winnerPool }))?.balance).toBe(15);
+      expect((await LedgerAccount.findOne({ code: issuance }))?.balance).toBe(-40);
+    });
+
+    it('keeps the sum of all account balances at zero', async () => {
+      const users = await Promise.all([createUser(0), createUser(0)]);
+      const [first, second] = users.map((user) => LedgerService.userAccount(user._id));
+
+      await post(issuance, first, 100);
+      await post(first, second, 30);
+      await post(second, winnerPool, 7);
+
+      const accounts = await LedgerAccount.find();
+      expect(accounts.reduce((total, account) => total + account.balance, 0)).toBe(0);
+    });
+
+    it('records nothing for zero or negative amounts', async () => {
+      const user = await createUser(0);
+
+      await post(issuance, LedgerService.userAccount(user._id), 0);
+      await post(issuance, LedgerService.userAccount(user._id), -5);
+
+      expect(await CoinLedger.countDocuments()).toBe(0);
+    });
+
+    it('leaves no entries behind when the transaction aborts', async () => {
+      const user = await createUser(0);
+
+      await expect(
+        withSession((session) =>
+          runTransaction(session, 'test.ledger', async () => {
+            await LedgerService.post({ from: issuance, to: LedgerService.userAccount(user._id), amount: 10 }, session);
+            throw new Error('boom');
+          })
+        )
+      ).rejects.toThrow('boom');
+
+      expect(await CoinLedger.countDocuments()).toBe(0);
+      expect(await LedgerService.getUserBalance(user._id)).toBe(0);
+    });
+  });
+
+  describe('ensureUserAccount', () => {
+    it('opens the account once with the opening balance', async () => {
+      const user = await createUser(120);
+
+      await withSession(async (session) => {
+        await runTransaction(session, 'test.ledger', () => LedgerService.ensureUserAccount(user._id, 120, session));
+        await runTransaction(session, 'test.ledger', () => LedgerService.ensureUserAccount(user._id, 999, session));
+      });
+
+      expect(await LedgerAccount.countDocuments({ code: LedgerService.userAccount(user._id) })).toBe(1);
+      expect(await LedgerService.getUserBalance(user._id)).toBe(120);
+      expect(await CoinLedger.countDocuments({ description: 'Opening balance' })).toBe(2);
+    });
+  });
+
+  describe('reconcile', () => {
+    it('reports a balanced ledger when wallets match their accounts', async () => {
+      const user = await createUser(50);
+      await post(issuance, LedgerService.userAccount(user._id), 50);
+
+      const report = await LedgerService.reconcile();
+
+      expect(report).toMatchObject({
+        checkedUsers: 1,
+        unopenedAccounts: 0,
+        discrepancies: [],
+        totalDebits: 50,
+        totalCredits: 50,
+        balanced: true,
+      });
+    });
+
+    it('reports a wallet that is off by a single coin', async () => {
+      const user = await createUser(50);
+      await post(issuance, LedgerService.userAccount(user._id), 50);
+      await User.updateOne({ _id: user._id }, { $inc: { coins: 1 } });
+
+      const report = await LedgerService.reconcile();
+
+      expect(report.discrepancies).toHaveLength(1);
+      expect(report.discrepancies[0]).toMatchObject({ coins: 51, ledgerBalance: 50, difference: 1 });
+      expect(report.balanced).toBe(true);
+    });
+
+    it('counts users without a ledger account separately', async () => {
+      await createUser(1000);
+      const opened = await createUser(10);
+      await post(issuance, LedgerService.userAccount(opened._id), 10);
+
+      const report = await LedgerService.reconcile();
+
+      expect(report.checkedUsers).toBe(1);
+      expect(report.unopenedAccounts).toBe(1);
+      expect(report.discrepancies).toEqual([]);
+    });
+  });
+});
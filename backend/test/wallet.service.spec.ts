@@ -0,0 +1,162 @@
+import { Types } from 'mongoose';
+import User from '../src/models/user.models';
+import WalletHold, { WalletHoldStatus } from '../src/models/wallet_hold.models';
+import { WalletService } from '../src/services/wallet.service';
+import { ConflictError, InsufficientCoinsError, NotFoundError } from '../src/utils/apiResponse';
+import { runTransaction } from '../src/utils/db';
+import { describeWithMongo, useTestDatabase, withSession } from './helpers/mongo';
+
+const createUser = (coins: number) =>
+  User.create({ name: 'Wallet User', email: `wallet-${new Types.ObjectId()}@example.com`, password: 'password123', coins });
+
+const placeHold = (userId: Types.ObjectId, amount: number, spinWheelId = new Types.ObjectId()) =>
+  withSession((session) =>
+    runTransaction(session, 'test.wallet', () => WalletService.placeHold(userId, spinWheelId, amount, session))
+  );
+
+const releaseHold = (holdId: Types.ObjectId) =>
+  withSession((session) =>
+    runTransaction(session, 'test.wallet', () => WalletService.releaseHold(holdId, 'Test release', session))
+  );
+
+const captureHold = (holdId: Types.ObjectId) =>
+  withSession((session) => runTransaction(session, 'test.wallet', () => WalletService.captureHold(holdId, session)));
+
+const balanceOf = async (userId: Types.ObjectId) => WalletService.getBalance((await User.findById(userId))!);
+
+describeWithMongo('WalletService', () => {
+  useTestDatabase();
+
+  describe('placeHold', () => {
+    it('reserves coins without moving them', async () => {
+      const user = await createUser(100);
+
+      const hold = await placeHold(user._id, 30);
+
+      expect(hold.status).toBe(WalletHoldStatus.HELD);
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 30, available: 70 });
+    });
+
+    it('rejects a hold larger than the available balance', async () => {
+      const user = await createUser(100);
+      await placeHold(user._id, 80);
+
+      await expect(placeHold(user._id, 21)).rejects.toBeInstanceOf(InsufficientCoinsError);
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 80, available: 20 });
+      expect(await WalletHold.countDocuments({ userId: user._id })).toBe(1);
+    });
+
+    it('rejects a hold for an unknown user', async () => {
+      await expect(placeHold(new Types.ObjectId(), 1)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('never overdraws under concurrent holds', async () => {
+      const user = await createUser(100);
+
+      const results = await Promise.allSettled(Array.from({ length: 10 }, () => placeHold(user._id, 30)));
+
+      const placed = results.filter((result) => result.status === 'fulfilled');
+      expect(placed).toHaveLength(3);
+      results
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .forEach((result) => expect(result.reason).toBeInstanceOf(InsufficientCoinsError));
+
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 90, available: 10 });
+      expect(await WalletHold.countDocuments({ userId: user._id, status: WalletHoldStatus.HELD })).toBe(3);
+    });
+  });
+
+  describe('releaseHold', () => {
+    it('gives the held coins back to the available balance', async () => {
+      const user = await createUser(100);
+      const hold = await placeHold(user._id, 40);
+
+      const released = await releaseHold(hold._id);
+
+      expect(released?.status).toBe(WalletHoldStatus.RELEASED);
+      expect(released?.releaseReason).toBe('Test release');
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 0, available: 100 });
+    });
+
+    it('does nothing for a hold that is already settled', async () => {
+      const user = await createUser(100);
+      const hold = await placeHold(user._id, 40);
+      await releaseHold(hold._id);
+
+      expect(await releaseHold(hold._id)).toBeNull();
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 0, available: 100 });
+    });
+
+    it('releases each hold once under concurrent releases', async () => {
+      const user = await createUser(100);
+      const hold = await placeHold(user._id, 40);
+
+      const results = await Promise.allSettled(Array.from({ length: 5 }, () => releaseHold(hold._id)));
+
+      const released = results.filter((result) => result.status === 'fulfilled' && result.value !== null);
+      expect(released).toHaveLength(1);
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 0, available: 100 });
+    });
+  });
+
+  describe('captureHold', () => {
+    it('debits the held coins and reports the balance around the debit', async () => {
+      const user = await createUser(100);
+      const hold = await placeHold(user._id, 40);
+
+      const captured = await captureHold(hold._id);
+
+      expect(captured.hold.status).toBe(WalletHoldStatus.CAPTURED);
+      expect(captured.balanceBefore).toBe(100);
+      expect(captured.balanceAfter).toBe(60);
+      expect(await balanceOf(user._id)).toEqual({ total: 60, held: 0, available: 60 });
+    });
+
+    it('refuses to capture a released hold', async () => {
+      const user = await createUser(100);
+      const hold = await placeHold(user._id, 40);
+      await releaseHold(hold._id);
+
+      await expect(captureHold(hold._id)).rejects.toBeInstanceOf(ConflictError);
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 0, available: 100 });
+    });
+
+    it('debits once when capture and release race', async () => {
+      const user = await createUser(100);
+      const hold = await placeHold(user._id, 40);
+
+      const [capture, release] = await Promise.allSettled([captureHold(hold._id), releaseHold(hold._id)]);
+
+      const settled = await WalletHold.findById(hold._id);
+      const { total, held } = await balanceOf(user._id);
+      expect(held).toBe(0);
+
+      if (settled?.status === WalletHoldStatus.CAPTURED) {
+        expect(capture.status).toBe('fulfilled');
+        expect(release.status === 'fulfilled' && release.value).toBeNull();
+        expect(total).toBe(60);
+      } else {
+        expect(settled?.status).toBe(WalletHoldStatus.RELEASED);
+        expect(capture.status === 'rejected' && capture.reason).toBeInstanceOf(ConflictError);
+        expect(total).toBe(100);
+      }
+    });
+
+    it('rolls the capture back with the rest of the transaction', async () => {
+      const user = await createUser(100);
+      const hold = await placeHold(user._id, 40);
+
+      await expect(
+        withSession((session) =>
+          runTransaction(session, 'test.wallet', async () => {
+            await WalletService.captureHold(hold._id, session);
+            throw new Error('boom');
+          })
+        )
+      ).rejects.toThrow('boom');
+
+      expect((await WalletHold.findById(hold._id))?.status).toBe(WalletHoldStatus.HELD);
+      expect(await balanceOf(user._id)).toEqual({ total: 100, held: 40, available: 60 });
+    });
+  });
+});